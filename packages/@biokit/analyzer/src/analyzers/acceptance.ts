@@ -0,0 +1,233 @@
+import type { Tokens } from 'marked';
+import type { AcceptanceCriterion, GherkinStep } from '../types';
+import { inlineText, listItemLines, nestedLine } from './markdown';
+import type { MarkdownBlock } from './markdown';
+
+// A label introducing a list of criteria: heading, paragraph or list item
+export const ACCEPTANCE_CRITERIA = /^\s*acceptance criteria\s*:?\s*$/i;
+
+const STEP = /^\s*(?:[-*+]\s+|\d+[.)]\s+)?(?:\*\*|__)?(Given|When|Then|And|But)(?:\*\*|__)?\s+(.+)$/i;
+const SCENARIO = /^\s*(?:\*\*|__)?(?:Scenario(?: Outline| Template)?|Example)(?:\*\*|__)?\s*:\s*(.*)$/i;
+const GHERKIN_BLOCK = /^\s*(?:Background|Rule|Feature|Examples|Scenarios)\s*:/i;
+
+export interface GherkinRule {
+  name: string;
+  line: number;
+  description?: string;
+  scenarios: AcceptanceCriterion[];
+}
+
+export interface GherkinFeature extends GherkinRule {
+  rules: GherkinRule[];
+}
+
+// A Given/When/Then step or a `Scenario:` title
+export function isScenarioLine(line: string): boolean {
+  return STEP.test(line) || SCENARIO.test(line);
+}
+
+// Runs of Given/When/Then lines, each a scenario; a `Scenario:` line names the run after it
+export function findScenarios(text: string, file: string, line: number): AcceptanceCriterion[] {
+  const scenarios: AcceptanceCriterion[] = [];
+  let current: { name?: string; line: number; lines: string[]; steps: GherkinStep[] } | undefined;
+  
+  const flush = () => {
+    if (current && current.steps.some(step => step.keyword === 'When' || step.keyword === 'Then')) {
+      scenarios.push(criterion(file, current.line, current.lines, current.steps, current.name));
+    }
+    current = undefined;
+  };
+  
+  text.split('\n').forEach((raw, index) => {
+    const scenario = raw.match(SCENARIO);
+    const step = toStep(raw);
+    if (scenario) {
+      flush();
+      current = { line: line + index, lines: [raw.trim()], steps: [] };
+      if (scenario[1]?.trim()) current.name = scenario[1].trim();
+    } else if (step) {
+      // A new Given after a Then starts the next scenario
+      if (current && step.keyword === 'Given' && current.steps.some(s => s.keyword === 'Then')) {
+        flush();
+      }
+      current ??= { line: line + index, lines: [], steps: [] };
+      current.lines.push(raw.trim());
+      current.steps.push(step);
+    } else if (raw.trim() && current?.steps.length) {
+      flush();
+    }
+  });
+  flush();
+  
+  return scenarios;
+}
+
+// Items of an acceptance criteria list, verbatim; consecutive items written as steps form scenarios
+export function criteriaFromList(list: Tokens.List, file: string, line: number): AcceptanceCriterion[] {
+  const lines = listItemLines(list, line);
+  const criteria: AcceptanceCriterion[] = [];
+  let steps: { line: number; texts: string[] } | undefined;
+  
+  const flush = () => {
+    if (steps) criteria.push(...findScenarios(steps.texts.join('\n'), file, steps.line));
+    steps = undefined;
+  };
+  
+  list.items.forEach((item, index) => {
+    const itemLine = lines[index] ?? line;
+    const text = item.text.trim();
+    if (isScenarioLine(text.split('\n')[0] ?? '')) {
+      steps ??= { line: itemLine, texts: [] };
+      steps.texts.push(text);
+      return;
+    }
+    flush();
+    
+    const scenarios = findScenarios(item.text, file, itemLine);
+    if (scenarios.length > 0) {
+      criteria.push(...scenarios);
+    } else if (text) {
+      criteria.push(criterion(file, itemLine, [text]));
+    }
+  });
+  flush();
+  
+  return criteria;
+}
+
+// Criteria in the blocks that follow a user story: lists after an "Acceptance Criteria" label,
+// and Given/When/Then steps anywhere
+export function criteriaInBlocks(blocks: MarkdownBlock[], file: string): AcceptanceCriterion[] {
+  const criteria: AcceptanceCriterion[] = [];
+  let labeled = false;
+  
+  for (const { token, line } of blocks) {
+    if (token.type === 'heading' || token.type === 'paragraph') {
+      const text = inlineText((token as Tokens.Heading | Tokens.Paragraph).tokens);
+      if (ACCEPTANCE_CRITERIA.test(text)) {
+        labeled = true;
+        continue;
+      }
+    }
+    
+    if (token.type === 'list') {
+      const list = token as Tokens.List;
+      criteria.push(...(labeled ? criteriaFromList(list, file, line) : labeledSublists(list, file, line)));
+      labeled = false;
+    } else if (token.type === 'paragraph' || token.type === 'code' || token.type === 'blockquote') {
+      criteria.push(...findScenarios((token as Tokens.Paragraph).text, file, line));
+    }
+  }
+  
+  return criteria;
+}
+
+// `- Acceptance criteria:` items with the criteria nested below; otherwise steps written as items
+function labeledSublists(list: Tokens.List, file: string, line: number): AcceptanceCriterion[] {
+  const lines = listItemLines(list, line);
+  const labeled = list.items.flatMap((item, index) => {
+    if (!ACCEPTANCE_CRITERIA.test(item.text.split('\n')[0] ?? '')) return [];
+    return item.tokens
+      .filter((token): token is Tokens.List => token.type === 'list')
+      .flatMap(sublist => criteriaFromList(sublist, file, nestedLine(item, sublist, lines[index] ?? line)));
+  });
+  return labeled.length > 0 ? labeled : findScenarios(list.raw, file, line);
+}
+
+// Features, rules and scenarios of a `.feature` file; Background steps are added to every scenario
+export function parseGherkin(content: string, file: string): GherkinFeature[] {
+  const features: GherkinFeature[] = [];
+  let feature: GherkinFeature | undefined;
+  let rule: GherkinRule | undefined;
+  let background: GherkinStep[] = [];
+  let block: { kind: 'description' | 'background' | 'scenario'; name?: string; line: number; lines: string[]; steps: GherkinStep[] } | undefined;
+  let inDocString = false;
+  
+  const flush = () => {
+    if (!block) return;
+    if (block.kind === 'background') {
+      background = block.steps;
+    } else if (block.kind === 'scenario' && feature) {
+      (rule ?? feature).scenarios.push(criterion(file, block.line, block.lines, [...background, ...block.steps], block.name));
+    }
+    block = undefined;
+  };
+  
+  content.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    
+    // Doc strings are step arguments and may contain anything
+    if (/^("""|```)/.test(trimmed)) {
+      inDocString = !inDocString;
+      block?.lines.push(trimmed);
+      return;
+    }
+    if (inDocString) {
+      block?.lines.push(trimmed);
+      return;
+    }
+    if (trimmed.startsWith('#') || trimmed.startsWith('@')) return;
+    
+    const keyword = trimmed.match(/^(Feature|Rule|Background|Scenario(?: Outline| Template)?|Example)\s*:\s*(.*)$/i);
+    if (keyword?.[1]) {
+      flush();
+      const name = keyword[2]?.trim() ?? '';
+      const kind = keyword[1].toLowerCase();
+      if (kind === 'feature') {
+        feature = { name, line, scenarios: [], rules: [] };
+        features.push(feature);
+        rule = undefined;
+        background = [];
+        block = { kind: 'description', line, lines: [], steps: [] };
+      } else if (kind === 'rule' && feature) {
+        rule = { name, line, scenarios: [] };
+        feature.rules.push(rule);
+        block = { kind: 'description', line, lines: [], steps: [] };
+      } else if (kind === 'background') {
+        block = { kind: 'background', line, lines: [], steps: [] };
+      } else {
+        block = { kind: 'scenario', line, lines: [trimmed], steps: [] };
+        if (name) block.name = name;
+      }
+      return;
+    }
+    
+    if (!block || !trimmed) return;
+    if (block.kind === 'description') {
+      const target = rule ?? feature;
+      if (target) {
+        target.description = target.description ? `${target.description} ${trimmed}` : trimmed;
+      }
+      return;
+    }
+    
+    const step = toStep(trimmed);
+    if (step) block.steps.push(step);
+    if (block.kind === 'scenario') block.lines.push(trimmed);
+  });
+  flush();
+  
+  return features;
+}
+
+function toStep(line: string): GherkinStep | undefined {
+  if (GHERKIN_BLOCK.test(line)) return undefined;
+  const match = line.match(STEP);
+  if (!match?.[1] || !match[2]) return undefined;
+  const keyword = (match[1][0]?.toUpperCase() ?? '') + match[1].slice(1).toLowerCase();
+  return { keyword: keyword as GherkinStep['keyword'], text: match[2].trim() };
+}
+
+function criterion(
+  file: string,
+  line: number,
+  lines: string[],
+  steps: GherkinStep[] = [],
+  scenario?: string
+): AcceptanceCriterion {
+  const result: AcceptanceCriterion = { text: lines.join('\n'), source: { file, line } };
+  if (scenario) result.scenario = scenario;
+  if (steps.length > 0) result.steps = steps;
+  return result;
+}
@@ -0,0 +1,237 @@
+import type * as t from '@babel/types';
+import { getAst, lineOf, stringValue, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { AccessibilityIssue } from '../types';
+
+const JSX_FILES = '**/*.{jsx,tsx,js,mjs}';
+const TEST_IGNORES = ['**/*.test.*', '**/*.spec.*', '**/__tests__/**', '**/*.stories.*'];
+
+// Elements that can't receive focus or keyboard input without extra attributes
+const NON_INTERACTIVE = new Set([
+  'div', 'span', 'p', 'li', 'ul', 'ol', 'section', 'article', 'aside', 'header', 'footer',
+  'main', 'nav', 'img', 'td', 'tr', 'th', 'table', 'figure', 'label', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+const KEY_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const LABEL_ATTRIBUTES = ['aria-label', 'aria-labelledby', 'title'];
+
+// Tailwind-style color utilities and semantic status colors
+const COLOR_CLASS = /^(?:[\w-]+:)*!?(?:text|bg|border|ring|fill|stroke|outline|decoration)-(?:(?:red|green|yellow|amber|orange|emerald|lime|rose|pink|blue|sky|teal|cyan|indigo|violet|purple|fuchsia|gray|slate|zinc|neutral|stone)(?:-\d{2,3})?|black|white|danger|success|warning|error|info)(?:\/\d+)?$/;
+
+const RULES: Record<AccessibilityIssue['rule'], { wcag: string }> = {
+  'img-alt': { wcag: '1.1.1' },
+  'click-non-interactive': { wcag: '2.1.1' },
+  'form-label': { wcag: '1.3.1' },
+  'heading-order': { wcag: '1.3.1' },
+  'html-lang': { wcag: '3.1.1' },
+  'color-only': { wcag: '1.4.1' },
+};
+
+export async function auditAccessibility(inventory: FileInventory): Promise<AccessibilityIssue[]> {
+  const scripts = inventory.paths(JSX_FILES, TEST_IGNORES);
+  const results = await Promise.all(scripts.map(async file => {
+    const ast = await getAst(inventory, file);
+    return ast ? auditJsx(file, ast) : [];
+  }));
+  
+  // Static HTML entry points (Vite, CRA's public/index.html) carry the document language too
+  for (const file of inventory.paths('**/*.html')) {
+    const html = await inventory.read(file);
+    const tag = html.match(/<html\b[^>]*>/i);
+    if (tag && !/\blang\s*=/.test(tag[0])) {
+      const line = html.slice(0, tag.index).split('\n').length;
+      results.push([issue('html-lang', file, line, '<html> has no lang attribute')]);
+    }
+  }
+  
+  return results.flat();
+}
+
+export function auditJsx(file: string, ast: t.File): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const imageComponents = nextImageNames(ast);
+  
+  // First pass: what labels exist and where, since inputs can be labeled from elsewhere in the file
+  const labelRanges: Array<[number, number]> = [];
+  const labelTargets = new Set<string>();
+  let hasDynamicLabelTarget = false;
+  walk(ast.program, node => {
+    if (node.type !== 'JSXElement' || elementName(node.openingElement) !== 'label') return;
+    labelRanges.push([node.start ?? 0, node.end ?? 0]);
+    
+    const target = attribute(node.openingElement, 'htmlFor') ?? attribute(node.openingElement, 'for');
+    const value = target && attributeString(target);
+    if (value) {
+      labelTargets.add(value);
+    } else if (target) {
+      hasDynamicLabelTarget = true;
+    }
+  });
+  
+  let previousHeading = 0;
+  
+  walk(ast.program, node => {
+    if (node.type !== 'JSXElement') return;
+    const opening = node.openingElement;
+    const name = elementName(opening);
+    const line = lineOf(opening);
+    const hasSpread = opening.attributes.some(attr => attr.type === 'JSXSpreadAttribute');
+    
+    if ((name === 'img' || imageComponents.has(name)) && !hasSpread && !attribute(opening, 'alt')) {
+      issues.push(issue('img-alt', file, line, `<${name}> has no alt text`));
+    }
+    
+    if (NON_INTERACTIVE.has(name) && attribute(opening, 'onClick')) {
+      const hasRole = !!attribute(opening, 'role');
+      const hasKeyHandler = KEY_HANDLERS.some(handler => attribute(opening, handler));
+      if (!hasRole || !hasKeyHandler) {
+        const missing = [!hasRole && 'a role', !hasKeyHandler && 'a keyboard handler'].filter(Boolean).join(' or ');
+        issues.push(issue('click-non-interactive', file, line, `<${name}> has onClick without ${missing}; use a <button> or make it focusable`));
+      }
+    }
+    
+    if (isLabelable(opening, name) && !hasSpread) {
+      const start = node.start ?? 0;
+      const insideLabel = labelRanges.some(([from, to]) => start > from && start < to);
+      const id = attribute(opening, 'id');
+      const idValue = id && attributeString(id);
+      const labeledById = idValue ? labelTargets.has(idValue) : !!id && hasDynamicLabelTarget;
+      const labeled = insideLabel || labeledById || LABEL_ATTRIBUTES.some(attr => attribute(opening, attr));
+      if (!labeled) {
+        issues.push(issue('form-label', file, line, `<${name}> has no associated label`));
+      }
+    }
+    
+    const heading = name.match(/^h([1-6])$/);
+    if (heading) {
+      const level = Number(heading[1]);
+      if (previousHeading > 0 && level > previousHeading + 1) {
+        issues.push(issue('heading-order', file, line, `<h${level}> follows <h${previousHeading}>, skipping a level`));
+      }
+      previousHeading = level;
+    }
+    
+    if (name === 'html' && !hasSpread && !attribute(opening, 'lang')) {
+      issues.push(issue('html-lang', file, line, '<html> has no lang attribute'));
+    }
+    
+    const className = attribute(opening, 'className') ?? attribute(opening, 'class');
+    if (className?.value && !hasTextAlternative(opening) && !hasConditionalChildren(node)) {
+      const cue = colorOnlyCondition(className.value);
+      if (cue) {
+        issues.push(issue('color-only', file, line, `<${name}> signals state only by color (${cue})`));
+      }
+    }
+  });
+  
+  return issues;
+}
+
+function issue(
+  rule: AccessibilityIssue['rule'],
+  file: string,
+  line: number,
+  message: string
+): AccessibilityIssue {
+  return { rule, file, line, message, wcag: RULES[rule].wcag };
+}
+
+function elementName(opening: t.JSXOpeningElement): string {
+  const name = opening.name;
+  if (name.type === 'JSXIdentifier') return name.name;
+  if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+  
+  const parts: string[] = [];
+  let current: t.JSXMemberExpression | t.JSXIdentifier = name;
+  while (current.type === 'JSXMemberExpression') {
+    parts.unshift(current.property.name);
+    current = current.object;
+  }
+  parts.unshift(current.name);
+  return parts.join('.');
+}
+
+function attribute(opening: t.JSXOpeningElement, name: string): t.JSXAttribute | undefined {
+  return opening.attributes.find((attr): attr is t.JSXAttribute =>
+    attr.type === 'JSXAttribute' && attr.name.type === 'JSXIdentifier' && attr.name.name === name
+  );
+}
+
+function attributeString(attr: t.JSXAttribute): string | undefined {
+  const value = attr.value;
+  if (!value) return undefined;
+  if (value.type === 'StringLiteral') return value.value;
+  if (value.type === 'JSXExpressionContainer' && value.expression.type !== 'JSXEmptyExpression') {
+    return stringValue(value.expression);
+  }
+  return undefined;
+}
+
+// `import Image from 'next/image'` renders an <img> and needs alt just the same
+function nextImageNames(ast: t.File): Set<string> {
+  const names = new Set<string>();
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ImportDeclaration' || statement.source.value !== 'next/image') continue;
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === 'ImportDefaultSpecifier') names.add(specifier.local.name);
+    }
+  }
+  return names;
+}
+
+function isLabelable(opening: t.JSXOpeningElement, name: string): boolean {
+  if (name === 'select' || name === 'textarea') return true;
+  if (name !== 'input') return false;
+  
+  const type = attribute(opening, 'type');
+  const typeValue = type && attributeString(type);
+  return !typeValue || !UNLABELED_INPUT_TYPES.has(typeValue);
+}
+
+function hasTextAlternative(opening: t.JSXOpeningElement): boolean {
+  return opening.attributes.some(attr =>
+    attr.type === 'JSXAttribute'
+    && attr.name.type === 'JSXIdentifier'
+    && (attr.name.name.startsWith('aria-') || attr.name.name === 'title' || attr.name.name === 'role')
+  );
+}
+
+// Children that change with the same state carry the meaning in text as well
+function hasConditionalChildren(element: t.JSXElement): boolean {
+  return element.children.some(child =>
+    child.type === 'JSXExpressionContainer'
+    && (child.expression.type === 'ConditionalExpression' || child.expression.type === 'LogicalExpression')
+  );
+}
+
+// `cond ? 'p-2 text-green-600' : 'p-2 text-red-600'`: only the colors change with the state
+function colorOnlyCondition(value: t.JSXAttribute['value']): string | undefined {
+  if (!value || value.type !== 'JSXExpressionContainer') return undefined;
+  
+  let cue: string | undefined;
+  walk(value.expression, node => {
+    if (cue || node.type !== 'ConditionalExpression') return;
+    
+    const consequent = stringValue(node.consequent);
+    const alternate = stringValue(node.alternate);
+    if (consequent === undefined || alternate === undefined) return;
+    
+    const whenTrue = splitClasses(consequent);
+    const whenFalse = splitClasses(alternate);
+    const sameShape = whenTrue.other.join(' ') === whenFalse.other.join(' ');
+    const colorsDiffer = whenTrue.colors.join(' ') !== whenFalse.colors.join(' ');
+    if (sameShape && colorsDiffer && whenTrue.colors.length > 0 && whenFalse.colors.length > 0) {
+      cue = `${whenTrue.colors.join(' ')} vs ${whenFalse.colors.join(' ')}`;
+    }
+  });
+  return cue;
+}
+
+function splitClasses(classes: string): { colors: string[]; other: string[] } {
+  const tokens = classes.split(/\s+/).filter(Boolean);
+  return {
+    colors: tokens.filter(token => COLOR_CLASS.test(token)).sort(),
+    other: tokens.filter(token => !COLOR_CLASS.test(token)).sort(),
+  };
+}
@@ -0,0 +1,235 @@
+import yaml from 'js-yaml';
+import { getAst, propertyKeyName, SCRIPT_PATTERN, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { ApiCoverage, ApiOperation, RouteInfo } from '../types';
+
+export const API_SPEC_PATTERNS = [
+  '**/{openapi,swagger}*.{yaml,yml,json}',
+  '**/*.{openapi,swagger}.{yaml,yml,json}',
+  '**/*.{graphql,graphqls,gql}',
+];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const ROOT_TYPES = ['query', 'mutation', 'subscription'] as const;
+
+// Operations described by an OpenAPI 3 / Swagger 2 document or a GraphQL schema
+export function parseApiSpec(file: string, content: string): ApiOperation[] {
+  if (/\.(graphqls?|gql)$/i.test(file)) {
+    return parseGraphQLSchema(file, content);
+  }
+  
+  let spec: unknown;
+  try {
+    // JSON is valid YAML, so one parser covers both
+    spec = yaml.load(content);
+  } catch {
+    return [];
+  }
+  if (!isRecord(spec) || !(spec['openapi'] || spec['swagger']) || !isRecord(spec['paths'])) return [];
+  
+  const basePath = specBasePath(spec);
+  const operations: ApiOperation[] = [];
+  for (const [routePath, item] of Object.entries(spec['paths'])) {
+    if (!isRecord(item)) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!isRecord(operation)) continue;
+      
+      const line = specLine(content, routePath, method);
+      const result: ApiOperation = {
+        kind: 'rest',
+        method: method.toUpperCase(),
+        path: routePath,
+        source: line ? { file, line } : { file },
+      };
+      if (basePath) result.basePath = basePath;
+      if (typeof operation['operationId'] === 'string') result.operationId = operation['operationId'];
+      if (typeof operation['summary'] === 'string') result.summary = operation['summary'];
+      if (Array.isArray(operation['tags'])) result.tags = operation['tags'].map(String);
+      if (operation['deprecated'] === true) result.deprecated = true;
+      operations.push(result);
+    }
+  }
+  
+  return operations;
+}
+
+// Spec operations matched against the routes and GraphQL resolvers found in the code
+export async function checkApiCoverage(
+  inventory: FileInventory,
+  operations: ApiOperation[],
+  routes: RouteInfo[]
+): Promise<ApiCoverage> {
+  const apiRoutes = routes.filter(route => route.kind === 'api');
+  const resolvers = operations.some(operation => operation.kind === 'graphql')
+    ? await findResolvers(inventory)
+    : new Map<string, string>();
+  const documented = new Set<RouteInfo>();
+  
+  const checked = operations.map(operation => {
+    let implementedBy: string | undefined;
+    if (operation.kind === 'graphql') {
+      implementedBy = resolvers.get(`${operation.method}.${operation.path}`);
+    } else {
+      const candidates = [operation.path, `${operation.basePath ?? ''}${operation.path}`].map(splitPath);
+      const route = apiRoutes.find(route =>
+        (route.methods.length === 0 || route.methods.includes(operation.method))
+        && candidates.some(candidate => pathsMatch(candidate, splitPath(route.path))));
+      if (route) {
+        documented.add(route);
+        implementedBy = route.file;
+      }
+    }
+    
+    const result: ApiOperation = { ...operation, status: implementedBy ? 'implemented' : 'missing' };
+    if (implementedBy) result.implementedBy = implementedBy;
+    return result;
+  });
+  
+  const hasRest = operations.some(operation => operation.kind === 'rest');
+  return {
+    operations: checked,
+    implemented: checked.filter(operation => operation.status === 'implemented').length,
+    missing: checked.filter(operation => operation.status === 'missing').length,
+    undocumented: hasRest ? apiRoutes.filter(route => !documented.has(route)) : [],
+  };
+}
+
+// Root fields of `type Query`, `type Mutation` and `type Subscription`, extensions included
+function parseGraphQLSchema(file: string, content: string): ApiOperation[] {
+  // Descriptions and comments may contain anything, so blank them out keeping the line breaks
+  const source = content
+    .replace(/"""[\s\S]*?"""/g, text => text.replace(/[^\n]/g, ' '))
+    .replace(/"(?:[^"\\\n]|\\.)*"/g, text => ' '.repeat(text.length))
+    .replace(/#.*$/gm, text => ' '.repeat(text.length));
+  
+  // `schema { query: RootQuery }` renames the root types
+  const roots = new Map<string, (typeof ROOT_TYPES)[number]>(ROOT_TYPES.map(root => [root[0]?.toUpperCase() + root.slice(1), root]));
+  const schema = source.match(/\bschema\s*(?:@\w+(?:\([^)]*\))?\s*)*\{([^}]*)\}/);
+  if (schema?.[1]) {
+    roots.clear();
+    for (const [, root, type] of schema[1].matchAll(/(query|mutation|subscription)\s*:\s*(\w+)/g)) {
+      if (root && type) roots.set(type, root as (typeof ROOT_TYPES)[number]);
+    }
+  }
+  
+  const operations: ApiOperation[] = [];
+  const typePattern = /\b(?:extend\s+)?type\s+(\w+)[^{]*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = typePattern.exec(source)) !== null) {
+    const root = roots.get(match[1] ?? '');
+    const start = match.index + match[0].length;
+    const end = source.indexOf('}', start);
+    if (!root || end === -1) continue;
+    
+    // Arguments and directives can't hold root fields, so drop them before reading `name:`
+    const body = source.slice(start, end)
+      .replace(/@\w+(\([^)]*\))?/g, text => text.replace(/[^\n]/g, ' '))
+      .replace(/\([^)]*\)/g, text => text.replace(/[^\n]/g, ' '));
+    for (const field of body.matchAll(/(\w+)\s*:/g)) {
+      if (!field[1] || field.index === undefined) continue;
+      operations.push({
+        kind: 'graphql',
+        method: root,
+        path: field[1],
+        source: { file, line: source.slice(0, start + field.index).split('\n').length },
+      });
+    }
+  }
+  
+  return operations;
+}
+
+// `Query: { users() {} }` resolver maps and `@Query() users()` decorated methods
+async function findResolvers(inventory: FileInventory): Promise<Map<string, string>> {
+  const resolvers = new Map<string, string>();
+  const files = inventory.paths(SCRIPT_PATTERN, ['**/*.test.*', '**/*.spec.*', '**/__tests__/**', '**/*.d.ts']);
+  
+  for (const file of files) {
+    const content = await inventory.read(file).catch(() => '');
+    if (!/\b(Query|Mutation|Subscription)\b/.test(content)) continue;
+    const ast = await getAst(inventory, file);
+    if (!ast) continue;
+    
+    walk(ast.program, node => {
+      if (node.type === 'ObjectProperty' && node.value.type === 'ObjectExpression') {
+        const root = rootName(propertyKeyName(node.key));
+        if (!root) return;
+        node.value.properties.forEach(property => {
+          const name = property.type !== 'SpreadElement' ? propertyKeyName(property.key) : undefined;
+          if (name && !resolvers.has(`${root}.${name}`)) resolvers.set(`${root}.${name}`, file);
+        });
+      } else if (node.type === 'ClassMethod' && node.decorators) {
+        for (const decorator of node.decorators) {
+          const call = decorator.expression.type === 'CallExpression' ? decorator.expression : undefined;
+          const root = call?.callee.type === 'Identifier' ? rootName(call.callee.name) : undefined;
+          if (!call || !root) continue;
+          // `@Query(() => User, { name: 'user' })` serves the field under that name
+          const options = call.arguments.find(argument => argument.type === 'ObjectExpression');
+          const renamed = options?.type === 'ObjectExpression'
+            ? options.properties.find(property => property.type === 'ObjectProperty' && propertyKeyName(property.key) === 'name')
+            : undefined;
+          const name = renamed?.type === 'ObjectProperty' && renamed.value.type === 'StringLiteral'
+            ? renamed.value.value
+            : propertyKeyName(node.key);
+          if (name && !resolvers.has(`${root}.${name}`)) resolvers.set(`${root}.${name}`, file);
+        }
+      }
+    });
+  }
+  
+  return resolvers;
+}
+
+// Path of the first server URL (OpenAPI 3) or the basePath (Swagger 2), which spec paths are relative to
+function specBasePath(spec: Record<string, unknown>): string | undefined {
+  const server = Array.isArray(spec['servers']) ? spec['servers'][0] : undefined;
+  const url = isRecord(server) && typeof server['url'] === 'string' ? server['url'] : spec['basePath'];
+  if (typeof url !== 'string') return undefined;
+  const base = url.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/\/$/, '');
+  return base.startsWith('/') ? base : undefined;
+}
+
+// Only the capitalized names, so a `query: {}` option object isn't taken for a resolver map
+function rootName(name: string | undefined): string | undefined {
+  return ROOT_TYPES.find(root => name === `${root[0]?.toUpperCase()}${root.slice(1)}`);
+}
+
+// Segments with every parameter style (`{id}`, `:id`, `[id]`) reduced to one marker
+function splitPath(routePath: string): string[] {
+  return routePath
+    .split(/[?#]/)[0]
+    ?.split('/')
+    .filter(Boolean)
+    .map(segment => {
+      if (/^\[\[?\.\.\..+\]\]?$/.test(segment) || segment === '*') return '**';
+      if (/^\{.+\}$|^:.+|^\[.+\]$/.test(segment)) return '*';
+      return segment.toLowerCase();
+    }) ?? [];
+}
+
+// Route paths may carry an /api prefix the spec leaves out, as Next.js API routes do
+function pathsMatch(spec: string[], route: string[]): boolean {
+  const matches = (segments: string[]) => {
+    const catchAll = segments.indexOf('**');
+    if (catchAll !== -1) {
+      return spec.length >= catchAll && segments.slice(0, catchAll).every((segment, index) => segment === '*' || segment === spec[index]);
+    }
+    return segments.length === spec.length && segments.every((segment, index) => segment === '*' || segment === spec[index]);
+  };
+  return matches(route) || (route[0] === 'api' && matches(route.slice(1)));
+}
+
+// Line of the method key under the path key, for YAML and JSON alike
+function specLine(content: string, routePath: string, method: string): number | undefined {
+  const lines = content.split('\n');
+  const escaped = routePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pathLine = lines.findIndex(line => new RegExp(`^\\s*['"]?${escaped}['"]?\\s*:`).test(line));
+  if (pathLine === -1) return undefined;
+  const methodLine = lines.findIndex((line, index) => index > pathLine && new RegExp(`^\\s*['"]?${method}['"]?\\s*:`, 'i').test(line));
+  return (methodLine === -1 ? pathLine : methodLine) + 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
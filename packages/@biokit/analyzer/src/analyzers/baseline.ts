@@ -0,0 +1,93 @@
+import fs from 'fs-extra';
+import path from 'path';
+import micromatch from 'micromatch';
+import type { BaselineGap, Gap, GapBaseline, GapBaselineDiff, GapIgnoreRule } from '../types';
+
+export const DEFAULT_GAP_BASELINE = '.biokit/gap-baseline.json';
+
+// Rules are relative to the repository root; `prefix` places scoped (--package) paths back under it
+export function applyGapIgnores(gaps: Gap[], rules: GapIgnoreRule[], prefix?: string): Gap[] {
+  if (rules.length === 0) {
+    return gaps;
+  }
+  
+  return gaps.filter(gap => {
+    const file = prefix ? `${prefix.replace(/\/+$/, '')}/${gap.file}` : gap.file;
+    return !rules.some(rule => {
+      const { path: pattern, types } = typeof rule === 'string' ? { path: rule, types: undefined } : rule;
+      return micromatch.isMatch(file, pattern, { dot: true }) && (!types || types.includes(gap.type));
+    });
+  });
+}
+
+export function createGapBaseline(gaps: Gap[], commitSha?: string): GapBaseline {
+  const baseline: GapBaseline = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    gaps: gaps.map(toBaselineGap),
+  };
+  if (commitSha) {
+    baseline.commitSha = commitSha;
+  }
+  return baseline;
+}
+
+export async function writeGapBaseline(file: string, gaps: Gap[], commitSha?: string): Promise<GapBaseline> {
+  const baseline = createGapBaseline(gaps, commitSha);
+  await fs.ensureDir(path.dirname(file));
+  await fs.writeJson(file, baseline, { spaces: 2 });
+  return baseline;
+}
+
+// A missing baseline is not an error: there is just nothing to compare with yet
+export async function loadGapBaseline(file: string): Promise<GapBaseline | null> {
+  if (!await fs.pathExists(file)) {
+    return null;
+  }
+  
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read gap baseline ${file}: ${message}`);
+  }
+  
+  const data = raw as Partial<GapBaseline> | null;
+  if (!data || !Array.isArray(data.gaps)) {
+    throw new Error(`Failed to read gap baseline ${file}: no gaps list`);
+  }
+  
+  return {
+    version: 1,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    ...(data.commitSha ? { commitSha: data.commitSha } : {}),
+    gaps: data.gaps.filter(gap => typeof gap?.fingerprint === 'string'),
+  };
+}
+
+export function diffGapBaseline(gaps: Gap[], baseline: GapBaseline, file: string): GapBaselineDiff {
+  const known = new Set(baseline.gaps.map(gap => gap.fingerprint));
+  const current = new Set(gaps.flatMap(gap => gap.fingerprint ?? []));
+  
+  return {
+    file,
+    createdAt: baseline.createdAt,
+    new: gaps.filter(gap => !gap.fingerprint || !known.has(gap.fingerprint)),
+    resolved: baseline.gaps.filter(gap => !current.has(gap.fingerprint)),
+    unchanged: gaps.filter(gap => gap.fingerprint && known.has(gap.fingerprint)).length,
+  };
+}
+
+function toBaselineGap(gap: Gap): BaselineGap {
+  const entry: BaselineGap = {
+    fingerprint: gap.fingerprint ?? '',
+    type: gap.type,
+    file: gap.file,
+    description: gap.description,
+  };
+  if (gap.line) {
+    entry.line = gap.line;
+  }
+  return entry;
+}
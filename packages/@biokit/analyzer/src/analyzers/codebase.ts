@@ -1,63 +1,91 @@
-import { globby } from 'globby';
-import fs from 'fs-extra';
-import path from 'path';
+import type * as t from '@babel/types';
+import { getAst, SCRIPT_PATTERN } from '../ast';
+import { detectFramework } from '../framework';
+import type { FileInventory } from '../inventory';
+import type { ComponentInfo, FrameworkInfo, ImportGraph, RouteInfo } from '../types';
+import { findReactComponents } from './components';
+import { buildImportGraph } from './imports';
+import { findRoutes } from './routes';
+
+const TEST_IGNORES = ['**/*.test.*', '**/*.spec.*', '**/__tests__/**'];
 
 export interface CodebaseAnalysis {
-  framework: string;
+  framework: FrameworkInfo;
   language: 'javascript' | 'typescript' | 'python' | 'other';
   hasTypescript: boolean;
+  // Files exporting at least one component; details per component below
   components: string[];
+  componentDetails: ComponentInfo[];
   pages: string[];
   apis: string[];
+  routes: RouteInfo[];
+  imports: ImportGraph;
   styles: string[];
   tests: string[];
   entryPoint?: string;
   packageJson?: any;
 }
 
-export async function analyzeCodebase(repoPath: string): Promise<CodebaseAnalysis> {
+export async function analyzeCodebase(inventory: FileInventory): Promise<CodebaseAnalysis> {
   // Check for package.json
-  const packageJsonPath = path.join(repoPath, 'package.json');
-  let packageJson: any = null;
-  
-  if (await fs.pathExists(packageJsonPath)) {
-    packageJson = await fs.readJson(packageJsonPath);
-  }
+  const packageJson: any = await inventory.readJson('package.json');
   
   // Detect framework
-  const framework = detectFramework(packageJson, repoPath);
+  const framework = await detectFramework(inventory, packageJson);
   
   // Detect language
-  const tsFiles = await globby('**/*.{ts,tsx}', { cwd: repoPath });
-  const jsFiles = await globby('**/*.{js,jsx}', { cwd: repoPath });
+  const tsFiles = inventory.paths('**/*.{ts,tsx}');
   const hasTypescript = tsFiles.length > 0;
   const language = hasTypescript ? 'typescript' : 'javascript';
   
-  // Find components
-  const components = await findComponents(repoPath, framework);
+  // Parse every script once and keep what actually renders JSX
+  const componentDetails = await findReactComponents(
+    inventory,
+    inventory.paths(SCRIPT_PATTERN, [...TEST_IGNORES, '**/*.d.ts'])
+  );
   
   // Find pages/routes
-  const pages = await findPages(repoPath, framework);
+  const pages = await findPages(inventory, framework);
   
   // Find API routes
-  const apis = await findAPIs(repoPath, framework);
+  const apis = findAPIs(inventory, framework);
+  
+  // Find components outside pages and API handlers
+  const components = findComponents(inventory, framework, componentDetails, [...pages, ...apis]);
+  
+  // Resolve URL paths; server frameworks can register routes from any file
+  const routeFiles = framework.category === 'backend'
+    ? inventory.paths(SCRIPT_PATTERN, [...TEST_IGNORES, '**/*.d.ts'])
+    : apis;
+  const routes = await findRoutes(inventory, pages, routeFiles, componentDetails);
   
   // Find styles
-  const styles = await findStyles(repoPath);
+  const styles = findStyles(inventory);
   
   // Find tests
-  const tests = await findTests(repoPath);
+  const tests = findTests(inventory);
   
   // Find entry point
-  const entryPoint = await findEntryPoint(repoPath, packageJson);
+  const entryPoint = findEntryPoint(inventory, packageJson);
+  
+  // Map who imports whom; anything the framework or runner loads counts as an entry
+  const imports = await buildImportGraph(inventory, [
+    ...pages,
+    ...apis,
+    ...tests,
+    ...(entryPoint ? [entryPoint] : []),
+  ]);
   
   return {
     framework,
     language,
     hasTypescript,
     components,
+    componentDetails,
     pages,
     apis,
+    routes,
+    imports,
     styles,
     tests,
     entryPoint,
@@ -65,66 +93,28 @@ export async function analyzeCodebase(repoPath: string): Promise<CodebaseAnalysi
   };
 }
 
-function detectFramework(packageJson: any, repoPath: string): string {
-  if (!packageJson) return 'unknown';
-  
-  const deps = {
-    ...packageJson.dependencies,
-    ...packageJson.devDependencies,
-  };
-  
-  // Check for Next.js
-  if (deps.next) return 'nextjs';
-  
-  // Check for React
-  if (deps.react && deps['react-scripts']) return 'create-react-app';
-  if (deps.react && deps.vite) return 'vite-react';
-  if (deps.react && deps.gatsby) return 'gatsby';
-  if (deps.react) return 'react';
-  
-  // Check for Vue
-  if (deps.vue || deps.nuxt) return deps.nuxt ? 'nuxt' : 'vue';
-  
-  // Check for Angular
-  if (deps['@angular/core']) return 'angular';
-  
-  // Check for Svelte
-  if (deps.svelte || deps['@sveltejs/kit']) return deps['@sveltejs/kit'] ? 'sveltekit' : 'svelte';
-  
-  // Check for Express/Node
-  if (deps.express) return 'express';
-  
-  // Check for Python frameworks
-  if (fs.pathExistsSync(path.join(repoPath, 'requirements.txt'))) {
-    return 'python';
-  }
-  
-  return 'unknown';
-}
-
-async function findComponents(repoPath: string, framework: string): Promise<string[]> {
-  const patterns = [
-    '**/components/**/*.{jsx,tsx,js,ts}',
-    '**/src/components/**/*.{jsx,tsx,js,ts}',
-    '**/app/components/**/*.{jsx,tsx,js,ts}',
-  ];
-  
-  if (framework === 'vue' || framework === 'nuxt') {
-    patterns.push('**/*.vue');
+function findComponents(
+  inventory: FileInventory,
+  framework: FrameworkInfo,
+  details: ComponentInfo[],
+  routeFiles: string[]
+): string[] {
+  const excluded = new Set(routeFiles);
+  const files = new Set(details.map(component => component.file).filter(file => !excluded.has(file)));
+  
+  if (framework.id === 'vue' || framework.id === 'nuxt') {
+    for (const file of inventory.paths('**/*.vue', TEST_IGNORES)) {
+      if (!excluded.has(file)) files.add(file);
+    }
   }
   
-  const files = await globby(patterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
-  });
-  
-  return files;
+  return [...files].sort();
 }
 
-async function findPages(repoPath: string, framework: string): Promise<string[]> {
+async function findPages(inventory: FileInventory, framework: FrameworkInfo): Promise<string[]> {
   let patterns: string[] = [];
   
-  switch (framework) {
+  switch (framework.id) {
     case 'nextjs':
       patterns = [
         'pages/**/*.{jsx,tsx,js,ts}',
@@ -147,18 +137,30 @@ async function findPages(repoPath: string, framework: string): Promise<string[]>
       ];
   }
   
-  const files = await globby(patterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
-  });
+  const candidates = inventory.paths(patterns, [...TEST_IGNORES, '**/pages/api/**']);
+  
+  // A page module has to default-export something to be served
+  const pages = await Promise.all(candidates.map(async file => {
+    const ast = file.endsWith('.vue') ? null : await getAst(inventory, file);
+    return !ast || hasDefaultExport(ast) ? file : null;
+  }));
   
-  return files;
+  return pages.filter((file): file is string => file !== null);
+}
+
+function hasDefaultExport(ast: t.File): boolean {
+  return ast.program.body.some(statement =>
+    statement.type === 'ExportDefaultDeclaration'
+    || (statement.type === 'ExportNamedDeclaration' && statement.specifiers.some(specifier =>
+      specifier.exported.type === 'Identifier' && specifier.exported.name === 'default'
+    ))
+  );
 }
 
-async function findAPIs(repoPath: string, framework: string): Promise<string[]> {
+function findAPIs(inventory: FileInventory, framework: FrameworkInfo): string[] {
   let patterns: string[] = [];
   
-  switch (framework) {
+  switch (framework.id) {
     case 'nextjs':
       patterns = [
         'pages/api/**/*.{js,ts}',
@@ -168,6 +170,8 @@ async function findAPIs(repoPath: string, framework: string): Promise<string[]>
       ];
       break;
     case 'express':
+    case 'fastify':
+    case 'koa':
       patterns = [
         'routes/**/*.{js,ts}',
         'api/**/*.{js,ts}',
@@ -183,29 +187,19 @@ async function findAPIs(repoPath: string, framework: string): Promise<string[]>
       ];
   }
   
-  const files = await globby(patterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
-  });
-  
-  return files;
+  return inventory.paths(patterns, TEST_IGNORES);
 }
 
-async function findStyles(repoPath: string): Promise<string[]> {
+function findStyles(inventory: FileInventory): string[] {
   const patterns = [
     '**/*.{css,scss,sass,less}',
     '**/styles/**/*',
   ];
   
-  const files = await globby(patterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', 'dist/**', 'build/**'],
-  });
-  
-  return files;
+  return inventory.paths(patterns);
 }
 
-async function findTests(repoPath: string): Promise<string[]> {
+function findTests(inventory: FileInventory): string[] {
   const patterns = [
     '**/*.{test,spec}.{js,jsx,ts,tsx}',
     '**/__tests__/**/*.{js,jsx,ts,tsx}',
@@ -213,15 +207,10 @@ async function findTests(repoPath: string): Promise<string[]> {
     '**/tests/**/*.{js,jsx,ts,tsx}',
   ];
   
-  const files = await globby(patterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**'],
-  });
-  
-  return files;
+  return inventory.paths(patterns);
 }
 
-async function findEntryPoint(repoPath: string, packageJson: any): Promise<string | undefined> {
+function findEntryPoint(inventory: FileInventory, packageJson: any): string | undefined {
   // Check package.json main field
   if (packageJson?.main) {
     return packageJson.main;
@@ -242,7 +231,7 @@ async function findEntryPoint(repoPath: string, packageJson: any): Promise<strin
   ];
   
   for (const entry of possibleEntries) {
-    if (await fs.pathExists(path.join(repoPath, entry))) {
+    if (inventory.has(entry)) {
       return entry;
     }
   }
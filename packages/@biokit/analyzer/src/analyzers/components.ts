@@ -0,0 +1,381 @@
+import path from 'path';
+import type * as t from '@babel/types';
+import { calleeName, getAst, isFunctionNode, lineOf, propertyKeyName, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { ComponentInfo } from '../types';
+
+interface Candidate {
+  name: string;
+  kind: ComponentInfo['kind'];
+  node: t.Function | t.Class;
+  line: number;
+  propsType?: t.TSType;
+}
+
+const WRAPPERS = new Set(['memo', 'forwardRef']);
+const FC_TYPES = new Set(['FC', 'FunctionComponent', 'VFC', 'ComponentType']);
+const COMPONENT_BASES = new Set(['Component', 'PureComponent']);
+
+export async function findReactComponents(
+  inventory: FileInventory,
+  files: string[]
+): Promise<ComponentInfo[]> {
+  const results = await Promise.all(files.map(async file => {
+    const ast = await getAst(inventory, file);
+    if (!ast) return [];
+    const code = await inventory.read(file);
+    return extractComponents(file, ast, code);
+  }));
+  
+  return results.flat();
+}
+
+// Exported functions and classes that render JSX, with their props and hooks
+export function extractComponents(file: string, ast: t.File, code: string): ComponentInfo[] {
+  const body = ast.program.body;
+  const candidates = new Map<string, Candidate>();
+  const exported = new Map<string, ComponentInfo['exportType']>();
+  const propTypes = new Map<string, string[]>();
+  let anonymousDefault: Candidate | undefined;
+  
+  const addDeclaration = (node: t.Node): void => {
+    if (node.type === 'FunctionDeclaration' && node.id) {
+      candidates.set(node.id.name, { name: node.id.name, kind: 'function', node, line: lineOf(node) });
+    } else if (node.type === 'ClassDeclaration' && node.id) {
+      candidates.set(node.id.name, { name: node.id.name, kind: 'class', node, line: lineOf(node) });
+    } else if (node.type === 'VariableDeclaration') {
+      for (const declarator of node.declarations) {
+        if (declarator.id.type !== 'Identifier' || !declarator.init) continue;
+        const candidate = fromExpression(declarator.id.name, declarator.init, candidates);
+        if (!candidate) continue;
+        const annotated = fcPropsType(declarator.id);
+        if (annotated && !candidate.propsType) {
+          candidate.propsType = annotated;
+        }
+        candidates.set(candidate.name, candidate);
+      }
+    }
+  };
+  
+  for (const statement of body) {
+    if (statement.type === 'ExportNamedDeclaration') {
+      if (statement.declaration) {
+        addDeclaration(statement.declaration);
+        for (const name of declaredNames(statement.declaration)) {
+          exported.set(name, 'named');
+        }
+      }
+      if (!statement.source) {
+        for (const specifier of statement.specifiers) {
+          if (specifier.type !== 'ExportSpecifier') continue;
+          const exportedName = propertyKeyName(specifier.exported);
+          exported.set(specifier.local.name, exportedName === 'default' ? 'default' : 'named');
+        }
+      }
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      const declaration = statement.declaration;
+      if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+        addDeclaration(declaration);
+        exported.set(declaration.id.name, 'default');
+      } else if (declaration.type === 'Identifier') {
+        exported.set(declaration.name, 'default');
+      } else if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') {
+        anonymousDefault = {
+          name: defaultComponentName(file),
+          kind: declaration.type === 'ClassDeclaration' ? 'class' : 'function',
+          node: declaration,
+          line: lineOf(declaration),
+        };
+      } else if (declaration.type !== 'TSDeclareFunction') {
+        const [inner] = declaration.type === 'CallExpression' ? declaration.arguments : [];
+        if (inner?.type === 'Identifier' && candidates.has(inner.name)) {
+          // `export default memo(Button)` exports Button itself
+          exported.set(inner.name, 'default');
+        } else {
+          anonymousDefault = fromExpression(defaultComponentName(file), declaration, candidates);
+        }
+      }
+    } else if (statement.type === 'ExpressionStatement') {
+      collectPropTypes(statement.expression, propTypes);
+    } else {
+      addDeclaration(statement);
+    }
+  }
+  
+  const components: ComponentInfo[] = [];
+  const describe = (candidate: Candidate, exportType: ComponentInfo['exportType']) => {
+    if (!/^[A-Z]/.test(candidate.name) || !isComponent(candidate.node)) return;
+    
+    const info: ComponentInfo = {
+      name: candidate.name,
+      file,
+      line: candidate.line,
+      exportType,
+      kind: candidate.kind,
+      props: [],
+      hooks: findHooks(candidate.node),
+    };
+    
+    const propsType = candidate.propsType ?? declaredPropsType(candidate.node);
+    if (propsType) {
+      info.propsType = code.slice(propsType.start ?? 0, propsType.end ?? 0).replace(/\s+/g, ' ');
+      info.props = typeMembers(propsType, body);
+    }
+    if (info.props.length === 0) {
+      info.props = [...new Set([
+        ...destructuredProps(candidate.node),
+        ...(propTypes.get(candidate.name) ?? []),
+      ])];
+    }
+    
+    components.push(info);
+  };
+  
+  for (const [name, exportType] of exported) {
+    const candidate = candidates.get(name);
+    if (candidate) describe(candidate, exportType);
+  }
+  if (anonymousDefault) {
+    describe(anonymousDefault, 'default');
+  }
+  
+  return components.sort((a, b) => a.line - b.line);
+}
+
+function fromExpression(
+  name: string,
+  init: t.Node,
+  candidates: Map<string, Candidate>
+): Candidate | undefined {
+  if (init.type === 'ArrowFunctionExpression') {
+    return { name, kind: 'arrow', node: init, line: lineOf(init) };
+  }
+  if (init.type === 'FunctionExpression') {
+    return { name, kind: 'function', node: init, line: lineOf(init) };
+  }
+  if (init.type === 'ClassExpression') {
+    return { name, kind: 'class', node: init, line: lineOf(init) };
+  }
+  
+  // memo(...), forwardRef(...), React.memo(forwardRef(...))
+  const wrapper = calleeName(init);
+  if (init.type !== 'CallExpression' || !wrapper || !WRAPPERS.has(wrapper)) return undefined;
+  
+  const [inner] = init.arguments;
+  if (!inner) return undefined;
+  
+  const wrapped = inner.type === 'Identifier'
+    ? candidates.get(inner.name)
+    : fromExpression(name, inner, candidates);
+  if (!wrapped) return undefined;
+  
+  const typeArgs = init.typeParameters?.params ?? [];
+  const propsType = wrapper === 'forwardRef' ? typeArgs[1] : typeArgs[0];
+  const candidate: Candidate = {
+    ...wrapped,
+    name,
+    kind: wrapper === 'forwardRef' || wrapped.kind === 'forwardRef' ? 'forwardRef' : 'memo',
+    line: lineOf(init),
+  };
+  if (propsType) {
+    candidate.propsType = propsType;
+  }
+  return candidate;
+}
+
+function declaredNames(node: t.Declaration): string[] {
+  if ((node.type === 'FunctionDeclaration' || node.type === 'ClassDeclaration') && node.id) {
+    return [node.id.name];
+  }
+  if (node.type === 'VariableDeclaration') {
+    return node.declarations.flatMap(declarator =>
+      declarator.id.type === 'Identifier' ? [declarator.id.name] : []
+    );
+  }
+  return [];
+}
+
+// Anonymous default exports are named after the file, or the folder for index files
+function defaultComponentName(file: string): string {
+  const parsed = path.posix.parse(file);
+  const base = parsed.name === 'index'
+    ? path.posix.basename(parsed.dir) || parsed.name
+    : parsed.name;
+  const words = base.replace(/[[\]().@]/g, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(name) ? name : `Component${name}`;
+}
+
+function isComponent(node: t.Function | t.Class): boolean {
+  if (isFunctionNode(node)) {
+    return returnsJsx(node);
+  }
+  
+  const superClass = node.superClass;
+  if (superClass) {
+    const base = superClass.type === 'Identifier'
+      ? superClass.name
+      : superClass.type === 'MemberExpression' && superClass.property.type === 'Identifier'
+        ? superClass.property.name
+        : undefined;
+    if (base && COMPONENT_BASES.has(base)) return true;
+  }
+  
+  return node.body.body.some(member =>
+    member.type === 'ClassMethod'
+    && propertyKeyName(member.key) === 'render'
+    && returnsJsx(member)
+  );
+}
+
+function returnsJsx(fn: t.Function): boolean {
+  if (fn.body.type !== 'BlockStatement') {
+    return isJsxValue(fn.body);
+  }
+  
+  let found = false;
+  walk(fn.body, node => {
+    if (found || (node !== fn.body && isFunctionNode(node))) return false;
+    if (node.type === 'ReturnStatement' && node.argument && isJsxValue(node.argument)) {
+      found = true;
+      return false;
+    }
+    return undefined;
+  });
+  return found;
+}
+
+function isJsxValue(node: t.Node): boolean {
+  switch (node.type) {
+    case 'JSXElement':
+    case 'JSXFragment':
+      return true;
+    case 'ParenthesizedExpression':
+    case 'TSAsExpression':
+    case 'TSNonNullExpression':
+      return isJsxValue(node.expression);
+    case 'ConditionalExpression':
+      return isJsxValue(node.consequent) || isJsxValue(node.alternate);
+    case 'LogicalExpression':
+      return isJsxValue(node.left) || isJsxValue(node.right);
+    case 'CallExpression':
+      return calleeName(node) === 'createElement';
+    default:
+      return false;
+  }
+}
+
+function findHooks(node: t.Function | t.Class): string[] {
+  const hooks = new Set<string>();
+  walk(node, child => {
+    const name = calleeName(child);
+    if (name && /^use[A-Z0-9]/.test(name)) {
+      hooks.add(name);
+    }
+  });
+  return [...hooks];
+}
+
+// `const Button: React.FC<ButtonProps> = ...`
+function fcPropsType(id: t.Identifier): t.TSType | undefined {
+  const annotation = id.typeAnnotation;
+  if (annotation?.type !== 'TSTypeAnnotation') return undefined;
+  
+  const type = annotation.typeAnnotation;
+  if (type.type !== 'TSTypeReference') return undefined;
+  
+  const typeName = type.typeName.type === 'Identifier' ? type.typeName.name : type.typeName.right.name;
+  if (!FC_TYPES.has(typeName)) return undefined;
+  return type.typeParameters?.params[0];
+}
+
+function declaredPropsType(node: t.Function | t.Class): t.TSType | undefined {
+  if (isFunctionNode(node)) {
+    const [first] = node.params;
+    const annotation = first && 'typeAnnotation' in first ? first.typeAnnotation : undefined;
+    return annotation?.type === 'TSTypeAnnotation' ? annotation.typeAnnotation : undefined;
+  }
+  
+  const typeArgs = node.superTypeParameters;
+  return typeArgs?.type === 'TSTypeParameterInstantiation' ? typeArgs.params[0] : undefined;
+}
+
+// Member names of an inline type literal or a type declared in the same file
+function typeMembers(type: t.TSType, body: t.Statement[], seen = new Set<string>()): string[] {
+  if (type.type === 'TSTypeLiteral') {
+    return memberNames(type.members);
+  }
+  if (type.type === 'TSIntersectionType' || type.type === 'TSUnionType') {
+    return [...new Set(type.types.flatMap(part => typeMembers(part, body, seen)))];
+  }
+  if (type.type !== 'TSTypeReference' || type.typeName.type !== 'Identifier') {
+    return [];
+  }
+  
+  const typeName = type.typeName.name;
+  if (seen.has(typeName)) return [];
+  seen.add(typeName);
+  
+  for (const statement of body) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (!declaration) continue;
+    
+    if (declaration.type === 'TSInterfaceDeclaration' && declaration.id.name === typeName) {
+      const inherited = (declaration.extends ?? []).flatMap(heritage =>
+        heritage.expression.type === 'Identifier'
+          ? typeMembers(
+            { type: 'TSTypeReference', typeName: heritage.expression } as t.TSTypeReference,
+            body,
+            seen
+          )
+          : []
+      );
+      return [...new Set([...inherited, ...memberNames(declaration.body.body)])];
+    }
+    if (declaration.type === 'TSTypeAliasDeclaration' && declaration.id.name === typeName) {
+      return typeMembers(declaration.typeAnnotation, body, seen);
+    }
+  }
+  
+  return [];
+}
+
+function memberNames(members: t.TSTypeElement[]): string[] {
+  return members.flatMap(member => {
+    if (member.type !== 'TSPropertySignature' && member.type !== 'TSMethodSignature') return [];
+    const name = propertyKeyName(member.key);
+    return name ? [name] : [];
+  });
+}
+
+function destructuredProps(node: t.Function | t.Class): string[] {
+  if (!isFunctionNode(node)) return [];
+  
+  const [first] = node.params;
+  const pattern = first?.type === 'AssignmentPattern' ? first.left : first;
+  if (pattern?.type !== 'ObjectPattern') return [];
+  
+  return pattern.properties.flatMap(property =>
+    property.type === 'ObjectProperty' ? propertyKeyName(property.key) ?? [] : []
+  );
+}
+
+// `Button.propTypes = { label: PropTypes.string }`
+function collectPropTypes(expression: t.Expression, propTypes: Map<string, string[]>): void {
+  if (expression.type !== 'AssignmentExpression') return;
+  
+  const { left, right } = expression;
+  if (
+    left.type !== 'MemberExpression'
+    || left.object.type !== 'Identifier'
+    || left.property.type !== 'Identifier'
+    || left.property.name !== 'propTypes'
+    || right.type !== 'ObjectExpression'
+  ) {
+    return;
+  }
+  
+  propTypes.set(left.object.name, right.properties.flatMap(property =>
+    property.type === 'ObjectProperty' ? propertyKeyName(property.key) ?? [] : []
+  ));
+}
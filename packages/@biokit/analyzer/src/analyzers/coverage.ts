@@ -0,0 +1,322 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { globby } from 'globby';
+import micromatch from 'micromatch';
+import type { FileInventory } from '../inventory';
+import type { CoverageMetric, CoverageReport, FileCoverage } from '../types';
+
+type ReportFormat = Exclude<CoverageReport['source'], 'estimate'>;
+
+interface Counts {
+  covered: number;
+  total: number;
+}
+
+interface FileCounts {
+  file: string;
+  lines: Counts;
+  branches: Counts;
+  functions: Counts;
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, { start: { line: number } }>;
+  s?: Record<string, number>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>;
+}
+
+interface SummaryEntry {
+  lines?: Counts;
+  branches?: Counts;
+  functions?: Counts;
+}
+
+// Most detailed format first; the first format with a readable report wins
+const REPORT_FORMATS: Array<[ReportFormat, string]> = [
+  ['istanbul', '**/coverage-final.json'],
+  ['lcov', '**/lcov.info'],
+  ['cobertura', '**/{cobertura-coverage,coverage}.xml'],
+  ['json-summary', '**/coverage-summary.json'],
+  ['test-results', '**/{jest,vitest,test}-{results,report}.json'],
+];
+
+// Coverage output is usually gitignored, so look on disk rather than in the inventory
+export async function analyzeCoverage(inventory: FileInventory): Promise<CoverageReport> {
+  const found = await globby(REPORT_FORMATS.map(([, pattern]) => pattern), {
+    cwd: inventory.root,
+    ignore: ['**/node_modules/**', '**/.git/**'],
+    // Scoped workspace packages put reports at packages/@scope/pkg/coverage/lcov.info, or one folder deeper
+    deep: 6,
+  });
+  
+  for (const [format, pattern] of REPORT_FORMATS) {
+    const reports: string[] = [];
+    const files: FileCounts[] = [];
+    
+    for (const report of micromatch(found, pattern).sort()) {
+      const content = await fs.readFile(path.join(inventory.root, report), 'utf-8');
+      const parsed = parseReport(format, content);
+      if (parsed.length === 0) continue;
+      
+      const baseDir = reportProjectDir(report);
+      reports.push(report);
+      files.push(...parsed.map(entry => ({ ...entry, file: toRepoPath(inventory, baseDir, entry.file) })));
+    }
+    
+    if (files.length > 0) {
+      return toCoverageReport(format, reports, files);
+    }
+  }
+  
+  return estimateCoverage(inventory);
+}
+
+// Without a report, fall back to the ratio of test files to code files
+function estimateCoverage(inventory: FileInventory): CoverageReport {
+  const codeFiles = inventory.paths([
+    '**/*.{js,jsx,ts,tsx}',
+    '**/*.{css,scss,sass}',
+  ]);
+  const testFiles = inventory.paths([
+    '**/*.{test,spec}.{js,jsx,ts,tsx}',
+  ]);
+  
+  return {
+    source: 'estimate',
+    estimated: true,
+    reports: [],
+    lines: Math.min(Math.round((testFiles.length / Math.max(codeFiles.length, 1)) * 100), 100),
+    files: [],
+  };
+}
+
+function parseReport(format: ReportFormat, content: string): FileCounts[] {
+  try {
+    switch (format) {
+      case 'istanbul':
+        return fromIstanbul(JSON.parse(content));
+      case 'lcov':
+        return fromLcov(content);
+      case 'cobertura':
+        return fromCobertura(content);
+      case 'json-summary':
+        return fromSummary(JSON.parse(content));
+      case 'test-results': {
+        // Jest/Vitest `--json --coverage` output embeds an Istanbul coverage map
+        const results = JSON.parse(content) as { coverageMap?: Record<string, IstanbulFileCoverage> };
+        return results.coverageMap ? fromIstanbul(results.coverageMap) : [];
+      }
+    }
+  } catch {
+    // A truncated or foreign file is not a coverage report
+    return [];
+  }
+}
+
+function fromIstanbul(map: Record<string, IstanbulFileCoverage | { data: IstanbulFileCoverage }>): FileCounts[] {
+  return Object.entries(map).map(([key, value]) => {
+    const data = 'data' in value ? value.data : value;
+    
+    // Istanbul reports a line as covered when any statement starting on it ran
+    const lineHits = new Map<number, number>();
+    Object.entries(data.statementMap ?? {}).forEach(([id, location]) => {
+      const line = location.start.line;
+      lineHits.set(line, Math.max(lineHits.get(line) ?? 0, data.s?.[id] ?? 0));
+    });
+    
+    return {
+      file: data.path ?? key,
+      lines: countHits([...lineHits.values()]),
+      branches: countHits(Object.values(data.b ?? {}).flat()),
+      functions: countHits(Object.values(data.f ?? {})),
+    };
+  });
+}
+
+function fromLcov(content: string): FileCounts[] {
+  const files: FileCounts[] = [];
+  let current: FileCounts | null = null;
+  
+  for (const line of content.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    const tag = separator === -1 ? line.trim() : line.slice(0, separator);
+    const fields = line.slice(separator + 1).split(',');
+    
+    if (tag === 'SF') {
+      current = emptyCounts(line.slice(separator + 1).trim());
+    } else if (tag === 'end_of_record' && current) {
+      files.push(current);
+      current = null;
+    } else if (current && tag === 'DA') {
+      addHit(current.lines, Number(fields[1]));
+    } else if (current && tag === 'FNDA') {
+      addHit(current.functions, Number(fields[0]));
+    } else if (current && tag === 'BRDA') {
+      // `-` means the branch's block never ran
+      addHit(current.branches, fields[3] === '-' ? 0 : Number(fields[3]));
+    }
+  }
+  
+  return files;
+}
+
+function fromCobertura(content: string): FileCounts[] {
+  const files: FileCounts[] = [];
+  const source = content.match(/<source>([^<]*)<\/source>/)?.[1]?.trim() ?? '';
+  
+  for (const match of content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g)) {
+    const filename = xmlAttribute(match[1] ?? '', 'filename');
+    if (!filename) continue;
+    
+    const entry = emptyCounts(source && !path.isAbsolute(filename) ? path.posix.join(source, filename) : filename);
+    const body = match[2] ?? '';
+    
+    // Method line lists repeat the class's own, so only count them for functions
+    const methods = body.match(/<methods>[\s\S]*?<\/methods>/)?.[0] ?? '';
+    for (const method of methods.matchAll(/<method\b[\s\S]*?<\/method>/g)) {
+      const hits = [...method[0].matchAll(/<line\b([^>]*?)\/?>/g)]
+        .map(line => Number(xmlAttribute(line[1] ?? '', 'hits') ?? 0));
+      addHit(entry.functions, hits.some(hit => hit > 0) ? 1 : 0);
+    }
+    
+    for (const line of body.replace(methods, '').matchAll(/<line\b([^>]*?)\/?>/g)) {
+      const attributes = line[1] ?? '';
+      addHit(entry.lines, Number(xmlAttribute(attributes, 'hits') ?? 0));
+      
+      const conditions = xmlAttribute(attributes, 'condition-coverage')?.match(/\((\d+)\/(\d+)\)/);
+      if (conditions) {
+        entry.branches.covered += Number(conditions[1]);
+        entry.branches.total += Number(conditions[2]);
+      }
+    }
+    
+    files.push(entry);
+  }
+  
+  return files;
+}
+
+function fromSummary(summary: Record<string, SummaryEntry>): FileCounts[] {
+  return Object.entries(summary)
+    .filter(([file]) => file !== 'total')
+    .map(([file, entry]) => ({
+      file,
+      lines: toCounts(entry.lines),
+      branches: toCounts(entry.branches),
+      functions: toCounts(entry.functions),
+    }));
+}
+
+function toCoverageReport(source: ReportFormat, reports: string[], entries: FileCounts[]): CoverageReport {
+  // Merge files split across reports (or across Cobertura classes)
+  const byFile = new Map<string, FileCounts>();
+  for (const entry of entries) {
+    const merged = byFile.get(entry.file) ?? emptyCounts(entry.file);
+    (['lines', 'branches', 'functions'] as const).forEach(kind => {
+      merged[kind].covered += entry[kind].covered;
+      merged[kind].total += entry[kind].total;
+    });
+    byFile.set(entry.file, merged);
+  }
+  
+  const files = [...byFile.values()].sort((a, b) => a.file.localeCompare(b.file));
+  const totals = emptyCounts('');
+  files.forEach(file => {
+    (['lines', 'branches', 'functions'] as const).forEach(kind => {
+      totals[kind].covered += file[kind].covered;
+      totals[kind].total += file[kind].total;
+    });
+  });
+  
+  const report: CoverageReport = {
+    source,
+    estimated: false,
+    reports,
+    lines: toMetric(totals.lines).pct,
+    files: files.map(toFileCoverage),
+  };
+  if (totals.branches.total > 0) {
+    report.branches = toMetric(totals.branches).pct;
+  }
+  if (totals.functions.total > 0) {
+    report.functions = toMetric(totals.functions).pct;
+  }
+  
+  return report;
+}
+
+function toFileCoverage(entry: FileCounts): FileCoverage {
+  const coverage: FileCoverage = { file: entry.file, lines: toMetric(entry.lines) };
+  if (entry.branches.total > 0) {
+    coverage.branches = toMetric(entry.branches);
+  }
+  if (entry.functions.total > 0) {
+    coverage.functions = toMetric(entry.functions);
+  }
+  return coverage;
+}
+
+function toMetric(counts: Counts): CoverageMetric {
+  const pct = counts.total > 0 ? (counts.covered / counts.total) * 100 : 100;
+  return { ...counts, pct: Math.round(pct * 10) / 10 };
+}
+
+// Reports live in coverage/ next to the project they were produced for
+function reportProjectDir(report: string): string {
+  const dir = path.posix.dirname(report);
+  return path.posix.basename(dir) === 'coverage' ? path.posix.dirname(dir) : dir;
+}
+
+// Report paths are absolute to wherever the tests ran, or relative to that project
+function toRepoPath(inventory: FileInventory, baseDir: string, file: string): string {
+  const normalized = file.replace(/\\/g, '/');
+  const root = inventory.root.replace(/\\/g, '/').replace(/\/+$/, '');
+  if (normalized.startsWith(`${root}/`)) {
+    return normalized.slice(root.length + 1);
+  }
+  
+  const isAbsolute = normalized.startsWith('/') || /^[a-zA-Z]:\//.test(normalized);
+  const relative = path.posix.normalize(path.posix.join(baseDir, normalized));
+  if (!isAbsolute && inventory.has(relative)) {
+    return relative;
+  }
+  
+  // Produced on another machine (CI, another checkout): match the longest known suffix
+  const segments = normalized.split('/').filter(Boolean);
+  for (let start = 0; start < segments.length; start++) {
+    const candidate = segments.slice(start).join('/');
+    if (inventory.has(candidate)) {
+      return candidate;
+    }
+  }
+  
+  return isAbsolute ? normalized : relative;
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+function emptyCounts(file: string): FileCounts {
+  return {
+    file,
+    lines: { covered: 0, total: 0 },
+    branches: { covered: 0, total: 0 },
+    functions: { covered: 0, total: 0 },
+  };
+}
+
+function toCounts(counts: Counts | undefined): Counts {
+  return { covered: counts?.covered ?? 0, total: counts?.total ?? 0 };
+}
+
+function countHits(hits: number[]): Counts {
+  return { covered: hits.filter(hit => hit > 0).length, total: hits.length };
+}
+
+function addHit(counts: Counts, hits: number): void {
+  counts.total += 1;
+  if (hits > 0) counts.covered += 1;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { extractDataModels, resolveDataModels, singularize } from './data-models';
+
+describe('singularize', () => {
+  it('drops plural endings', () => {
+    expect(['users', 'categories', 'addresses', 'boxes', 'statuses', 'buses'].map(singularize))
+      .toEqual(['user', 'category', 'address', 'box', 'status', 'bus']);
+  });
+  
+  it('keeps words that are already singular', () => {
+    expect(['address', 'status', 'analysis', 'news', 'bus'].map(singularize))
+      .toEqual(['address', 'status', 'analysis', 'news', 'bus']);
+  });
+});
+
+describe('resolveDataModels', () => {
+  it('merges a plural table with the entity it stores', () => {
+    const models = resolveDataModels([
+      ...extractDataModels('src/types.ts', 'export interface Status {\n  id: number;\n  label: string;\n}\n'),
+      ...extractDataModels('db/schema.sql', 'CREATE TABLE statuses (\n  id integer PRIMARY KEY,\n  color text\n);\n'),
+    ]);
+    
+    expect(models.map(model => model.name)).toEqual(['Status']);
+    expect(models[0]?.fields.map(field => field.name)).toEqual(['id', 'label', 'color']);
+  });
+});
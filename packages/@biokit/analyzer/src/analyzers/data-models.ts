@@ -0,0 +1,526 @@
+import path from 'path';
+import type { Tokens } from 'marked';
+import type * as t from '@babel/types';
+import { parseScript, propertyKeyName, stringValue, walk } from '../ast';
+import type { DataField, DataFieldType, DataModel, DataModelSource, DataRelation } from '../types';
+import { inlineText } from './markdown';
+import type { MarkdownDocument } from './markdown';
+
+const SCALAR_TYPES: Array<[RegExp, DataFieldType]> = [
+  [/^(bool|boolean|bit)$/, 'boolean'],
+  [/^(int|integer|int[248]|bigint|smallint|tinyint|mediumint|serial|bigserial|smallserial)$/, 'integer'],
+  [/^(number|float|float[48]|double|double precision|real|decimal|numeric|money)$/, 'number'],
+  [/^(date|datetime|datetime2|date-time|timestamp|timestamptz|timestamp with(out)? time zone|time)$/, 'date'],
+  [/^(json|jsonb|object|record|map|any|unknown)$/, 'json'],
+  [/^(string|text|tinytext|mediumtext|longtext|varchar|character varying|char|character|nchar|nvarchar|citext|uuid|email|uri|url|id|objectid)$/, 'string'],
+];
+
+const CREATE_TABLE = /create\s+table\s+(?:if\s+not\s+exists\s+)?([`"[\]\w.]+)\s*\(/gi;
+const PRISMA_BLOCK = /^[ \t]*(model|enum|type)\s+(\w+)\s*\{([\s\S]*?)^[ \t]*\}/gm;
+
+// Data models in a spec file; Markdown docs contribute field tables and fenced schema blocks
+export function extractDataModels(file: string, content: string, doc?: () => MarkdownDocument): DataModel[] {
+  const extension = path.extname(file).toLowerCase();
+  switch (extension) {
+    case '.sql':
+      return sqlModels(content, file, 1);
+    case '.prisma':
+      return prismaModels(content, file, 1);
+    case '.json':
+      return jsonSchemaModels(content, file, 1);
+    case '.ts':
+      return typeScriptModels(content, file, 1);
+    case '.md':
+    case '.mdx':
+      return doc ? markdownModels(file, doc()) : [];
+    default:
+      return [];
+  }
+}
+
+// Merge models found in several documents, then point fields at the models they name
+export function resolveDataModels(models: DataModel[]): DataModel[] {
+  const byKey = new Map<string, DataModel>();
+  for (const model of models) {
+    const existing = byKey.get(modelKey(model.name));
+    if (!existing) {
+      byKey.set(modelKey(model.name), { ...model, fields: [...model.fields] });
+      continue;
+    }
+    const names = new Set(existing.fields.map(field => field.name.toLowerCase()));
+    existing.fields.push(...model.fields.filter(field => !names.has(field.name.toLowerCase())));
+    if (!existing.description && model.description) existing.description = model.description;
+  }
+  
+  const resolved = [...byKey.values()];
+  for (const model of resolved) {
+    model.fields = model.fields.map(field => {
+      const target = byKey.get(modelKey(field.references ?? baseTypeName(field.rawType)));
+      if (field.references) {
+        return target ? { ...field, references: target.name } : field;
+      }
+      if (target && (field.type === 'unknown' || field.type === 'json')) {
+        return { ...field, type: 'reference', references: target.name };
+      }
+      return field;
+    });
+  }
+  
+  for (const model of resolved) {
+    model.relations = model.fields.flatMap(field => {
+      if (!field.references) return [];
+      const target = byKey.get(modelKey(field.references));
+      const back = target?.fields.find(other => other.references && modelKey(other.references) === modelKey(model.name));
+      let kind: DataRelation['kind'] = 'many-to-one';
+      if (field.list) {
+        kind = back?.list ? 'many-to-many' : 'one-to-many';
+      } else if (field.unique || (back && !back.list && !field.primaryKey)) {
+        kind = 'one-to-one';
+      }
+      return [{ field: field.name, target: field.references, kind }];
+    });
+  }
+  
+  return resolved;
+}
+
+// Interfaces and object type aliases; enums and string literal unions become enum values
+function typeScriptModels(code: string, file: string, line: number): DataModel[] {
+  const ast = parseScript('models.ts', code);
+  if (!ast) return [];
+  
+  const enums = new Map<string, string[]>();
+  const declarations: Array<{ name: string; members: t.TSTypeElement[]; node: t.Node }> = [];
+  walk(ast.program, node => {
+    if (node.type === 'TSInterfaceDeclaration') {
+      declarations.push({ name: node.id.name, members: node.body.body, node });
+      return false;
+    }
+    if (node.type === 'TSTypeAliasDeclaration') {
+      if (node.typeAnnotation.type === 'TSTypeLiteral') {
+        declarations.push({ name: node.id.name, members: node.typeAnnotation.members, node });
+      } else {
+        const values = literalUnion(node.typeAnnotation);
+        if (values) enums.set(node.id.name, values);
+      }
+      return false;
+    }
+    if (node.type === 'TSEnumDeclaration') {
+      enums.set(node.id.name, node.members.flatMap(member => {
+        const value = stringValue(member.initializer) ?? propertyKeyName(member.id);
+        return value ? [value] : [];
+      }));
+      return false;
+    }
+    return undefined;
+  });
+  
+  return declarations.map(({ name, members, node }) => ({
+    name,
+    fields: members.flatMap(member => {
+      if (member.type !== 'TSPropertySignature') return [];
+      const fieldName = propertyKeyName(member.key);
+      if (!fieldName) return [];
+      
+      const annotation = member.typeAnnotation?.typeAnnotation;
+      const rawType = annotation ? code.slice(annotation.start ?? 0, annotation.end ?? 0) : 'unknown';
+      let { type: typeNode, nullable } = stripNullable(annotation);
+      let list = false;
+      if (typeNode?.type === 'TSArrayType') {
+        typeNode = typeNode.elementType;
+        list = true;
+      } else if (typeNode?.type === 'TSTypeReference' && typeNode.typeName.type === 'Identifier'
+        && typeNode.typeName.name === 'Array' && typeNode.typeParameters?.params[0]) {
+        typeNode = typeNode.typeParameters.params[0];
+        list = true;
+      }
+      
+      const field: DataField = { name: fieldName, type: 'unknown', rawType, required: !member.optional && !nullable };
+      const values = typeNode ? literalUnion(typeNode) : undefined;
+      if (values) {
+        field.type = 'enum';
+        field.enumValues = values;
+      } else if (typeNode?.type === 'TSTypeReference' && typeNode.typeName.type === 'Identifier') {
+        const enumValues = enums.get(typeNode.typeName.name);
+        if (enumValues) {
+          field.type = 'enum';
+          field.enumValues = enumValues;
+        } else {
+          field.type = scalarType(typeNode.typeName.name);
+        }
+      } else if (typeNode) {
+        field.type = typeNode.type === 'TSTypeLiteral' ? 'json' : scalarType(typeNode.type.replace(/^TS|Keyword$/g, ''));
+      }
+      if (list) field.list = true;
+      const comment = member.leadingComments?.map(c => c.value.replace(/^\*|\*$/g, '').replace(/^\s*\*\s?/gm, '').trim()).join(' ');
+      if (comment) field.description = comment;
+      return [field];
+    }),
+    relations: [],
+    source: { file, line: line + (node.loc?.start.line ?? 1) - 1, format: 'typescript' as const },
+  }));
+}
+
+// A schema with `properties`, or each entry of its `definitions` / `$defs`
+function jsonSchemaModels(content: string, file: string, line: number): DataModel[] {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(content);
+  } catch {
+    return [];
+  }
+  if (!isRecord(schema)) return [];
+  
+  const models: DataModel[] = [];
+  const source: DataModelSource = { file, line, format: 'json-schema' };
+  if (isRecord(schema['properties'])) {
+    const title = typeof schema['title'] === 'string' ? schema['title'] : path.basename(file).replace(/(\.schema)?\.json$/i, '');
+    models.push(jsonSchemaModel(title, schema, source));
+  }
+  for (const key of ['definitions', '$defs']) {
+    const definitions = schema[key];
+    if (!isRecord(definitions)) continue;
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (isRecord(definition) && isRecord(definition['properties'])) {
+        models.push(jsonSchemaModel(name, definition, source));
+      }
+    }
+  }
+  return models;
+}
+
+function jsonSchemaModel(name: string, schema: Record<string, unknown>, source: DataModelSource): DataModel {
+  const required = Array.isArray(schema['required']) ? schema['required'] : [];
+  const properties = isRecord(schema['properties']) ? schema['properties'] : {};
+  const model: DataModel = {
+    name,
+    fields: Object.entries(properties).map(([fieldName, property]) => jsonSchemaField(fieldName, property, required.includes(fieldName))),
+    relations: [],
+    source,
+  };
+  if (typeof schema['description'] === 'string') model.description = schema['description'];
+  return model;
+}
+
+function jsonSchemaField(name: string, property: unknown, required: boolean): DataField {
+  const schema = isRecord(property) ? property : {};
+  const types = (Array.isArray(schema['type']) ? schema['type'] : [schema['type']]).filter((type): type is string => typeof type === 'string');
+  const nullable = types.includes('null');
+  const list = types.includes('array');
+  const element = list && isRecord(schema['items']) ? schema['items'] : schema;
+  const elementType = (Array.isArray(element['type']) ? element['type'] : [element['type']])
+    .find((type): type is string => typeof type === 'string' && type !== 'null' && type !== 'array');
+  const ref = typeof element['$ref'] === 'string' ? element['$ref'].split('/').pop() ?? '' : '';
+  
+  const field: DataField = {
+    name,
+    type: 'unknown',
+    rawType: (ref || `${elementType ?? 'unknown'}${typeof element['format'] === 'string' ? `(${element['format']})` : ''}`) + (list ? '[]' : ''),
+    required: required && !nullable,
+  };
+  if (ref) {
+    field.type = 'reference';
+    field.references = ref;
+  } else if (Array.isArray(element['enum'])) {
+    field.type = 'enum';
+    field.enumValues = element['enum'].map(String);
+  } else if (typeof element['format'] === 'string' && /^date/.test(element['format'])) {
+    field.type = 'date';
+  } else if (elementType) {
+    field.type = scalarType(elementType);
+  }
+  if (list) field.list = true;
+  if (schema['default'] !== undefined) {
+    field.default = typeof schema['default'] === 'string' ? schema['default'] : JSON.stringify(schema['default']);
+  }
+  if (typeof schema['description'] === 'string') field.description = schema['description'];
+  return field;
+}
+
+// `CREATE TABLE` statements: column constraints plus table-level primary and foreign keys
+function sqlModels(content: string, file: string, line: number): DataModel[] {
+  const models: DataModel[] = [];
+  let match: RegExpExecArray | null;
+  CREATE_TABLE.lastIndex = 0;
+  
+  while ((match = CREATE_TABLE.exec(content)) !== null) {
+    const body = balancedBody(content, match.index + match[0].length);
+    if (body === undefined) continue;
+    
+    const fields: DataField[] = [];
+    const byName = (name: string) => fields.find(field => field.name.toLowerCase() === unquote(name).toLowerCase());
+    for (const definition of splitTopLevel(body)) {
+      const primaryKey = definition.match(/^(?:constraint\s+\S+\s+)?primary\s+key\s*\(([^)]+)\)/i);
+      const foreignKey = definition.match(/^(?:constraint\s+\S+\s+)?foreign\s+key\s*\(([^)]+)\)\s*references\s+([`"[\]\w.]+)/i);
+      const unique = definition.match(/^(?:constraint\s+\S+\s+)?unique(?:\s+key)?\s*\(([^)]+)\)/i);
+      if (primaryKey?.[1]) {
+        primaryKey[1].split(',').forEach(name => {
+          const field = byName(name.trim());
+          if (field) Object.assign(field, { primaryKey: true, required: true });
+        });
+      } else if (foreignKey?.[1] && foreignKey[2]) {
+        const field = byName(foreignKey[1].split(',')[0]?.trim() ?? '');
+        if (field) field.references = tableName(foreignKey[2]);
+      } else if (unique?.[1]) {
+        const columns = unique[1].split(',');
+        const field = columns.length === 1 ? byName(columns[0]?.trim() ?? '') : undefined;
+        if (field) field.unique = true;
+      } else if (!/^(constraint|check|index|key|exclude|like)\b/i.test(definition)) {
+        const column = sqlColumn(definition);
+        if (column) fields.push(column);
+      }
+    }
+    
+    models.push({
+      name: tableName(match[1] ?? ''),
+      fields,
+      relations: [],
+      source: { file, line: line + content.slice(0, match.index).split('\n').length - 1, format: 'sql' },
+    });
+  }
+  
+  return models;
+}
+
+function sqlColumn(definition: string): DataField | undefined {
+  const match = definition.match(/^([`"[]?\w+[`"\]]?)\s+(.+)$/s);
+  if (!match?.[1] || !match[2]) return undefined;
+  const rest = match[2];
+  const rawType = rest.match(/^\w+(?:\s+(?:varying|precision|with(?:out)? time zone))?(?:\s*\([^)]*\))?(?:\[\])?/i)?.[0] ?? rest.split(/\s+/)[0] ?? '';
+  
+  const field: DataField = {
+    name: unquote(match[1]),
+    type: scalarType(rawType),
+    rawType,
+    required: /\bnot\s+null\b|\bprimary\s+key\b/i.test(rest),
+  };
+  if (/\bprimary\s+key\b/i.test(rest)) field.primaryKey = true;
+  if (/\bunique\b/i.test(rest)) field.unique = true;
+  if (rawType.endsWith('[]')) field.list = true;
+  const defaultValue = rest.match(/\bdefault\s+('(?:[^']|'')*'|\([^)]*\)|[^\s,]+(?:\(\))?)/i)?.[1];
+  if (defaultValue) field.default = defaultValue;
+  const references = rest.match(/\breferences\s+([`"[\]\w.]+)/i)?.[1];
+  if (references) field.references = tableName(references);
+  const enumValues = rawType.match(/^enum\s*\(([^)]*)\)/i)?.[1];
+  if (enumValues) {
+    field.type = 'enum';
+    field.enumValues = enumValues.split(',').map(value => value.trim().replace(/^'|'$/g, ''));
+  }
+  return field;
+}
+
+// `model` and `type` blocks with their scalar, enum and relation fields
+function prismaModels(content: string, file: string, line: number): DataModel[] {
+  const blocks = [...content.matchAll(PRISMA_BLOCK)];
+  const enums = new Map(blocks
+    .filter(block => block[1] === 'enum')
+    .map(block => [block[2] ?? '', prismaLines(block[3] ?? '').map(text => text.split(/\s+/)[0] ?? '')]));
+  
+  return blocks
+    .filter(block => block[1] !== 'enum')
+    .map(block => ({
+      name: block[2] ?? '',
+      fields: prismaLines(block[3] ?? '').flatMap(text => {
+        const match = text.match(/^(\w+)\s+(\w+)(\[\])?(\?)?\s*(.*)$/);
+        if (!match?.[1] || !match[2]) return [];
+        const attributes = match[5] ?? '';
+        const enumValues = enums.get(match[2]);
+        
+        const field: DataField = {
+          name: match[1],
+          type: enumValues ? 'enum' : scalarType(match[2]),
+          rawType: `${match[2]}${match[3] ?? ''}${match[4] ?? ''}`,
+          required: !match[4],
+        };
+        if (match[3]) field.list = true;
+        if (enumValues) field.enumValues = enumValues;
+        if (/@id\b/.test(attributes)) field.primaryKey = true;
+        if (/@unique\b/.test(attributes)) field.unique = true;
+        const defaultValue = attributes.match(/@default\((.*?)\)(?=\s+@|\s*$)/)?.[1];
+        if (defaultValue) field.default = defaultValue;
+        return [field];
+      }),
+      relations: [],
+      source: { file, line: line + content.slice(0, block.index).split('\n').length - 1, format: 'prisma' as const },
+    }))
+    .map(model => {
+      // `author User @relation(fields: [authorId], ...)` makes authorId a foreign key to User
+      prismaLines(blocks.find(block => block[2] === model.name)?.[3] ?? '').forEach(text => {
+        const relation = text.match(/^\w+\s+(\w+)\??\s.*@relation\([^)]*fields:\s*\[([^\]]+)\]/);
+        relation?.[2]?.split(',').forEach(name => {
+          const field = model.fields.find(candidate => candidate.name === name.trim());
+          if (field && relation[1]) field.references = relation[1];
+        });
+      });
+      return model;
+    });
+}
+
+// Tables with name and type columns under a heading naming the entity; fenced schema blocks
+function markdownModels(file: string, doc: MarkdownDocument): DataModel[] {
+  const models: DataModel[] = [];
+  
+  for (const { token, line, headingPath } of doc.blocks) {
+    if (token.type === 'code') {
+      const code = token as Tokens.Code;
+      const lang = (code.lang ?? '').toLowerCase();
+      const bodyLine = line + 1;
+      if (/^(ts|typescript)$/.test(lang) || (!lang && /\binterface\s+\w+\s*\{/.test(code.text))) {
+        models.push(...typeScriptModels(code.text, file, bodyLine));
+      } else if (/^(sql|postgres(ql)?|mysql|sqlite)$/.test(lang) || (!lang && /create\s+table/i.test(code.text))) {
+        models.push(...sqlModels(code.text, file, bodyLine));
+      } else if (lang === 'prisma') {
+        models.push(...prismaModels(code.text, file, bodyLine));
+      } else if (/^(json|jsonc)$/.test(lang)) {
+        models.push(...jsonSchemaModels(code.text, file, bodyLine));
+      }
+      continue;
+    }
+    
+    if (token.type !== 'table') continue;
+    const table = token as Tokens.Table;
+    const name = (headingPath[headingPath.length - 1] ?? '')
+      .replace(/\s+(model|entity|table|schema|fields|attributes)$/i, '')
+      .trim();
+    const model = name ? fieldTableModel(name, table, file, line) : undefined;
+    if (model) models.push(model);
+  }
+  
+  return models;
+}
+
+function fieldTableModel(name: string, table: Tokens.Table, file: string, line: number): DataModel | undefined {
+  const headers = table.header.map(cell => inlineText(cell.tokens).trim().toLowerCase());
+  const column = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const nameColumn = column(/^(field|column|attribute|property|name)s?( name)?$/);
+  const typeColumn = column(/^(data\s*)?type$/);
+  if (nameColumn === -1 || typeColumn === -1) return undefined;
+  const requiredColumn = column(/^(required|mandatory)/);
+  const nullableColumn = column(/^(nullable|optional|null)/);
+  const descriptionColumn = column(/description|details|notes|comment/);
+  const constraintColumn = column(/constraint|key|index|default|notes/);
+  
+  const fields = table.rows.flatMap(row => {
+    const cell = (index: number) => index >= 0 ? inlineText(row[index]?.tokens).trim() : '';
+    const fieldName = cell(nameColumn).replace(/\?$/, '');
+    if (!fieldName) return [];
+    const rawType = cell(typeColumn);
+    const notes = `${rawType} ${cell(constraintColumn)} ${cell(descriptionColumn)}`;
+    
+    const list = /\[\]$|^(array|list) of\b/i.test(rawType);
+    const base = rawType.replace(/\[\]$|^(array|list) of\s+/gi, '').replace(/\s*\(.*\)$/, '').trim();
+    const yes = (text: string) => /^(yes|y|true|required|✓|✔|✅|x)$/i.test(text);
+    let required = !/\?$/.test(cell(nameColumn)) && !/optional|nullable/i.test(notes);
+    if (requiredColumn >= 0) required = yes(cell(requiredColumn));
+    if (nullableColumn >= 0) required = !yes(cell(nullableColumn));
+    
+    const field: DataField = { name: fieldName, type: scalarType(base), rawType, required };
+    if (list) field.list = true;
+    if (/\bpk\b|primary key/i.test(notes)) {
+      field.primaryKey = true;
+      field.required = true;
+    }
+    if (/\bunique\b/i.test(notes)) field.unique = true;
+    const enumValues = rawType.match(/^enum\s*[(:]\s*(.+?)\)?$/i)?.[1] ?? (/\|/.test(rawType) ? rawType : undefined);
+    if (enumValues) {
+      field.type = 'enum';
+      field.enumValues = enumValues.split(/[|,]/).map(value => value.trim().replace(/^['"`]|['"`]$/g, '')).filter(Boolean);
+    }
+    const references = notes.match(/(?:\bfk\b|references?|→|->)\s*(?:to\s+)?`?([A-Za-z_]\w*)/i)?.[1];
+    if (references) field.references = references;
+    const description = cell(descriptionColumn);
+    if (description) field.description = description;
+    return [field];
+  });
+  
+  return fields.length > 0 ? { name, fields, relations: [], source: { file, line, format: 'markdown' } } : undefined;
+}
+
+function scalarType(raw: string): DataFieldType {
+  const base = raw.toLowerCase().replace(/\s*\(.*$/, '').replace(/\[\]$/, '').trim();
+  return SCALAR_TYPES.find(([pattern]) => pattern.test(base))?.[1] ?? 'unknown';
+}
+
+function literalUnion(node: t.TSType): string[] | undefined {
+  const members = node.type === 'TSUnionType' ? node.types : [node];
+  const values = members.flatMap(member => {
+    if (member.type !== 'TSLiteralType') return [];
+    const value = stringValue(member.literal);
+    return value === undefined ? [] : [value];
+  });
+  return values.length > 0 && values.length === members.length ? values : undefined;
+}
+
+// `T | null | undefined` is an optional T
+function stripNullable(node: t.TSType | undefined): { type: t.TSType | undefined; nullable: boolean } {
+  if (node?.type !== 'TSUnionType') return { type: node, nullable: false };
+  const types = node.types.filter(type => type.type !== 'TSNullKeyword' && type.type !== 'TSUndefinedKeyword');
+  const nullable = types.length < node.types.length;
+  return { type: types.length === 1 ? types[0] : { ...node, types }, nullable };
+}
+
+function prismaLines(body: string): string[] {
+  return body.split('\n')
+    .map(text => text.replace(/\/\/.*$/, '').trim())
+    .filter(text => text && !text.startsWith('@@'));
+}
+
+// Contents of the parentheses opened just before `start`
+function balancedBody(content: string, start: number): string | undefined {
+  let depth = 1;
+  for (let index = start; index < content.length; index++) {
+    if (content[index] === '(') depth += 1;
+    if (content[index] === ')') depth -= 1;
+    if (depth === 0) return content.slice(start, index);
+  }
+  return undefined;
+}
+
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body.replace(/--.*$/gm, '')) {
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+function tableName(name: string): string {
+  return unquote(name.split('.').pop() ?? name);
+}
+
+function unquote(name: string): string {
+  return name.replace(/^[`"[]|[`"\]]$/g, '');
+}
+
+function baseTypeName(rawType: string): string {
+  return rawType.replace(/^Array<(.+)>$/, '$1').replace(/(\[\]|\?)+$/, '').replace(/\s*\|\s*(null|undefined)/g, '').trim();
+}
+
+// `users`, `User` and `user_accounts` / `UserAccount` name the same entity
+function modelKey(name: string): string {
+  return singularize(name.toLowerCase().replace(/[_\s-]/g, ''));
+}
+
+// `users`, `categories`, `addresses`, `boxes` and `statuses` lose their plural; `address`,
+// `status`, `analysis`, `news` and `bus` are already singular
+export function singularize(name: string): string {
+  if (/(?:ss|us|is|news)$/i.test(name)) return name;
+  if (/ies$/i.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(?:ss|x|z|ch|sh)es$/i.test(name)) return name.slice(0, -2);
+  if (/uses$/i.test(name)) return name.slice(0, -2);
+  return name.replace(/([^s])s$/i, '$1');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
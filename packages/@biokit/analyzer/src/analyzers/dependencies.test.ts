@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createInventory } from '../inventory';
+import { analyzeDependencies } from './dependencies';
+
+function pnpmInventory(lockfile: string) {
+  const files: Record<string, string> = {
+    'package.json': JSON.stringify({ dependencies: { 'react': '^18.0.0', 'react-dom': '^18.0.0', '@scope/ui': '^2.0.0' } }),
+    'pnpm-lock.yaml': lockfile,
+  };
+  return createInventory(
+    '/nonexistent',
+    Object.keys(files).map(file => ({ path: file, type: 'other' as const, language: 'unknown', size: 0 })),
+    async file => files[file] ?? ''
+  );
+}
+
+async function lockedPackages(lockfile: string) {
+  const analysis = await analyzeDependencies(pnpmInventory(lockfile));
+  return {
+    count: analysis?.packageCount,
+    direct: analysis?.directCount,
+    duplicates: analysis?.duplicates.map(duplicate => [duplicate.name, duplicate.versions]),
+  };
+}
+
+describe('pnpm lockfiles', () => {
+  it('parses v5 keys, with and without peer suffixes', async () => {
+    const result = await lockedPackages([
+      'lockfileVersion: 5.4',
+      'packages:',
+      '  /react/18.2.0:',
+      '    resolution: {integrity: sha512-a}',
+      '  /react/17.0.2:',
+      '    resolution: {integrity: sha512-b}',
+      '  /react-dom/18.2.0_react@18.2.0:',
+      '    resolution: {integrity: sha512-c}',
+      '  /@scope/ui/2.1.0_react-dom@18.2.0+react@18.2.0:',
+      '    resolution: {integrity: sha512-d}',
+    ].join('\n'));
+    
+    expect(result.count).toBe(3);
+    expect(result.direct).toBe(3);
+    expect(result.duplicates).toEqual([['react', ['17.0.2', '18.2.0']]]);
+  });
+  
+  it('parses v6 keys, with and without peer suffixes', async () => {
+    const result = await lockedPackages([
+      "lockfileVersion: '6.0'",
+      'packages:',
+      '  /react@18.2.0:',
+      '    resolution: {integrity: sha512-a}',
+      '  /react@17.0.2:',
+      '    resolution: {integrity: sha512-b}',
+      '  /react-dom@18.2.0(react@18.2.0):',
+      '    resolution: {integrity: sha512-c}',
+      '  /@scope/ui@2.1.0(react-dom@18.2.0)(react@18.2.0):',
+      '    resolution: {integrity: sha512-d}',
+    ].join('\n'));
+    
+    expect(result.count).toBe(3);
+    expect(result.direct).toBe(3);
+    expect(result.duplicates).toEqual([['react', ['17.0.2', '18.2.0']]]);
+  });
+  
+  it('parses v9 keys', async () => {
+    const result = await lockedPackages([
+      "lockfileVersion: '9.0'",
+      'packages:',
+      '  react@18.2.0:',
+      '    resolution: {integrity: sha512-a}',
+      '  react@17.0.2:',
+      '    resolution: {integrity: sha512-b}',
+      '  react-dom@18.2.0:',
+      '    resolution: {integrity: sha512-c}',
+      "  '@scope/ui@2.1.0':",
+      '    resolution: {integrity: sha512-d}',
+    ].join('\n'));
+    
+    expect(result.count).toBe(3);
+    expect(result.direct).toBe(3);
+    expect(result.duplicates).toEqual([['react', ['17.0.2', '18.2.0']]]);
+  });
+});
@@ -0,0 +1,468 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import semver from 'semver';
+import type { FileInventory } from '../inventory';
+import type {
+  DependencyAnalysis,
+  LicenseCategory,
+  VulnerableDependency,
+} from '../types';
+
+interface LockedPackage {
+  name: string;
+  version: string;
+  license?: string;
+  deprecated?: string;
+}
+
+interface Lockfile {
+  file: string;
+  packageManager: DependencyAnalysis['packageManager'];
+  packages: LockedPackage[];
+}
+
+interface Advisory {
+  id: string;
+  package: string;
+  vulnerableVersions: string;
+  severity: VulnerableDependency['severity'];
+  title: string;
+  url?: string;
+}
+
+export interface AdvisoryDatabase {
+  file: string;
+  advisories: Advisory[];
+  // Latest published version per package, for the outdated check
+  latest: Record<string, string>;
+  deprecated: Record<string, string>;
+}
+
+export interface DependencyOptions {
+  // Where the lockfile lives; a workspace package shares the root's
+  lockfileInventory?: FileInventory;
+  advisories?: AdvisoryDatabase | null;
+}
+
+// Deprecated on npm, but lockfiles other than pnpm's don't record it
+const KNOWN_DEPRECATED: Record<string, string> = {
+  'request': 'Use fetch, undici or axios',
+  'request-promise': 'Use fetch, undici or axios',
+  'node-sass': 'Use sass (Dart Sass)',
+  'tslint': 'Use ESLint with typescript-eslint',
+  'babel-eslint': 'Use @babel/eslint-parser',
+  '@material-ui/core': 'Renamed to @mui/material',
+  'querystring': 'Use URLSearchParams',
+  'left-pad': 'Use String.prototype.padStart',
+};
+
+const LICENSE_PATTERNS: Array<[LicenseCategory, RegExp]> = [
+  ['strong-copyleft', /^(A?GPL|SSPL|EUPL|OSL|CC-BY-SA)/i],
+  ['weak-copyleft', /^(LGPL|MPL|EPL|CDDL|CPL|MS-RL)/i],
+  ['permissive', /^(MIT|ISC|BSD|Apache|0BSD|Unlicense|CC0|Zlib|BlueOak|Python|PSF|WTFPL|CC-BY-\d|Artistic|BSL|X11)/i],
+];
+
+const LICENSE_RANK: Record<LicenseCategory, number> = {
+  'permissive': 0,
+  'weak-copyleft': 1,
+  'strong-copyleft': 2,
+  'unknown': 3,
+};
+
+const SEVERITIES: VulnerableDependency['severity'][] = ['low', 'moderate', 'high', 'critical'];
+
+export async function analyzeDependencies(
+  inventory: FileInventory,
+  options: DependencyOptions = {}
+): Promise<DependencyAnalysis | null> {
+  const lockfileInventory = options.lockfileInventory ?? inventory;
+  const lockfile = await readLockfile(lockfileInventory);
+  if (!lockfile) {
+    return null;
+  }
+  
+  const packageJson = await inventory.readJson<{
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  }>('package.json').catch(() => null);
+  const declared: Record<string, string> = {
+    ...packageJson?.devDependencies,
+    ...packageJson?.dependencies,
+  };
+  
+  // Group every locked copy by package name
+  const versions = new Map<string, LockedPackage[]>();
+  for (const pkg of lockfile.packages) {
+    const copies = versions.get(pkg.name) ?? [];
+    if (!copies.some(copy => copy.version === pkg.version)) {
+      copies.push(pkg);
+    }
+    versions.set(pkg.name, copies);
+  }
+  
+  // The copy a direct dependency resolves to is the newest one its range accepts
+  const direct = new Map<string, string>();
+  Object.entries(declared).forEach(([name, range]) => {
+    const locked = (versions.get(name) ?? []).map(copy => copy.version);
+    const resolved = semver.maxSatisfying(locked, range) ?? semver.maxSatisfying(locked, '*');
+    if (resolved) direct.set(name, resolved);
+  });
+  
+  await fillLicensesFromDisk(lockfileInventory, lockfile.packages);
+  
+  const advisories = options.advisories ?? null;
+  const analysis: DependencyAnalysis = {
+    lockfile: lockfile.file,
+    packageManager: lockfile.packageManager,
+    packageCount: versions.size,
+    directCount: direct.size,
+    outdated: findOutdated(direct, advisories),
+    duplicates: [...versions.entries()]
+      .filter(([, copies]) => copies.length > 1)
+      .map(([name, copies]) => ({
+        name,
+        versions: copies.map(copy => copy.version).sort(semver.compareLoose),
+        direct: direct.has(name),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    deprecated: findDeprecated(lockfile.packages, advisories),
+    ...summarizeLicenses(lockfile.packages),
+    vulnerabilities: advisories ? findVulnerabilities(lockfile.packages, direct, advisories) : [],
+  };
+  if (advisories) {
+    analysis.advisoryDb = advisories.file;
+  }
+  
+  return analysis;
+}
+
+// A JSON file with `advisories`, `latest` and `deprecated`, or npm's bulk advisory format
+export async function loadAdvisoryDatabase(file: string): Promise<AdvisoryDatabase> {
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read advisory database ${file}: ${message}`);
+  }
+  
+  const database: AdvisoryDatabase = { file, advisories: [], latest: {}, deprecated: {} };
+  if (!raw || typeof raw !== 'object') {
+    return database;
+  }
+  
+  const data = raw as Record<string, unknown>;
+  if (Array.isArray(data['advisories'])) {
+    database.advisories = data['advisories'].flatMap(entry => toAdvisory(entry, undefined));
+    database.latest = stringRecord(data['latest']);
+    database.deprecated = stringRecord(data['deprecated']);
+  } else {
+    // npm bulk advisory response: { "<package>": [{ id, title, severity, vulnerable_versions, url }] }
+    database.advisories = Object.entries(data).flatMap(([name, entries]) =>
+      Array.isArray(entries) ? entries.flatMap(entry => toAdvisory(entry, name)) : []
+    );
+  }
+  
+  return database;
+}
+
+async function readLockfile(inventory: FileInventory): Promise<Lockfile | null> {
+  if (inventory.has('pnpm-lock.yaml')) {
+    return {
+      file: 'pnpm-lock.yaml',
+      packageManager: 'pnpm',
+      packages: parsePnpmLock(await inventory.read('pnpm-lock.yaml')),
+    };
+  }
+  if (inventory.has('yarn.lock')) {
+    return {
+      file: 'yarn.lock',
+      packageManager: 'yarn',
+      packages: parseYarnLock(await inventory.read('yarn.lock')),
+    };
+  }
+  if (inventory.has('package-lock.json')) {
+    return {
+      file: 'package-lock.json',
+      packageManager: 'npm',
+      packages: parsePackageLock(await inventory.read('package-lock.json')),
+    };
+  }
+  return null;
+}
+
+function parsePackageLock(content: string): LockedPackage[] {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, { version?: string; license?: string; link?: boolean; deprecated?: string }>;
+    dependencies?: Record<string, NpmV1Dependency>;
+  };
+  
+  // lockfileVersion 2 and 3: flat map of install paths
+  if (lock.packages) {
+    return Object.entries(lock.packages).flatMap(([installPath, entry]) => {
+      const index = installPath.lastIndexOf('node_modules/');
+      if (index === -1 || entry.link || !entry.version) return [];
+      
+      const pkg: LockedPackage = { name: installPath.slice(index + 'node_modules/'.length), version: entry.version };
+      if (entry.license) pkg.license = entry.license;
+      if (entry.deprecated) pkg.deprecated = entry.deprecated;
+      return [pkg];
+    });
+  }
+  
+  // lockfileVersion 1: nested dependency tree
+  const packages: LockedPackage[] = [];
+  const visit = (dependencies: Record<string, NpmV1Dependency> | undefined) => {
+    Object.entries(dependencies ?? {}).forEach(([name, entry]) => {
+      if (entry.version && semver.valid(entry.version)) {
+        packages.push({ name, version: entry.version });
+      }
+      visit(entry.dependencies);
+    });
+  };
+  visit(lock.dependencies);
+  return packages;
+}
+
+interface NpmV1Dependency {
+  version?: string;
+  dependencies?: Record<string, NpmV1Dependency>;
+}
+
+// Handles both the classic (v1) and Berry (v2+) formats
+function parseYarnLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  let names: string[] = [];
+  
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    
+    if (!line.startsWith(' ')) {
+      // `"@babel/core@^7.0.0", "@babel/core@^7.1.0":` or `"@babel/core@npm:^7.0.0":`
+      names = line
+        .replace(/:$/, '')
+        .split(',')
+        .map(spec => specName(spec.trim().replace(/^"|"$/g, '')))
+        .filter((name): name is string => !!name);
+      continue;
+    }
+    
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/)?.[1];
+    const name = names[0];
+    if (version && name && semver.valid(version)) {
+      packages.push({ name, version });
+      names = [];
+    }
+  }
+  
+  return packages;
+}
+
+function parsePnpmLock(content: string): LockedPackage[] {
+  const lock = yaml.load(content) as {
+    packages?: Record<string, { version?: string; deprecated?: string }>;
+  } | null;
+  
+  return Object.entries(lock?.packages ?? {}).flatMap(([key, entry]) => {
+    // `/name/1.2.3_peer@x` (v5), `/name@1.2.3(peer@x)` (v6) or `name@1.2.3` (v9); v5 comes
+    // first, as its peer suffix holds an `@` too
+    const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+    const v5 = id.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/_]+)(?:_.*)?$/);
+    const at = id.lastIndexOf('@');
+    const [name, version] = v5
+      ? [v5[1], v5[2]]
+      : at > 0 ? [id.slice(0, at), id.slice(at + 1)] : [];
+    
+    const resolved = entry.version ?? version;
+    if (!name || !resolved || !semver.valid(resolved)) return [];
+    
+    const pkg: LockedPackage = { name, version: resolved };
+    if (entry.deprecated) pkg.deprecated = entry.deprecated;
+    return [pkg];
+  });
+}
+
+// `@scope/name@^1.0.0` or `name@npm:^1.0.0` -> package name; workspaces and patches are skipped
+function specName(spec: string): string | undefined {
+  if (spec.startsWith('__metadata') || /@(workspace|link|portal|file|patch):/.test(spec)) {
+    return undefined;
+  }
+  const at = spec.indexOf('@', 1);
+  return at === -1 ? spec : spec.slice(0, at);
+}
+
+// Only package-lock records licenses; read the rest from an installed node_modules
+async function fillLicensesFromDisk(inventory: FileInventory, packages: LockedPackage[]): Promise<void> {
+  const modules = path.join(inventory.root, 'node_modules');
+  if (!(await fs.pathExists(modules))) {
+    return;
+  }
+  
+  for (const pkg of packages) {
+    if (pkg.license) continue;
+    
+    const manifest = await fs
+      .readJson(path.join(modules, pkg.name, 'package.json'))
+      .catch(() => null) as { version?: string; license?: unknown } | null;
+    if (manifest?.version === pkg.version && typeof manifest.license === 'string') {
+      pkg.license = manifest.license;
+    }
+  }
+}
+
+function findOutdated(
+  direct: Map<string, string>,
+  advisories: AdvisoryDatabase | null
+): DependencyAnalysis['outdated'] {
+  if (!advisories) {
+    return [];
+  }
+  
+  return [...direct.entries()].flatMap(([name, current]) => {
+    const latest = advisories.latest[name];
+    if (!latest || !semver.valid(latest)) return [];
+    
+    const majorsBehind = semver.major(latest) - semver.major(current);
+    return majorsBehind > 0 ? [{ name, current, latest, majorsBehind }] : [];
+  }).sort((a, b) => b.majorsBehind - a.majorsBehind || a.name.localeCompare(b.name));
+}
+
+function findDeprecated(
+  packages: LockedPackage[],
+  advisories: AdvisoryDatabase | null
+): DependencyAnalysis['deprecated'] {
+  const known = { ...KNOWN_DEPRECATED, ...advisories?.deprecated };
+  const seen = new Set<string>();
+  
+  return packages.flatMap(pkg => {
+    const message = pkg.deprecated ?? known[pkg.name];
+    const id = `${pkg.name}@${pkg.version}`;
+    if (!message || seen.has(id)) return [];
+    
+    seen.add(id);
+    return [{ name: pkg.name, version: pkg.version, message }];
+  });
+}
+
+function summarizeLicenses(
+  packages: LockedPackage[]
+): Pick<DependencyAnalysis, 'licenses' | 'licenseFindings'> {
+  const licenses: Record<LicenseCategory, number> = {
+    'permissive': 0,
+    'weak-copyleft': 0,
+    'strong-copyleft': 0,
+    'unknown': 0,
+  };
+  const licenseFindings: DependencyAnalysis['licenseFindings'] = [];
+  const seen = new Set<string>();
+  
+  for (const pkg of packages) {
+    const id = `${pkg.name}@${pkg.version}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    
+    const category = pkg.license ? licenseCategory(pkg.license) : 'unknown';
+    licenses[category] += 1;
+    
+    // Missing data is not a finding; an unrecognized or copyleft license is
+    if (pkg.license && category !== 'permissive') {
+      licenseFindings.push({ name: pkg.name, version: pkg.version, license: pkg.license, category });
+    }
+  }
+  
+  return { licenses, licenseFindings };
+}
+
+// SPDX expressions: OR lets you pick the friendliest option, AND binds you to all of them
+function licenseCategory(license: string): LicenseCategory {
+  const expression = license.replace(/[()]/g, '').trim();
+  
+  if (/\s+OR\s+/i.test(expression)) {
+    return expression.split(/\s+OR\s+/i).map(licenseCategory)
+      .reduce((best, category) => (LICENSE_RANK[category] < LICENSE_RANK[best] ? category : best));
+  }
+  if (/\s+AND\s+/i.test(expression)) {
+    return expression.split(/\s+AND\s+/i).map(licenseCategory)
+      .reduce((worst, category) => (LICENSE_RANK[category] > LICENSE_RANK[worst] ? category : worst));
+  }
+  
+  return LICENSE_PATTERNS.find(([, pattern]) => pattern.test(expression))?.[0] ?? 'unknown';
+}
+
+function findVulnerabilities(
+  packages: LockedPackage[],
+  direct: Map<string, string>,
+  database: AdvisoryDatabase
+): VulnerableDependency[] {
+  const byPackage = new Map<string, Advisory[]>();
+  database.advisories.forEach(advisory => {
+    byPackage.set(advisory.package, [...(byPackage.get(advisory.package) ?? []), advisory]);
+  });
+  
+  const findings: VulnerableDependency[] = [];
+  const seen = new Set<string>();
+  
+  for (const pkg of packages) {
+    for (const advisory of byPackage.get(pkg.name) ?? []) {
+      const id = `${advisory.id}:${pkg.name}@${pkg.version}`;
+      if (seen.has(id) || !semver.satisfies(pkg.version, advisory.vulnerableVersions, { loose: true })) {
+        continue;
+      }
+      seen.add(id);
+      
+      const finding: VulnerableDependency = {
+        name: pkg.name,
+        version: pkg.version,
+        id: advisory.id,
+        severity: advisory.severity,
+        title: advisory.title,
+        vulnerableVersions: advisory.vulnerableVersions,
+        direct: direct.get(pkg.name) === pkg.version,
+      };
+      if (advisory.url) finding.url = advisory.url;
+      findings.push(finding);
+    }
+  }
+  
+  return findings.sort((a, b) =>
+    SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity) || a.name.localeCompare(b.name)
+  );
+}
+
+function toAdvisory(entry: unknown, packageName: string | undefined): Advisory[] {
+  if (!entry || typeof entry !== 'object') {
+    return [];
+  }
+  
+  const data = entry as Record<string, unknown>;
+  const name = packageName ?? data['package'] ?? data['name'];
+  const range = data['vulnerableVersions'] ?? data['vulnerable_versions'] ?? data['range'];
+  if (typeof name !== 'string' || typeof range !== 'string' || !semver.validRange(range, { loose: true })) {
+    return [];
+  }
+  
+  const severity = String(data['severity'] ?? 'moderate').toLowerCase();
+  const advisory: Advisory = {
+    id: String(data['id'] ?? data['source'] ?? `${name}@${range}`),
+    package: name,
+    vulnerableVersions: range,
+    severity: severity === 'medium'
+      ? 'moderate'
+      : SEVERITIES.find(level => level === severity) ?? 'moderate',
+    title: typeof data['title'] === 'string' ? data['title'] : `Vulnerable ${name} ${range}`,
+  };
+  if (typeof data['url'] === 'string') {
+    advisory.url = data['url'];
+  }
+  return [advisory];
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
@@ -0,0 +1,295 @@
+import type * as t from '@babel/types';
+import { getAst, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type {
+  CodeQuality,
+  DesignSystemLibraryUsage,
+  DesignSystemUsage,
+  ImportGraph,
+} from '../types';
+import { UI_LIBRARIES } from './imports';
+
+export interface ComponentMappings {
+  imports: Record<string, string>;
+  components: Record<string, string>;
+  props: Record<string, string>;
+}
+
+interface Binding {
+  library: string;
+  // Component name for named/default imports; undefined for namespaces (`<MUI.Button>`)
+  component?: string;
+}
+
+const CUSTOM = 'custom';
+const TAILWIND = 'tailwindcss';
+
+// A className token that only makes sense as a Tailwind utility
+const TAILWIND_CLASS = /^(?:[\w-]+:)*!?-?(?:(?:p|m)[xytrbl]?|w|h|min-w|min-h|max-w|max-h|gap|space-[xy]|text|bg|border|rounded|shadow|items|justify|grid-cols|col-span|font|leading|tracking|z|inset|top|left|right|bottom|opacity|ring)-[\w./[\]#%-]+$|^(?:flex|grid|hidden|block|inline-flex|truncate|sr-only)$/;
+
+// Count JSX usages per UI library, the repo's own components and Tailwind-styled elements
+export async function analyzeDesignSystemUsage(
+  inventory: FileInventory,
+  imports: ImportGraph
+): Promise<DesignSystemUsage> {
+  const packageJson = await inventory
+    .readJson<{ dependencies?: Record<string, string>; devDependencies?: Record<string, string> }>('package.json')
+    .catch(() => null);
+  const usesTailwind = !!(packageJson?.dependencies?.[TAILWIND] ?? packageJson?.devDependencies?.[TAILWIND]);
+  
+  // library -> component -> files using it and usage count
+  const counts = new Map<string, Map<string, { usages: number; files: Set<string> }>>();
+  const record = (library: string, component: string, file: string) => {
+    const components = counts.get(library) ?? new Map<string, { usages: number; files: Set<string> }>();
+    const entry = components.get(component) ?? { usages: 0, files: new Set<string>() };
+    entry.usages += 1;
+    entry.files.add(file);
+    components.set(component, entry);
+    counts.set(library, components);
+  };
+  
+  for (const module of imports.modules) {
+    if (!/\.[cm]?[jt]sx?$/.test(module.file)) continue;
+    const ast = await getAst(inventory, module.file);
+    if (!ast) continue;
+    
+    const bindings = importBindings(ast, module.imports);
+    if (bindings.size === 0 && !usesTailwind) continue;
+    
+    walk(ast.program, node => {
+      if (node.type !== 'JSXOpeningElement') return;
+      
+      const [root, ...members] = jsxNameParts(node.name);
+      const binding = root ? bindings.get(root) : undefined;
+      if (binding) {
+        const component = binding.component
+          ? [binding.component, ...members].join('.')
+          : members.join('.');
+        if (component) record(binding.library, component, module.file);
+      }
+      
+      if (usesTailwind && hasTailwindClasses(node)) {
+        record(TAILWIND, 'className', module.file);
+      }
+    });
+  }
+  
+  const libraries: DesignSystemLibraryUsage[] = [...counts.entries()].map(([library, components]) => {
+    const system = librarySystem(library);
+    const mappings = getComponentMappings(library === CUSTOM ? 'custom' : system);
+    const details = [...components.entries()]
+      .map(([name, entry]) => ({
+        name,
+        usages: entry.usages,
+        files: entry.files.size,
+        autoMigratable: system !== 'biokit' && library !== TAILWIND && isMapped(mappings, name),
+      }))
+      .sort((a, b) => b.usages - a.usages || a.name.localeCompare(b.name));
+    
+    return {
+      library,
+      system,
+      usages: details.reduce((sum, component) => sum + component.usages, 0),
+      files: new Set([...components.values()].flatMap(entry => [...entry.files])).size,
+      components: library === TAILWIND ? [] : details,
+    };
+  }).sort((a, b) => b.usages - a.usages);
+  
+  // Utility classes aren't components, so they only count towards mixing systems
+  const componentLibraries = libraries.filter(library => library.library !== TAILWIND);
+  const totalUsages = componentLibraries.reduce((sum, library) => sum + library.usages, 0);
+  const biokitUsages = componentLibraries
+    .filter(library => library.system === 'biokit')
+    .reduce((sum, library) => sum + library.usages, 0);
+  
+  const toMigrate = componentLibraries.filter(library => library.system !== 'biokit').flatMap(library => library.components);
+  const autoMigratable = toMigrate.filter(component => component.autoMigratable).reduce((sum, c) => sum + c.usages, 0);
+  const manual = toMigrate.filter(component => !component.autoMigratable).reduce((sum, c) => sum + c.usages, 0);
+  
+  const systems = new Set(libraries.filter(library => library.library !== CUSTOM).map(library => library.system));
+  
+  return {
+    libraries,
+    mixed: systems.size > 1,
+    totalUsages,
+    biokitUsages,
+    biokitPercentage: totalUsages > 0 ? Math.round((biokitUsages / totalUsages) * 1000) / 10 : 0,
+    migration: { autoMigratable, manual },
+  };
+}
+
+// Map common UI library components to biokit equivalents
+export function getComponentMappings(currentDesignSystem: string): ComponentMappings {
+  const mappings: ComponentMappings = {
+    imports: {},
+    components: {},
+    props: {},
+  };
+  
+  switch (currentDesignSystem) {
+    case 'material-ui':
+      mappings.imports = {
+        '@mui/material/Button': 'biokit-design-system/Button',
+        '@mui/material/TextField': 'biokit-design-system/Input',
+        '@mui/material/Card': 'biokit-design-system/Card',
+        '@mui/material/Typography': 'biokit-design-system/Text',
+        '@mui/material/Box': 'biokit-design-system/Box',
+        '@mui/material/Grid': 'biokit-design-system/Grid',
+        '@mui/material/Dialog': 'biokit-design-system/Modal',
+        '@mui/material/AppBar': 'biokit-design-system/Header',
+      };
+      mappings.components = {
+        'Button': 'Button',
+        'TextField': 'Input',
+        'Card': 'Card',
+        'Typography': 'Text',
+        'Box': 'Box',
+        'Grid': 'Grid',
+        'Dialog': 'Modal',
+        'AppBar': 'Header',
+      };
+      mappings.props = {
+        'variant': 'variant',
+        'color': 'color',
+        'fullWidth': 'fullWidth',
+        'onClick': 'onClick',
+        'sx': 'className',
+      };
+      break;
+    
+    case 'ant-design':
+      mappings.imports = {
+        'antd/es/button': 'biokit-design-system/Button',
+        'antd/es/input': 'biokit-design-system/Input',
+        'antd/es/card': 'biokit-design-system/Card',
+        'antd/es/typography': 'biokit-design-system/Text',
+        'antd/es/layout': 'biokit-design-system/Layout',
+        'antd/es/modal': 'biokit-design-system/Modal',
+      };
+      mappings.components = {
+        'Button': 'Button',
+        'Input': 'Input',
+        'Card': 'Card',
+        'Typography.Text': 'Text',
+        'Typography.Title': 'Heading',
+        'Layout': 'Layout',
+        'Modal': 'Modal',
+      };
+      mappings.props = {
+        'type': 'variant',
+        'size': 'size',
+        'loading': 'isLoading',
+        'danger': 'destructive',
+      };
+      break;
+    
+    case 'chakra':
+      mappings.imports = {
+        '@chakra-ui/react': 'biokit-design-system',
+      };
+      mappings.components = {
+        'Button': 'Button',
+        'Input': 'Input',
+        'Box': 'Box',
+        'Text': 'Text',
+        'Heading': 'Heading',
+        'Card': 'Card',
+        'Modal': 'Modal',
+        'Stack': 'Stack',
+        'Flex': 'Flex',
+      };
+      mappings.props = {
+        'colorScheme': 'color',
+        'isLoading': 'isLoading',
+        'isDisabled': 'disabled',
+      };
+      break;
+    
+    default:
+      // Generic mappings for custom or unknown systems
+      mappings.imports = {
+        './components/Button': 'biokit-design-system/Button',
+        './components/Input': 'biokit-design-system/Input',
+        './components/Card': 'biokit-design-system/Card',
+      };
+  }
+  
+  return mappings;
+}
+
+function isMapped(mappings: ComponentMappings, component: string): boolean {
+  return component in mappings.components
+    || Object.keys(mappings.imports).some(specifier => specifier.endsWith(`/${component}`));
+}
+
+function librarySystem(library: string): CodeQuality['designSystem'] {
+  if (library === 'biokit-design-system' || library === '@biokit/design-system') return 'biokit';
+  if (library.startsWith('@mui/') || library.startsWith('@material-ui/')) return 'material-ui';
+  if (library === 'antd') return 'ant-design';
+  if (library.startsWith('@chakra-ui/')) return 'chakra';
+  if (library === TAILWIND) return 'tailwind';
+  return 'other';
+}
+
+// Local names bound to UI library exports or to the repo's own modules
+function importBindings(ast: t.File, moduleImports: ImportGraph['modules'][number]['imports']): Map<string, Binding> {
+  const bindings = new Map<string, Binding>();
+  
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ImportDeclaration' || statement.importKind === 'type') continue;
+    
+    const entry = moduleImports.find(imported => imported.specifier === statement.source.value);
+    const library = entry?.kind === 'package' && entry.packageName && isUiLibrary(entry.packageName)
+      ? entry.packageName
+      : entry?.kind === 'relative' || entry?.kind === 'alias' ? CUSTOM : undefined;
+    if (!library) continue;
+    
+    for (const specifier of statement.specifiers) {
+      const local = specifier.local.name;
+      if (specifier.type === 'ImportNamespaceSpecifier') {
+        bindings.set(local, { library });
+      } else if (specifier.type === 'ImportDefaultSpecifier') {
+        // `import Button from '@mui/material/Button'` names the component in the path
+        const fromPath = statement.source.value.split('/').pop();
+        const component = library !== CUSTOM && fromPath && /^[A-Z]/.test(fromPath) ? fromPath : local;
+        if (/^[A-Z]/.test(component)) bindings.set(local, { library, component });
+      } else if (specifier.importKind !== 'type') {
+        const imported = specifier.imported.type === 'Identifier' ? specifier.imported.name : specifier.imported.value;
+        if (/^[A-Z]/.test(imported)) bindings.set(local, { library, component: imported });
+      }
+    }
+  }
+  
+  return bindings;
+}
+
+function isUiLibrary(packageName: string): boolean {
+  return UI_LIBRARIES.includes(packageName) || packageName.startsWith('@radix-ui/');
+}
+
+function jsxNameParts(name: t.JSXOpeningElement['name']): string[] {
+  if (name.type === 'JSXIdentifier') return [name.name];
+  if (name.type === 'JSXNamespacedName') return [];
+  
+  const parts: string[] = [];
+  let current: t.JSXMemberExpression | t.JSXIdentifier = name;
+  while (current.type === 'JSXMemberExpression') {
+    parts.unshift(current.property.name);
+    current = current.object;
+  }
+  parts.unshift(current.name);
+  return parts;
+}
+
+function hasTailwindClasses(opening: t.JSXOpeningElement): boolean {
+  const className = opening.attributes.find((attr): attr is t.JSXAttribute =>
+    attr.type === 'JSXAttribute' && attr.name.type === 'JSXIdentifier' && attr.name.name === 'className'
+  );
+  const value = className?.value;
+  const text = value?.type === 'StringLiteral'
+    ? value.value
+    : value?.type === 'JSXExpressionContainer' && value.expression.type === 'TemplateLiteral'
+      ? value.expression.quasis.map(quasi => quasi.value.raw).join(' ')
+      : '';
+  return text.split(/\s+/).some(token => TAILWIND_CLASS.test(token));
+}
@@ -1,37 +1,37 @@
-import { globby } from 'globby';
-import fs from 'fs-extra';
-import path from 'path';
+import crypto from 'crypto';
+import type * as t from '@babel/types';
+import { getAst, isFunctionNode, propertyKeyName, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { Gap, SourceRange } from '../types';
+import { assignEnvNames, envReferences, scanHardcodedValues, toHardcodedGap } from './secrets';
+import type { HardcodedMatch } from './secrets';
 
-export interface Gap {
-  type: 'todo' | 'stub' | 'mock' | 'placeholder' | 'incomplete';
-  file: string;
-  line?: number;
-  description: string;
-  priority?: 'high' | 'medium' | 'low';
-}
-
-export async function detectGaps(repoPath: string): Promise<Gap[]> {
+export async function detectGaps(inventory: FileInventory): Promise<Gap[]> {
   const gaps: Gap[] = [];
+  const sources = new Map<string, string[]>();
   
   // Find all code files
-  const codeFiles = await globby([
+  const codeFiles = inventory.paths([
     '**/*.{js,jsx,ts,tsx}',
     '**/*.{py,java,go}',
-  ], {
-    cwd: repoPath,
-    ignore: ['node_modules/**', 'dist/**', 'build/**', '**/*.test.*', '**/*.spec.*'],
-  });
+  ], ['**/*.test.*', '**/*.spec.*']);
+  const hardcoded: HardcodedMatch[] = [];
+  const envNames = new Set<string>();
   
   for (const file of codeFiles) {
-    const filePath = path.join(repoPath, file);
-    const content = await fs.readFile(filePath, 'utf-8');
+    const content = await inventory.read(file);
     const lines = content.split('\n');
+    sources.set(file, lines);
+    const ast = /\.[cm]?[jt]sx?$/.test(file) ? await getAst(inventory, file) : null;
+    const parents = ast ? parentMap(ast) : null;
     
     // Find TODOs
     gaps.push(...findTODOs(file, lines));
     
     // Find stub functions
-    gaps.push(...findStubFunctions(file, lines));
+    if (ast && parents) {
+      gaps.push(...findStubFunctions(file, ast, parents));
+    }
     
     // Find mock data
     gaps.push(...findMockData(file, lines));
@@ -39,11 +39,49 @@ export async function detectGaps(repoPath: string): Promise<Gap[]> {
     // Find placeholders
     gaps.push(...findPlaceholders(file, lines));
     
+    // Find components that render nothing but placeholder text
+    if (ast && parents) {
+      gaps.push(...findPlaceholderComponents(file, ast, parents));
+    }
+    
     // Find incomplete implementations
-    gaps.push(...findIncompleteImplementations(file, lines));
+    gaps.push(...findIncompleteImplementations(file, lines, ast, parents));
+    
+    // Find hardcoded secrets and configuration values
+    hardcoded.push(...scanHardcodedValues(file, content, ast));
+    if (ast) envReferences(ast).forEach(name => envNames.add(name));
   }
   
-  return gaps;
+  // Name variables across files so a repeated value maps to one variable
+  gaps.push(...assignEnvNames(hardcoded, envNames).map(toHardcodedGap));
+  
+  const reported = gaps.filter(gap => !isSuppressed(gap, sources.get(gap.file) ?? []));
+  return fingerprintGaps(reported, sources);
+}
+
+// `// biokit-ignore-next-line` hides every gap on the next line; `// biokit-ignore-next-line mock todo` only those types
+function isSuppressed(gap: Gap, lines: string[]): boolean {
+  if (!gap.line || gap.line < 2) return false;
+  const directive = lines[gap.line - 2]?.match(/biokit-ignore-next-line\b([\w\s,-]*)/);
+  if (!directive) return false;
+  
+  const types = (directive[1] ?? '').split(/[\s,]+/).filter(Boolean);
+  return types.length === 0 || types.includes(gap.type);
+}
+
+// Hash what the gap is and the code it points at, not where it is, so baselines survive edits elsewhere
+function fingerprintGaps(gaps: Gap[], sources: Map<string, string[]>): Gap[] {
+  const seen = new Map<string, number>();
+  return gaps.map(gap => {
+    const code = gap.line ? sources.get(gap.file)?.[gap.line - 1]?.trim() ?? '' : '';
+    const key = [gap.type, gap.file, gap.functionName ?? '', gap.description, code].join('\0');
+    const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+    
+    // Identical gaps in one file (two `const mockUsers` lines) are told apart by order
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+    return { ...gap, fingerprint: occurrence === 1 ? hash : `${hash}:${occurrence}` };
+  });
 }
 
 function findTODOs(file: string, lines: string[]): Gap[] {
@@ -66,33 +104,19 @@ function findTODOs(file: string, lines: string[]): Gap[] {
   return gaps;
 }
 
-function findStubFunctions(file: string, lines: string[]): Gap[] {
+// Functions with nothing in them, or nothing but a "not implemented" throw
+function findStubFunctions(file: string, ast: t.File, parents: ParentMap): Gap[] {
   const gaps: Gap[] = [];
-  const stubPatterns = [
-    /function\s+\w+\s*\([^)]*\)\s*{\s*}/,
-    /const\s+\w+\s*=\s*\([^)]*\)\s*=>\s*{\s*}/,
-    /\w+\s*\([^)]*\)\s*{\s*throw\s+new\s+Error\(['"]Not implemented/,
-    /return\s+null\s*;?\s*}\s*$/,
-    /return\s+undefined\s*;?\s*}\s*$/,
-    /console\.(log|warn|error)\(['"]Not implemented/,
-  ];
   
-  const codeBlock = lines.join('\n');
-  
-  stubPatterns.forEach(pattern => {
-    if (pattern.test(codeBlock)) {
-      // Find the specific line
-      lines.forEach((line, index) => {
-        if (pattern.test(line)) {
-          gaps.push({
-            type: 'stub',
-            file,
-            line: index + 1,
-            description: 'Empty or stub function implementation',
-            priority: 'high',
-          });
-        }
-      });
+  walk(ast.program, node => {
+    if (!isFunctionNode(node) || node.body.type !== 'BlockStatement') return;
+    const body = node.body;
+    const name = functionName(node, parents);
+    
+    if (body.body.length === 0 && !body.innerComments?.length && !isIntentionalNoop(node, parents)) {
+      gaps.push(syntaxGap('stub', file, node, `${name ?? 'Anonymous function'} has an empty body`, 'high', name));
+    } else if (body.body.length === 1 && isNotImplementedThrow(body.body[0])) {
+      gaps.push(syntaxGap('stub', file, node, `${name ?? 'Anonymous function'} only throws "not implemented"`, 'high', name));
     }
   });
   
@@ -158,7 +182,12 @@ function findPlaceholders(file: string, lines: string[]): Gap[] {
   return gaps;
 }
 
-function findIncompleteImplementations(file: string, lines: string[]): Gap[] {
+function findIncompleteImplementations(
+  file: string,
+  lines: string[],
+  ast: t.File | null,
+  parents: ParentMap | null
+): Gap[] {
   const gaps: Gap[] = [];
   
   // Look for patterns indicating incomplete work
@@ -167,10 +196,6 @@ function findIncompleteImplementations(file: string, lines: string[]): Gap[] {
       pattern: /^\s*\/\/\s*\.\.\./,
       description: 'Ellipsis comment indicating more code needed',
     },
-    {
-      pattern: /throw\s+new\s+Error\(['"]Not yet implemented/i,
-      description: 'Not yet implemented error',
-    },
     {
       pattern: /alert\(['"]Not implemented/i,
       description: 'Alert indicating missing implementation',
@@ -183,10 +208,6 @@ function findIncompleteImplementations(file: string, lines: string[]): Gap[] {
       pattern: /return\s+Promise\.resolve\(\)/,
       description: 'Empty promise resolution',
     },
-    {
-      pattern: /catch\s*\([^)]*\)\s*{\s*}/,
-      description: 'Empty catch block',
-    },
   ];
   
   lines.forEach((line, index) => {
@@ -203,15 +224,262 @@ function findIncompleteImplementations(file: string, lines: string[]): Gap[] {
     });
   });
   
-  // Check for files that are too short (likely incomplete)
-  if (lines.length < 10 && !file.includes('index')) {
-    gaps.push({
-      type: 'incomplete',
-      file,
-      description: 'File seems incomplete (very short)',
-      priority: 'medium',
+  if (!ast || !parents) {
+    return gaps;
+  }
+  
+  // Swallowed errors
+  walk(ast.program, node => {
+    if (node.type !== 'CatchClause' || node.body.body.length > 0 || node.body.innerComments?.length) return;
+    const name = enclosingFunctionName(node, parents);
+    const where = name ? ` in ${name}` : '';
+    gaps.push(syntaxGap('incomplete', file, node, `Empty catch block${where} swallows errors`, 'high', name));
+  });
+  
+  // Exported handlers that ignore their input
+  for (const { name, fn } of exportedHandlers(file, ast)) {
+    const used = referencedNames(fn.body);
+    fn.params.forEach((param, index) => {
+      // Read-only methods often have no use for the request itself
+      if (index === 0 && READ_ONLY_METHODS.has(name)) return;
+      
+      for (const unused of boundNames(param).filter(bound => !bound.startsWith('_') && !used.has(bound))) {
+        gaps.push(syntaxGap('incomplete', file, fn, `Handler ${name} never uses its ${unused} parameter`, 'medium', name));
+      }
     });
   }
   
   return gaps;
-}
\ No newline at end of file
+}
+
+// Components whose whole output is filler or their own name, e.g. <h1>Settings</h1>
+function findPlaceholderComponents(file: string, ast: t.File, parents: ParentMap): Gap[] {
+  const gaps: Gap[] = [];
+  
+  walk(ast.program, node => {
+    if (!isFunctionNode(node)) return;
+    const name = functionName(node, parents);
+    if (!name || !/^[A-Z]/.test(name)) return;
+    
+    const rendered = node.body.type === 'BlockStatement'
+      ? node.body.body.length === 1 && node.body.body[0]?.type === 'ReturnStatement' ? node.body.body[0].argument : null
+      : node.body;
+    const jsx = rendered?.type === 'ParenthesizedExpression' ? rendered.expression : rendered;
+    if (!jsx || (jsx.type !== 'JSXElement' && jsx.type !== 'JSXFragment')) return;
+    
+    const texts = staticJsxText(jsx);
+    if (texts && texts.length > 0 && texts.every(text => isPlaceholderText(text, name))) {
+      gaps.push(syntaxGap('placeholder', file, node, `${name} renders only placeholder text ("${texts.join(' ')}")`, 'medium', name));
+    }
+  });
+  
+  return gaps;
+}
+
+type ParentMap = Map<t.Node, t.Node | null>;
+
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const NOT_IMPLEMENTED = /not\s+(?:yet\s+)?implemented|unimplemented|\btodo\b/i;
+const PLACEHOLDER_TEXT = /lorem\s+ipsum|coming\s+soon|under\s+construction|work\s+in\s+progress|\bWIP\b|\bTODO\b|\bTBD\b|placeholder|^(?:text|content|hello,?\s+world!?)$/i;
+
+function parentMap(ast: t.File): ParentMap {
+  const parents: ParentMap = new Map();
+  walk(ast.program, (node, parent) => {
+    parents.set(node, parent);
+  });
+  return parents;
+}
+
+function syntaxGap(
+  type: Gap['type'],
+  file: string,
+  node: t.Node,
+  description: string,
+  priority: Gap['priority'],
+  name: string | undefined
+): Gap {
+  const gap: Gap = { type, file, line: node.loc?.start.line ?? 0, description };
+  if (priority) {
+    gap.priority = priority;
+  }
+  const range = rangeOf(node);
+  if (range) {
+    gap.range = range;
+  }
+  if (name) {
+    gap.functionName = name;
+  }
+  return gap;
+}
+
+function rangeOf(node: t.Node): SourceRange | undefined {
+  if (!node.loc) return undefined;
+  return {
+    start: { line: node.loc.start.line, column: node.loc.start.column },
+    end: { line: node.loc.end.line, column: node.loc.end.column },
+  };
+}
+
+// The name a function is declared or bound under
+function functionName(fn: t.Function, parents: ParentMap): string | undefined {
+  if ('id' in fn && fn.id) return fn.id.name;
+  if (fn.type === 'ObjectMethod' || fn.type === 'ClassMethod') return propertyKeyName(fn.key);
+  
+  const parent = parents.get(fn);
+  if (!parent) return undefined;
+  if (parent.type === 'VariableDeclarator' && parent.id.type === 'Identifier') return parent.id.name;
+  if (parent.type === 'ObjectProperty' || parent.type === 'ClassProperty') return propertyKeyName(parent.key);
+  if (parent.type === 'AssignmentExpression' && parent.left.type === 'MemberExpression') {
+    return propertyKeyName(parent.left.property);
+  }
+  if (parent.type === 'ExportDefaultDeclaration') return 'default';
+  
+  // React.memo(function …), forwardRef((props, ref) => …)
+  if (parent.type === 'CallExpression') {
+    const declarator = parents.get(parent);
+    if (declarator?.type === 'VariableDeclarator' && declarator.id.type === 'Identifier') return declarator.id.name;
+  }
+  return undefined;
+}
+
+function enclosingFunctionName(node: t.Node, parents: ParentMap): string | undefined {
+  for (let current = parents.get(node); current; current = parents.get(current)) {
+    if (isFunctionNode(current)) return functionName(current, parents);
+  }
+  return undefined;
+}
+
+// Callbacks like `onClick={() => {}}` or `.catch(() => {})` are meant to do nothing
+function isIntentionalNoop(fn: t.Function, parents: ParentMap): boolean {
+  const parent = parents.get(fn);
+  if (!parent) return false;
+  if (parent.type === 'CallExpression' || parent.type === 'NewExpression') return parent.callee !== fn;
+  if (parent.type === 'JSXExpressionContainer' || parent.type === 'AssignmentPattern') return true;
+  if (fn.type === 'ObjectMethod') return isDefaultsObject(parent, parents);
+  if (parent.type === 'ObjectProperty' && parent.value === fn) return isDefaultsObject(parents.get(parent), parents);
+  
+  // Constructors that only declare parameter properties
+  if (fn.type === 'ClassMethod' && fn.kind === 'constructor') {
+    return fn.params.some(param => param.type === 'TSParameterProperty');
+  }
+  
+  const name = functionName(fn, parents);
+  return !!name && /^(?:noop|_+)$/i.test(name);
+}
+
+// Objects of defaults, passed as an argument or used as a default value, e.g.
+// `createContext({ toggle: () => {} })` or `{ handlers = { onChange: () => {} } }`
+function isDefaultsObject(node: t.Node | null | undefined, parents: ParentMap): boolean {
+  while (node?.type === 'ObjectExpression') {
+    const parent = parents.get(node);
+    if (parent?.type === 'CallExpression' || parent?.type === 'NewExpression') return parent.callee !== node;
+    if (parent?.type === 'AssignmentPattern') return parent.right === node;
+    if (parent?.type !== 'ObjectProperty') return false;
+    node = parents.get(parent);
+  }
+  return false;
+}
+
+function isNotImplementedThrow(statement: t.Statement | undefined): boolean {
+  if (statement?.type !== 'ThrowStatement') return false;
+  const error = statement.argument;
+  if (error.type !== 'NewExpression' && error.type !== 'CallExpression') return false;
+  const [message] = error.arguments;
+  const text = message?.type === 'StringLiteral'
+    ? message.value
+    : message?.type === 'TemplateLiteral' ? message.quasis.map(quasi => quasi.value.raw).join('') : '';
+  return NOT_IMPLEMENTED.test(text);
+}
+
+// Route handlers: HTTP method exports, `handler`/`handleX` exports, and default exports under an api/ folder
+function exportedHandlers(file: string, ast: t.File): Array<{ name: string; fn: t.Function }> {
+  const handlers: Array<{ name: string; fn: t.Function }> = [];
+  const isApiFile = /(?:^|\/)api\//.test(file);
+  const isHandlerName = (name: string) => HTTP_METHODS.has(name) || /^handler$|^handle[A-Z]|Handler$/.test(name);
+  
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ExportDefaultDeclaration' && isFunctionNode(statement.declaration)) {
+      const name = 'id' in statement.declaration && statement.declaration.id ? statement.declaration.id.name : 'default';
+      if (isApiFile || isHandlerName(name)) handlers.push({ name, fn: statement.declaration });
+    }
+    
+    if (statement.type !== 'ExportNamedDeclaration' || !statement.declaration) continue;
+    const declaration = statement.declaration;
+    if (declaration.type === 'FunctionDeclaration' && declaration.id && isHandlerName(declaration.id.name)) {
+      handlers.push({ name: declaration.id.name, fn: declaration });
+    } else if (declaration.type === 'VariableDeclaration') {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type !== 'Identifier' || !declarator.init || !isFunctionNode(declarator.init)) continue;
+        if (isHandlerName(declarator.id.name)) handlers.push({ name: declarator.id.name, fn: declarator.init });
+      }
+    }
+  }
+  
+  return handlers;
+}
+
+// Names a parameter binds: `req`, `{ params }`, `{ params: { id } }`, `...rest`
+function boundNames(param: t.Node): string[] {
+  switch (param.type) {
+    case 'Identifier':
+      return [param.name];
+    case 'AssignmentPattern':
+      return boundNames(param.left);
+    case 'RestElement':
+      return boundNames(param.argument);
+    case 'ObjectPattern':
+      return param.properties.flatMap(property =>
+        property.type === 'RestElement' ? boundNames(property) : boundNames(property.value)
+      );
+    case 'ArrayPattern':
+      return param.elements.flatMap(element => (element ? boundNames(element) : []));
+    default:
+      return [];
+  }
+}
+
+// Identifiers read anywhere in a function body
+function referencedNames(body: t.Node): Set<string> {
+  const names = new Set<string>();
+  walk(body, (node, parent) => {
+    if (node.type !== 'Identifier') return;
+    const isPropertyName = (parent?.type === 'MemberExpression' || parent?.type === 'OptionalMemberExpression')
+      && parent.property === node && !parent.computed;
+    const isKey = parent?.type === 'ObjectProperty' && parent.key === node && !parent.computed && !parent.shorthand;
+    if (!isPropertyName && !isKey) names.add(node.name);
+  });
+  return names;
+}
+
+// Text of a JSX tree made only of HTML elements and literal text; undefined if anything is dynamic
+function staticJsxText(node: t.Node): string[] | undefined {
+  const texts: string[] = [];
+  let isStatic = true;
+  walk(node, child => {
+    if (!isStatic) return false;
+    if (child.type === 'JSXOpeningElement') {
+      const isIntrinsic = child.name.type === 'JSXIdentifier' && /^[a-z]/.test(child.name.name);
+      if (!isIntrinsic || child.attributes.some(attr => attr.type === 'JSXSpreadAttribute')) isStatic = false;
+      // Attribute values (className, href) aren't rendered text
+      return false;
+    }
+    if (child.type === 'JSXExpressionContainer' && child.expression.type !== 'JSXEmptyExpression') {
+      isStatic = false;
+    } else if (child.type === 'JSXText' && child.value.trim()) {
+      texts.push(child.value.trim().replace(/\s+/g, ' '));
+    }
+    return undefined;
+  });
+  return isStatic ? texts : undefined;
+}
+
+// Filler text, or the component's own name: "Settings" in SettingsPage
+function isPlaceholderText(text: string, componentName: string): boolean {
+  if (PLACEHOLDER_TEXT.test(text)) return true;
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const name = normalize(componentName);
+  const bare = normalize(componentName.replace(/(?:Page|Component|View|Screen|Section)$/, ''));
+  const words = normalize(text.replace(/\b(?:page|component|view|screen|section)\b/gi, ''));
+  return normalize(text) === name || (!!bare && words === bare);
+}
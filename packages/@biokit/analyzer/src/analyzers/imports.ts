@@ -0,0 +1,515 @@
+import { builtinModules } from 'module';
+import path from 'path';
+import micromatch from 'micromatch';
+import type * as t from '@babel/types';
+import { getAst, lineOf, parseScript, propertyKeyName, SCRIPT_PATTERN, stringValue, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { ImportGraph, ModuleImport, ModuleInfo, UiLibraryUsage } from '../types';
+
+// Component libraries whose usage is tracked per file
+export const UI_LIBRARIES = [
+  '@mui/material',
+  '@mui/lab',
+  '@mui/joy',
+  '@material-ui/core',
+  '@material-ui/lab',
+  'antd',
+  '@chakra-ui/react',
+  'react-bootstrap',
+  'reactstrap',
+  'semantic-ui-react',
+  '@mantine/core',
+  '@headlessui/react',
+  'primereact',
+  '@blueprintjs/core',
+  '@nextui-org/react',
+  'biokit-design-system',
+  '@biokit/design-system',
+];
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json', '.vue', '.svelte'];
+const SFC_PATTERN = '**/*.{vue,svelte}';
+
+// Files that are loaded by a framework, runner or tool rather than imported
+const ENTRY_PATTERNS = [
+  '**/*.{test,spec}.*',
+  '**/__tests__/**',
+  '**/{test,tests,e2e,cypress}/**',
+  '**/*.stories.*',
+  '**/*.config.*',
+  '**/.*rc.*',
+  '**/*.d.ts',
+  '**/pages/**',
+  '**/app/**/{page,layout,template,loading,error,global-error,not-found,default,route}.*',
+  '**/{middleware,instrumentation}.*',
+  '{src/,}{index,main,server,app}.*',
+  '**/{scripts,bin}/**',
+];
+
+interface PathAlias {
+  pattern: string;
+  targets: string[];
+  base: string;
+}
+
+interface ResolverConfig {
+  dir: string;
+  baseUrl?: string;
+  aliases: PathAlias[];
+}
+
+interface RawImport {
+  specifier: string;
+  names: string[];
+  typeOnly: boolean;
+  line: number;
+}
+
+export async function buildImportGraph(
+  inventory: FileInventory,
+  entryPoints: string[] = []
+): Promise<ImportGraph> {
+  const configs = await loadResolverConfigs(inventory);
+  const files = inventory.paths([SCRIPT_PATTERN, SFC_PATTERN], ['**/*.d.ts']);
+  
+  const modules = new Map<string, ModuleInfo>();
+  await Promise.all(files.map(async file => {
+    const imports = (await collectImports(inventory, file)).map(raw =>
+      resolveImport(inventory, configs, file, raw)
+    );
+    modules.set(file, { file, imports, importedBy: [], fanIn: 0, fanOut: 0 });
+  }));
+  
+  // Wire up reverse edges
+  for (const module of modules.values()) {
+    const targets = new Set(module.imports.flatMap(entry => entry.resolved ?? []));
+    module.fanOut = targets.size;
+    for (const target of targets) {
+      modules.get(target)?.importedBy.push(module.file);
+    }
+  }
+  for (const module of modules.values()) {
+    module.importedBy.sort();
+    module.fanIn = module.importedBy.length;
+  }
+  
+  const sorted = [...modules.values()].sort((a, b) => a.file.localeCompare(b.file));
+  const entries = new Set([...entryPoints, ...(await packageEntryPoints(inventory))]);
+  
+  return {
+    modules: sorted,
+    unusedFiles: sorted
+      .filter(module => module.fanIn === 0 && !entries.has(module.file))
+      .filter(module => !micromatch.isMatch(module.file, ENTRY_PATTERNS, { dot: true }))
+      .map(module => module.file),
+    cycles: findCycles(sorted),
+    uiLibraries: sorted.flatMap(findUiLibraryUsage),
+  };
+}
+
+// Every file that depends on the given ones, directly or through other modules
+export function transitiveDependents(graph: ImportGraph, files: string[]): string[] {
+  const byFile = new Map(graph.modules.map(module => [module.file, module]));
+  const seen = new Set<string>();
+  const queue = [...files];
+  
+  for (let file = queue.shift(); file !== undefined; file = queue.shift()) {
+    for (const dependent of byFile.get(file)?.importedBy ?? []) {
+      if (!seen.has(dependent) && !files.includes(dependent)) {
+        seen.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+  
+  return [...seen].sort();
+}
+
+// Order files so that each comes after the local modules it imports
+export function dependencyOrder(graph: ImportGraph, files: string[]): string[] {
+  const byFile = new Map(graph.modules.map(module => [module.file, module]));
+  const wanted = new Set(files);
+  const visited = new Set<string>();
+  const ordered: string[] = [];
+  
+  const visit = (file: string) => {
+    if (visited.has(file)) return;
+    visited.add(file);
+    for (const entry of byFile.get(file)?.imports ?? []) {
+      if (entry.resolved) visit(entry.resolved);
+    }
+    if (wanted.has(file)) ordered.push(file);
+  };
+  
+  [...files].sort().forEach(visit);
+  return ordered;
+}
+
+async function collectImports(inventory: FileInventory, file: string): Promise<RawImport[]> {
+  let ast: t.File | null;
+  if (micromatch.isMatch(file, SFC_PATTERN)) {
+    const code = await inventory.read(file).catch(() => '');
+    const script = scriptBlocks(code);
+    ast = parseScript(/<script[^>]*lang=["']ts["']/.test(code) ? `${file}.ts` : `${file}.js`, script);
+  } else {
+    ast = await getAst(inventory, file);
+  }
+  if (!ast) return [];
+  
+  const imports: RawImport[] = [];
+  
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ImportDeclaration') {
+      const names = statement.specifiers.map(specifier => {
+        if (specifier.type === 'ImportDefaultSpecifier') return 'default';
+        if (specifier.type === 'ImportNamespaceSpecifier') return '*';
+        return propertyKeyName(specifier.imported) ?? 'default';
+      });
+      const typeOnly = statement.importKind === 'type'
+        || (statement.specifiers.length > 0 && statement.specifiers.every(specifier =>
+          specifier.type === 'ImportSpecifier' && specifier.importKind === 'type'
+        ));
+      imports.push({ specifier: statement.source.value, names, typeOnly, line: lineOf(statement) });
+    } else if (statement.type === 'ExportNamedDeclaration' && statement.source) {
+      const names = statement.specifiers.map(specifier =>
+        specifier.type === 'ExportSpecifier' ? propertyKeyName(specifier.local) ?? '*' : '*'
+      );
+      imports.push({
+        specifier: statement.source.value,
+        names,
+        typeOnly: statement.exportKind === 'type',
+        line: lineOf(statement),
+      });
+    } else if (statement.type === 'ExportAllDeclaration') {
+      imports.push({
+        specifier: statement.source.value,
+        names: ['*'],
+        typeOnly: statement.exportKind === 'type',
+        line: lineOf(statement),
+      });
+    }
+  }
+  
+  // import('./x') and require('./x')
+  walk(ast.program, node => {
+    if (node.type !== 'CallExpression') return;
+    const isDynamic = node.callee.type === 'Import'
+      || (node.callee.type === 'Identifier' && node.callee.name === 'require');
+    const specifier = isDynamic ? stringValue(node.arguments[0]) : undefined;
+    if (specifier) {
+      imports.push({ specifier, names: ['*'], typeOnly: false, line: lineOf(node) });
+    }
+  });
+  
+  return imports;
+}
+
+// Keep only <script> contents of a single-file component, preserving line numbers
+function scriptBlocks(code: string): string {
+  let result = '';
+  let last = 0;
+  
+  for (const match of code.matchAll(/(<script\b[^>]*>)([\s\S]*?)<\/script>/g)) {
+    const start = (match.index ?? 0) + (match[1]?.length ?? 0);
+    result += code.slice(last, start).replace(/[^\n]/g, '') + match[2];
+    last = start + (match[2]?.length ?? 0);
+  }
+  
+  return result;
+}
+
+function resolveImport(
+  inventory: FileInventory,
+  configs: ResolverConfig[],
+  file: string,
+  raw: RawImport
+): ModuleImport {
+  const { specifier } = raw;
+  const result = (kind: ModuleImport['kind'], extra: Partial<ModuleImport> = {}): ModuleImport => ({
+    specifier,
+    kind,
+    ...extra,
+    names: raw.names,
+    typeOnly: raw.typeOnly,
+    line: raw.line,
+  });
+  
+  if (specifier.startsWith('.') || specifier.startsWith('/')) {
+    const resolved = resolveFile(inventory, path.posix.join(path.posix.dirname(file), specifier));
+    return resolved ? result('relative', { resolved }) : result('unresolved');
+  }
+  
+  const config = nearestConfig(configs, file);
+  if (config) {
+    for (const alias of config.aliases) {
+      const wildcard = matchAlias(alias.pattern, specifier);
+      if (wildcard === undefined) continue;
+      for (const target of alias.targets) {
+        const resolved = resolveFile(inventory, path.posix.join(alias.base, target.replace('*', wildcard)));
+        if (resolved) return result('alias', { resolved });
+      }
+    }
+    if (config.baseUrl !== undefined) {
+      const resolved = resolveFile(inventory, path.posix.join(config.baseUrl, specifier));
+      if (resolved) return result('alias', { resolved });
+    }
+  }
+  
+  const packageName = specifier.startsWith('@')
+    ? specifier.split('/').slice(0, 2).join('/')
+    : specifier.split('/')[0] ?? specifier;
+  
+  if (specifier.startsWith('node:') || builtinModules.includes(packageName)) {
+    return result('builtin', { packageName: packageName.replace(/^node:/, '') });
+  }
+  
+  return result('package', { packageName });
+}
+
+function resolveFile(inventory: FileInventory, candidate: string): string | undefined {
+  const base = path.posix.normalize(candidate).replace(/^\/+/, '');
+  if (base.startsWith('..')) return undefined;
+  if (inventory.has(base)) return base;
+  
+  // TypeScript ESM code imports './foo.js' for foo.ts
+  const withoutJs = base.replace(/\.[cm]?jsx?$/, '');
+  for (const stem of new Set([base, withoutJs])) {
+    for (const extension of RESOLVE_EXTENSIONS) {
+      if (inventory.has(`${stem}${extension}`)) return `${stem}${extension}`;
+    }
+  }
+  for (const extension of RESOLVE_EXTENSIONS) {
+    if (inventory.has(`${base}/index${extension}`)) return `${base}/index${extension}`;
+  }
+  
+  return undefined;
+}
+
+function matchAlias(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === specifier ? '' : undefined;
+  
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return undefined;
+  if (specifier.length < prefix.length + suffix.length) return undefined;
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+function aliasPrefixLength(pattern: string): number {
+  const star = pattern.indexOf('*');
+  return star === -1 ? Number.MAX_SAFE_INTEGER : star;
+}
+
+function nearestConfig(configs: ResolverConfig[], file: string): ResolverConfig | undefined {
+  return configs.find(config => config.dir === '' || file.startsWith(`${config.dir}/`));
+}
+
+// tsconfig/jsconfig files, deepest first so the nearest one wins
+async function loadResolverConfigs(inventory: FileInventory): Promise<ResolverConfig[]> {
+  const files = inventory.paths('**/{tsconfig,jsconfig}.json')
+    .sort((a, b) => b.split('/').length - a.split('/').length || b.localeCompare(a));
+  
+  const configs: ResolverConfig[] = [];
+  for (const file of files) {
+    const dir = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+    if (configs.some(config => config.dir === dir)) continue;
+    
+    const options = await readCompilerOptions(inventory, file, new Set());
+    const config: ResolverConfig = { dir, aliases: [] };
+    if (options.baseUrl !== undefined) {
+      config.baseUrl = options.baseUrl;
+    }
+    for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+      config.aliases.push({ pattern, targets, base: options.pathsBase ?? dir });
+    }
+    // Exact patterns first, then longest prefix, as TypeScript does
+    config.aliases.sort((a, b) => aliasPrefixLength(b.pattern) - aliasPrefixLength(a.pattern));
+    configs.push(config);
+  }
+  
+  return configs;
+}
+
+interface CompilerPaths {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  pathsBase?: string;
+}
+
+async function readCompilerOptions(
+  inventory: FileInventory,
+  file: string,
+  seen: Set<string>
+): Promise<CompilerPaths> {
+  if (seen.has(file) || !inventory.has(file)) return {};
+  seen.add(file);
+  
+  let json: { extends?: unknown; compilerOptions?: { baseUrl?: unknown; paths?: unknown } };
+  try {
+    json = parseJsonc(await inventory.read(file));
+  } catch {
+    return {};
+  }
+  
+  const dir = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+  const extendsList = Array.isArray(json.extends) ? json.extends : [json.extends];
+  
+  // Only relative extends can be followed; package presets live in node_modules
+  let inherited: CompilerPaths = {};
+  for (const parent of extendsList) {
+    if (typeof parent !== 'string' || !parent.startsWith('.')) continue;
+    const parentFile = path.posix.join(dir, parent.endsWith('.json') ? parent : `${parent}.json`);
+    inherited = { ...inherited, ...(await readCompilerOptions(inventory, parentFile, seen)) };
+  }
+  
+  const options = json.compilerOptions ?? {};
+  const result: CompilerPaths = { ...inherited };
+  if (typeof options.baseUrl === 'string') {
+    result.baseUrl = path.posix.join(dir, options.baseUrl).replace(/^\.$/, '');
+  }
+  if (options.paths && typeof options.paths === 'object') {
+    result.paths = options.paths as Record<string, string[]>;
+    result.pathsBase = result.baseUrl ?? dir;
+  }
+  return result;
+}
+
+// tsconfig allows comments and trailing commas
+function parseJsonc<T>(text: string): T {
+  let output = '';
+  let inString = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+    
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && next === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      output += char;
+    }
+  }
+  
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+async function packageEntryPoints(inventory: FileInventory): Promise<string[]> {
+  const packageFiles = inventory.paths('**/package.json');
+  const entries = await Promise.all(packageFiles.map(async file => {
+    const pkg = await inventory.readJson<Record<string, unknown>>(file).catch(() => null);
+    if (!pkg) return [];
+    
+    const dir = path.posix.dirname(file);
+    const targets = [pkg['main'], pkg['module'], pkg['source'], pkg['bin'], pkg['exports']]
+      .flatMap(collectStrings);
+    return targets.flatMap(target => resolveFile(inventory, path.posix.join(dir, target)) ?? []);
+  }));
+  
+  return entries.flat();
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+}
+
+// Strongly connected components of runtime imports (type-only imports can't cycle at runtime)
+function findCycles(modules: ModuleInfo[]): string[][] {
+  const edges = new Map(modules.map(module => [
+    module.file,
+    [...new Set(module.imports.filter(entry => !entry.typeOnly).flatMap(entry => entry.resolved ?? []))],
+  ]));
+  
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+  
+  const connect = (file: string) => {
+    index.set(file, counter);
+    lowLink.set(file, counter);
+    counter++;
+    stack.push(file);
+    onStack.add(file);
+    
+    for (const target of edges.get(file) ?? []) {
+      if (!index.has(target)) {
+        connect(target);
+        lowLink.set(file, Math.min(lowLink.get(file) ?? 0, lowLink.get(target) ?? 0));
+      } else if (onStack.has(target)) {
+        lowLink.set(file, Math.min(lowLink.get(file) ?? 0, index.get(target) ?? 0));
+      }
+    }
+    
+    if (lowLink.get(file) === index.get(file)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== file);
+      
+      const selfImport = edges.get(file)?.includes(file);
+      if (component.length > 1 || selfImport) {
+        cycles.push(component.sort());
+      }
+    }
+  };
+  
+  for (const module of modules) {
+    if (!index.has(module.file)) connect(module.file);
+  }
+  
+  return cycles.sort((a, b) => (a[0] ?? '').localeCompare(b[0] ?? ''));
+}
+
+function findUiLibraryUsage(module: ModuleInfo): UiLibraryUsage[] {
+  const usage = new Map<string, Set<string>>();
+  
+  for (const entry of module.imports) {
+    if (entry.kind !== 'package' || !entry.packageName) continue;
+    if (!UI_LIBRARIES.includes(entry.packageName) && !entry.packageName.startsWith('@radix-ui/')) continue;
+    
+    const components = usage.get(entry.packageName) ?? new Set<string>();
+    usage.set(entry.packageName, components);
+    
+    for (const name of entry.names) {
+      // `import Button from '@mui/material/Button'` names the component in the path
+      const component = name === 'default'
+        ? entry.specifier.slice(entry.packageName.length + 1).split('/').pop()
+        : name;
+      if (component && /^[A-Z]/.test(component)) {
+        components.add(component);
+      }
+    }
+  }
+  
+  return [...usage].map(([library, components]) => ({
+    file: module.file,
+    library,
+    components: [...components].sort(),
+  }));
+}
@@ -0,0 +1,120 @@
+import matter from 'gray-matter';
+import { Lexer } from 'marked';
+import type { Token, Tokens } from 'marked';
+
+export interface MarkdownBlock {
+  token: Token;
+  // 1-based line in the original file, front matter included
+  line: number;
+  // Headings enclosing the block; for a heading, the ones above it
+  headingPath: string[];
+}
+
+export interface MarkdownDocument {
+  frontMatter: Record<string, unknown>;
+  blocks: MarkdownBlock[];
+}
+
+// Front matter plus the top-level block tokens of a Markdown file, each with its line
+export function parseMarkdown(content: string): MarkdownDocument {
+  let frontMatter: Record<string, unknown> = {};
+  let body = content;
+  try {
+    const parsed = matter(content);
+    frontMatter = parsed.data;
+    body = parsed.content;
+  } catch {
+    // Invalid YAML: read the whole file as Markdown
+  }
+  
+  // Front matter is stripped from the start, so the body is the file's tail
+  const source = content.replace(/\r\n?/g, '\n');
+  const offset = source.length - body.replace(/\r\n?/g, '\n').length;
+  const tokens = new Lexer({ gfm: true }).lex(body);
+  
+  const blocks: MarkdownBlock[] = [];
+  const headings: Array<{ depth: number; text: string }> = [];
+  let cursor = offset;
+  
+  for (const token of tokens) {
+    const start = locate(source, token.raw, cursor);
+    cursor = start + token.raw.length;
+    if (token.type === 'space') continue;
+    
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      while (headings.length > 0 && (headings[headings.length - 1]?.depth ?? 0) >= heading.depth) {
+        headings.pop();
+      }
+      blocks.push({ token, line: lineAt(source, start), headingPath: headings.map(h => h.text) });
+      headings.push({ depth: heading.depth, text: inlineText(heading.tokens) });
+      continue;
+    }
+    
+    blocks.push({ token, line: lineAt(source, start), headingPath: headings.map(h => h.text) });
+  }
+  
+  return { frontMatter, blocks };
+}
+
+// Line of each item of a list that starts on `line`
+export function listItemLines(list: Tokens.List, line: number): number[] {
+  let cursor = 0;
+  return list.items.map(item => {
+    const start = locate(list.raw, item.raw, cursor);
+    cursor = start + item.raw.length;
+    return line + countLines(list.raw.slice(0, start));
+  });
+}
+
+// Line of a token nested in `parent`, which starts on `line`; nested raw text is dedented,
+// so this matches on the child's first line
+export function nestedLine(parent: { raw: string }, child: { raw: string }, line: number): number {
+  const first = child.raw.split('\n')[0]?.trim() ?? '';
+  const index = parent.raw.split('\n').findIndex((text, i) => i > 0 && first !== '' && text.trim() === first);
+  return index === -1 ? line : line + index;
+}
+
+// Headings enclosing a line, for matches found outside the token tree
+export function headingPathAt(doc: MarkdownDocument, line: number): string[] {
+  let path: string[] = [];
+  for (const block of doc.blocks) {
+    if (block.line > line) break;
+    path = block.token.type === 'heading'
+      ? [...block.headingPath, inlineText((block.token as Tokens.Heading).tokens)]
+      : block.headingPath;
+  }
+  return path;
+}
+
+// Text of inline tokens with the Markdown syntax (emphasis, links, code) removed
+export function inlineText(tokens: Token[] | undefined): string {
+  return (tokens ?? [])
+    .map(token => {
+      if ('tokens' in token && Array.isArray(token.tokens) && token.tokens.length > 0) {
+        return inlineText(token.tokens);
+      }
+      if (token.type === 'br') return '\n';
+      return 'text' in token && typeof token.text === 'string' ? token.text : '';
+    })
+    .join('')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'');
+}
+
+// Tokens keep their raw source; where the lexer rewrote it (tabs, link definitions), stay put
+function locate(source: string, raw: string, from: number): number {
+  const index = source.indexOf(raw, from);
+  return index === -1 ? from : index;
+}
+
+function lineAt(source: string, offset: number): number {
+  return countLines(source.slice(0, offset)) + 1;
+}
+
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
@@ -0,0 +1,320 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { FileInventory } from '../inventory';
+import type { ExtractedFeature, MockupFrame, MockupInfo, RouteInfo } from '../types';
+import { splitWords, wordsMatch } from './traceability';
+
+const MOCKUP_DIRS = '{mockups,mockup,design,designs,wireframes,wireframe,screens}';
+
+export const MOCKUP_PATTERNS = [
+  `**/${MOCKUP_DIRS}/**/*.{png,jpg,jpeg,gif,webp,svg,pdf,fig,sketch}`,
+  `**/${MOCKUP_DIRS}/**/*.json`,
+  '**/*.{fig,figma,sketch}.json',
+];
+
+// Design tool frames nested deeper than this are folded into their parent
+const MAX_FRAME_DEPTH = 3;
+const MAX_TEXTS = 20;
+// Enough for any image header, and for JPEG's size marker after typical EXIF data
+const HEADER_BYTES = 256 * 1024;
+const VARIANT = /^(mobile|tablet|desktop|dark|light)$/;
+// Group ids design tools generate rather than designers name
+const GENERATED_ID = /^(g|path|rect|layer|group|svg|defs|text|tspan|clip|mask|use|image|artboard)[-_ ]?\d+$|^[a-f0-9-]{16,}$/i;
+
+// Size, text and layers of every mockup, read offline from the file itself
+export async function analyzeMockups(inventory: FileInventory): Promise<MockupInfo[]> {
+  const mockups: MockupInfo[] = [];
+  
+  for (const file of inventory.paths(MOCKUP_PATTERNS)) {
+    const extension = path.extname(file).slice(1).toLowerCase();
+    const format = (extension === 'jpg' ? 'jpeg' : extension) as MockupInfo['format'];
+    const { screen, variant } = screenName(file);
+    const base = { file, screen, ...(variant ? { variant } : {}) };
+    
+    try {
+      if (extension === 'json') {
+        const frames = designFrames(await inventory.readJson(file));
+        if (frames) mockups.push({ ...base, ...frames });
+      } else if (extension === 'svg') {
+        mockups.push({ ...base, format: 'svg', ...readSvg(await inventory.read(file)) });
+      } else if (extension === 'fig' || extension === 'sketch') {
+        // Binary documents; only their exports can be read
+        mockups.push({ ...base, format: extension === 'fig' ? 'figma' : 'sketch' });
+      } else {
+        const header = await readHeader(path.join(inventory.root, file));
+        const image = imageSize(header);
+        mockups.push({ ...base, format: image?.format ?? format, ...image?.size });
+      }
+    } catch {
+      // Unreadable or malformed files still show which screens exist
+      if (extension !== 'json') {
+        mockups.push({ ...base, format });
+      }
+    }
+  }
+  
+  return mockups;
+}
+
+// The feature and page each mockup most likely depicts, by the words of its screen or frame names
+export function linkMockups(mockups: MockupInfo[], features: ExtractedFeature[], routes: RouteInfo[]): MockupInfo[] {
+  const pages = routes.filter(route => route.kind === 'page');
+  
+  return mockups.map(mockup => {
+    const names = [mockup.screen, ...(mockup.frames ?? []).map(frame => frame.name)];
+    const result: MockupInfo = { ...mockup };
+    
+    for (const name of names) {
+      const words = splitWords(name);
+      const feature = bestMatch(words, features, feature => splitWords(feature.name));
+      const page = /^(home|landing|index)$/i.test(name.trim())
+        ? pages.find(route => route.path === '/')
+        : bestMatch(words, pages, route => splitWords(route.path.split('/').filter(segment => !/^[[{:(]/.test(segment)).join(' ')));
+      if (feature && !result.feature) result.feature = feature.name;
+      if (page && !result.page) result.page = page.path;
+      if (result.feature && result.page) break;
+    }
+    
+    return result;
+  });
+}
+
+// The candidate sharing the most words, relative to the longer of the two names; half at least
+function bestMatch<T>(words: string[], candidates: T[], wordsOf: (candidate: T) => string[]): T | undefined {
+  let best: { candidate: T; score: number } | undefined;
+  for (const candidate of candidates) {
+    const other = wordsOf(candidate);
+    if (words.length === 0 || other.length === 0) continue;
+    const hits = words.filter(word => other.some(otherWord => wordsMatch(word, otherWord))).length;
+    const score = hits / Math.max(words.length, other.length);
+    if (score >= 0.5 && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+  return best?.candidate;
+}
+
+// `02-user-profile@2x--mobile.png` → User Profile (mobile); generic names fall back to the folder
+function screenName(file: string): { screen: string; variant?: string } {
+  let variant: string | undefined;
+  const words = path.basename(file)
+    .replace(/(\.(fig|figma|sketch))?\.[^.]+$/i, '')
+    .replace(/@\dx\b/gi, '')
+    .split(/[-_\s.]+|(?<=[a-z])(?=[A-Z])/)
+    .filter(Boolean)
+    .filter((word, index) => !(index === 0 && /^\d+$/.test(word)))
+    .filter(word => {
+      if (!VARIANT.test(word.toLowerCase())) return true;
+      variant ??= word.toLowerCase();
+      return false;
+    })
+    .filter(word => !/^(v\d+|final|copy|wireframe|mockup|screen)$/i.test(word));
+  
+  const folder = path.basename(path.dirname(file));
+  const generic = words.every(word => /^\d+$|^(untitled|frame|artboard|image)$/i.test(word));
+  const name = !generic || folder === '.'
+    ? words.join(' ') || path.basename(file)
+    : folder.replace(/[-_]+/g, ' ');
+  const screen = name.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+  return variant ? { screen, variant } : { screen };
+}
+
+async function readHeader(file: string): Promise<Buffer> {
+  const handle = await fs.open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await fs.read(handle, buffer, 0, HEADER_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await fs.close(handle);
+  }
+}
+
+// Dimensions from the PNG, GIF, WebP or JPEG header
+function imageSize(data: Buffer): { format: MockupInfo['format']; size?: { width: number; height: number } } | undefined {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { format: 'png', size: { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } };
+  }
+  if (data.length >= 10 && data.toString('ascii', 0, 4) === 'GIF8') {
+    return { format: 'gif', size: { width: data.readUInt16LE(6), height: data.readUInt16LE(8) } };
+  }
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return { format: 'webp', size: webpSize(data) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    const size = jpegSize(data);
+    return size ? { format: 'jpeg', size } : { format: 'jpeg' };
+  }
+  if (data.toString('ascii', 0, 5) === '%PDF-') {
+    return { format: 'pdf' };
+  }
+  return undefined;
+}
+
+function webpSize(data: Buffer): { width: number; height: number } {
+  const chunk = data.toString('ascii', 12, 16);
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+}
+
+// Walks the segments up to the start-of-frame marker, which holds the size
+function jpegSize(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1] ?? 0;
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+// Size from width/height or the viewBox, the text shown, and named groups
+function readSvg(content: string): Pick<MockupInfo, 'width' | 'height' | 'texts' | 'layers'> {
+  const result: Pick<MockupInfo, 'width' | 'height' | 'texts' | 'layers'> = {};
+  const root = content.match(/<svg\b[^>]*>/i)?.[0] ?? '';
+  const width = parseFloat(attribute(root, 'width') ?? '');
+  const height = parseFloat(attribute(root, 'height') ?? '');
+  const viewBox = attribute(root, 'viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (width > 0 && height > 0 && !/%/.test(attribute(root, 'width') ?? '')) {
+    result.width = width;
+    result.height = height;
+  } else if (viewBox?.length === 4 && (viewBox[2] ?? 0) > 0 && (viewBox[3] ?? 0) > 0) {
+    result.width = viewBox[2] ?? 0;
+    result.height = viewBox[3] ?? 0;
+  }
+  
+  const texts = [...content.matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/gi)]
+    .map(match => decodeEntities((match[1] ?? '').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  if (texts.length > 0) result.texts = [...new Set(texts)];
+  
+  // Figma exports names as ids, Illustrator as data-name, Inkscape as inkscape:label
+  const layers = [...content.matchAll(/<g\b[^>]*>/gi)]
+    .map(match => attribute(match[0], 'inkscape:label') ?? attribute(match[0], 'data-name') ?? attribute(match[0], 'id'))
+    .filter((name): name is string => Boolean(name) && !GENERATED_ID.test(name ?? ''))
+    .map(name => decodeEntities(name.replace(/_x([0-9a-f]{2})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))).replace(/_+/g, ' ').trim());
+  if (layers.length > 0) result.layers = [...new Set(layers)];
+  
+  return result;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+// Frames of a Figma file (REST API JSON) or a Sketch document or page dump; anything else is not a mockup
+function designFrames(json: unknown): Pick<MockupInfo, 'format' | 'frames'> | undefined {
+  if (!isRecord(json)) return undefined;
+  
+  const figmaRoot = isRecord(json['document']) ? json['document'] : typeof json['type'] === 'string' ? json : undefined;
+  if (figmaRoot && Array.isArray(figmaRoot['children'])) {
+    // Pages (canvases) hold the top-level frames
+    const nodes = figmaRoot['type'] === 'DOCUMENT'
+      ? figmaRoot['children'].filter(isRecord).flatMap(canvas => Array.isArray(canvas['children']) ? canvas['children'] : [])
+      : figmaRoot['children'];
+    return { format: 'figma', frames: toFrames(nodes.filter(isRecord).map(figmaNode), 1) };
+  }
+  
+  if (typeof json['_class'] === 'string' || Array.isArray(json['pages'])) {
+    const pages = Array.isArray(json['pages']) ? json['pages'] : [json];
+    const layers = pages.filter(isRecord).flatMap(page => Array.isArray(page['layers']) ? page['layers'] : []);
+    return { format: 'sketch', frames: toFrames(layers.filter(isRecord).map(sketchLayer), 1) };
+  }
+  
+  return undefined;
+}
+
+interface DesignNode {
+  name: string;
+  type: string;
+  container: boolean;
+  text?: string;
+  width?: number;
+  height?: number;
+  children: DesignNode[];
+}
+
+function figmaNode(node: Record<string, unknown>): DesignNode {
+  const box = isRecord(node['absoluteBoundingBox']) ? node['absoluteBoundingBox'] : undefined;
+  const type = String(node['type'] ?? '');
+  return {
+    name: String(node['name'] ?? ''),
+    type,
+    container: ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'GROUP', 'SECTION'].includes(type),
+    ...(type === 'TEXT' && typeof node['characters'] === 'string' ? { text: node['characters'] } : {}),
+    ...(typeof box?.['width'] === 'number' ? { width: box['width'] } : {}),
+    ...(typeof box?.['height'] === 'number' ? { height: box['height'] } : {}),
+    children: Array.isArray(node['children']) ? node['children'].filter(isRecord).map(figmaNode) : [],
+  };
+}
+
+function sketchLayer(layer: Record<string, unknown>): DesignNode {
+  const frame = isRecord(layer['frame']) ? layer['frame'] : undefined;
+  const attributed = isRecord(layer['attributedString']) ? layer['attributedString'] : undefined;
+  const type = String(layer['_class'] ?? '');
+  return {
+    name: String(layer['name'] ?? ''),
+    type,
+    container: ['artboard', 'group', 'symbolMaster', 'symbolInstance'].includes(type),
+    ...(type === 'text' ? { text: typeof attributed?.['string'] === 'string' ? attributed['string'] : String(layer['name'] ?? '') } : {}),
+    ...(typeof frame?.['width'] === 'number' ? { width: frame['width'] } : {}),
+    ...(typeof frame?.['height'] === 'number' ? { height: frame['height'] } : {}),
+    children: Array.isArray(layer['layers']) ? layer['layers'].filter(isRecord).map(sketchLayer) : [],
+  };
+}
+
+// Containers become frames; other nodes are looked through
+function toFrames(nodes: DesignNode[], depth: number): MockupFrame[] {
+  return nodes.flatMap(node => node.container ? [toFrame(node, depth)] : toFrames(node.children, depth));
+}
+
+// Text anywhere below a frame, outside its child frames, is the frame's text
+function toFrame(node: DesignNode, depth: number): MockupFrame {
+  const frame: MockupFrame = { name: node.name, type: node.type };
+  if (node.width !== undefined) frame.width = Math.round(node.width);
+  if (node.height !== undefined) frame.height = Math.round(node.height);
+  
+  const texts: string[] = [];
+  const children: MockupFrame[] = [];
+  const visit = (child: DesignNode): void => {
+    if (child.container && depth < MAX_FRAME_DEPTH) {
+      children.push(toFrame(child, depth + 1));
+      return;
+    }
+    if (child.text?.trim() && texts.length < MAX_TEXTS) {
+      texts.push(child.text.replace(/\s+/g, ' ').trim());
+    }
+    child.children.forEach(visit);
+  };
+  node.children.forEach(visit);
+  
+  if (texts.length > 0) frame.texts = [...new Set(texts)];
+  if (children.length > 0) frame.children = children;
+  return frame;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
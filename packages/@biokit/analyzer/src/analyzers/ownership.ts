@@ -0,0 +1,113 @@
+import path from 'path';
+import simpleGit from 'simple-git';
+import type { Gap, GapOwner, StaleGapGroup } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const UNCOMMITTED = /^0{40}$/;
+
+export const DEFAULT_STALE_DAYS = 180;
+
+// Attach the author and date of the commit that last touched each gap's line
+export async function blameGaps(root: string, gaps: Gap[], now = new Date()): Promise<Gap[]> {
+  const git = simpleGit(root);
+  if (!await git.checkIsRepo().catch(() => false)) {
+    throw new Error(`Failed to blame gaps: ${root} is not a git repository`);
+  }
+  // A shallow clone attributes every line to its oldest commit, which reads as ownership
+  const shallow = (await git.revparse(['--is-shallow-repository'])).trim() === 'true';
+  if (shallow) {
+    throw new Error(`Failed to blame gaps: ${root} is a shallow clone; run git fetch --unshallow first`);
+  }
+  
+  const linesByFile = new Map<string, number[]>();
+  gaps.forEach(gap => {
+    if (!gap.line) return;
+    linesByFile.set(gap.file, [...(linesByFile.get(gap.file) ?? []), gap.line]);
+  });
+  
+  const owners = new Map<string, Map<number, Omit<GapOwner, 'ageDays'>>>();
+  for (const [file, lines] of linesByFile) {
+    const ranges = [...new Set(lines)].flatMap(line => ['-L', `${line},${line}`]);
+    try {
+      const output = await git.raw(['blame', '--line-porcelain', ...ranges, '--', file]);
+      owners.set(file, parseBlame(output));
+    } catch {
+      // Untracked files have no history yet
+      owners.set(file, new Map());
+    }
+  }
+  
+  return gaps.map(gap => {
+    const owner = gap.line ? owners.get(gap.file)?.get(gap.line) : undefined;
+    return owner ? { ...gap, owner: { ...owner, ageDays: ageInDays(owner.date, now) } } : gap;
+  });
+}
+
+// Ages are relative to when they're read, so cached analyses get them recomputed
+export function refreshGapAges(gaps: Gap[], now = new Date()): Gap[] {
+  return gaps.map(gap => gap.owner
+    ? { ...gap, owner: { ...gap.owner, ageDays: ageInDays(gap.owner.date, now) } }
+    : gap);
+}
+
+// Gaps older than `minAgeDays`, grouped by the directory they're in, most first
+export function staleGapsByDirectory(
+  gaps: Gap[],
+  { minAgeDays = DEFAULT_STALE_DAYS, types }: { minAgeDays?: number; types?: Gap['type'][] } = {}
+): StaleGapGroup[] {
+  const groups = new Map<string, StaleGapGroup>();
+  
+  for (const gap of gaps) {
+    if (!gap.owner || gap.owner.ageDays < minAgeDays) continue;
+    if (types && !types.includes(gap.type)) continue;
+    
+    const directory = path.posix.dirname(gap.file);
+    const group = groups.get(directory) ?? { directory, count: 0, byType: {}, authors: [], oldestDays: 0 };
+    group.count += 1;
+    group.byType[gap.type] = (group.byType[gap.type] ?? 0) + 1;
+    if (!group.authors.includes(gap.owner.author)) group.authors.push(gap.owner.author);
+    group.oldestDays = Math.max(group.oldestDays, gap.owner.ageDays);
+    groups.set(directory, group);
+  }
+  
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.oldestDays - a.oldestDays);
+}
+
+// `--line-porcelain` repeats the commit headers for every line, so each block stands alone
+function parseBlame(output: string): Map<number, Omit<GapOwner, 'ageDays'>> {
+  const owners = new Map<number, Omit<GapOwner, 'ageDays'>>();
+  let current: { commit: string; line: number; author?: string; email?: string; time?: number } | undefined;
+  
+  for (const line of output.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header?.[1] && header[2]) {
+      current = { commit: header[1], line: Number(header[2]) };
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith('author ')) {
+      current.author = line.slice('author '.length);
+    } else if (line.startsWith('author-mail ')) {
+      current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+    } else if (line.startsWith('author-time ')) {
+      current.time = Number(line.slice('author-time '.length));
+    } else if (line.startsWith('\t')) {
+      // Lines not committed yet have no owner to report
+      if (!UNCOMMITTED.test(current.commit) && current.author && current.time) {
+        const owner: Omit<GapOwner, 'ageDays'> = {
+          author: current.author,
+          commit: current.commit,
+          date: new Date(current.time * 1000).toISOString(),
+        };
+        if (current.email) owner.email = current.email;
+        owners.set(current.line, owner);
+      }
+      current = undefined;
+    }
+  }
+  
+  return owners;
+}
+
+function ageInDays(date: string, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(date).getTime()) / DAY));
+}
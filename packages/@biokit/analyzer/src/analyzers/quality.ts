@@ -1,33 +1,31 @@
-import { globby } from 'globby';
-import fs from 'fs-extra';
-import path from 'path';
-import type { CodeQuality } from '../types';
+import type { CodeQuality, CoverageReport } from '../types';
+import { detectFramework } from '../framework';
+import type { FileInventory } from '../inventory';
+import { analyzeCoverage } from './coverage';
 
-export async function analyzeQuality(repoPath: string): Promise<CodeQuality> {
-  const packageJsonPath = path.join(repoPath, 'package.json');
-  let packageJson: any = {};
-  
-  if (await fs.pathExists(packageJsonPath)) {
-    packageJson = await fs.readJson(packageJsonPath);
-  }
+export async function analyzeQuality(inventory: FileInventory): Promise<CodeQuality> {
+  const packageJson: any = (await inventory.readJson('package.json')) || {};
   
   // Detect TypeScript
-  const hasTypescript = await detectTypescript(repoPath);
+  const hasTypescript = detectTypescript(inventory);
   
   // Detect tests
-  const hasTests = await detectTests(repoPath);
+  const hasTests = detectTests(inventory);
   
   // Detect design system
-  const designSystem = await detectDesignSystem(repoPath, packageJson);
+  const designSystem = detectDesignSystem(inventory, packageJson);
   
   // Detect framework
-  const framework = detectFramework(packageJson);
+  const framework = await detectFramework(inventory, packageJson);
   
   // Detect package manager
-  const packageManager = await detectPackageManager(repoPath);
+  const packageManager = detectPackageManager(inventory);
+  
+  // Read coverage reports, falling back to an estimate
+  const coverage = await analyzeCoverage(inventory);
   
   // Calculate metrics if possible
-  const metrics = await calculateMetrics(repoPath);
+  const metrics = await calculateMetrics(inventory, coverage);
   
   return {
     hasTypescript,
@@ -36,25 +34,23 @@ export async function analyzeQuality(repoPath: string): Promise<CodeQuality> {
     framework,
     packageManager,
     metrics,
+    coverage,
   };
 }
 
-async function detectTypescript(repoPath: string): Promise<boolean> {
+function detectTypescript(inventory: FileInventory): boolean {
   // Check for tsconfig.json
-  if (await fs.pathExists(path.join(repoPath, 'tsconfig.json'))) {
+  if (inventory.has('tsconfig.json')) {
     return true;
   }
   
   // Check for TypeScript files
-  const tsFiles = await globby('**/*.{ts,tsx}', {
-    cwd: repoPath,
-    ignore: ['node_modules/**'],
-  });
+  const tsFiles = inventory.paths('**/*.{ts,tsx}');
   
   return tsFiles.length > 0;
 }
 
-async function detectTests(repoPath: string): Promise<boolean> {
+function detectTests(inventory: FileInventory): boolean {
   // Check for test configuration files
   const testConfigs = [
     'jest.config.js',
@@ -67,29 +63,26 @@ async function detectTests(repoPath: string): Promise<boolean> {
   ];
   
   for (const config of testConfigs) {
-    if (await fs.pathExists(path.join(repoPath, config))) {
+    if (inventory.has(config)) {
       return true;
     }
   }
   
   // Check for test files
-  const testFiles = await globby([
+  const testFiles = inventory.paths([
     '**/*.{test,spec}.{js,jsx,ts,tsx}',
     '**/__tests__/**',
     '**/test/**',
     '**/tests/**',
-  ], {
-    cwd: repoPath,
-    ignore: ['node_modules/**'],
-  });
+  ]);
   
   return testFiles.length > 0;
 }
 
-async function detectDesignSystem(
-  repoPath: string, 
+function detectDesignSystem(
+  inventory: FileInventory,
   packageJson: any
-): Promise<CodeQuality['designSystem']> {
+): CodeQuality['designSystem'] {
   const deps = {
     ...packageJson.dependencies,
     ...packageJson.devDependencies,
@@ -117,8 +110,8 @@ async function detectDesignSystem(
   
   // Check for Tailwind CSS
   if (deps['tailwindcss']) {
-    const configExists = await fs.pathExists(path.join(repoPath, 'tailwind.config.js')) ||
-                        await fs.pathExists(path.join(repoPath, 'tailwind.config.ts'));
+    const configExists = inventory.has('tailwind.config.js') ||
+                        inventory.has('tailwind.config.ts');
     if (configExists) {
       return 'tailwind';
     }
@@ -132,83 +125,45 @@ async function detectDesignSystem(
   return 'none';
 }
 
-function detectFramework(packageJson: any): string {
-  const deps = {
-    ...packageJson.dependencies,
-    ...packageJson.devDependencies,
-  };
-  
-  if (deps.next) return 'Next.js';
-  if (deps.gatsby) return 'Gatsby';
-  if (deps['@remix-run/react']) return 'Remix';
-  if (deps.react && deps['react-scripts']) return 'Create React App';
-  if (deps.react && deps.vite) return 'Vite + React';
-  if (deps.react) return 'React';
-  if (deps.vue) return 'Vue';
-  if (deps.svelte) return 'Svelte';
-  if (deps['@angular/core']) return 'Angular';
-  if (deps.express) return 'Express';
-  if (deps.fastify) return 'Fastify';
-  if (deps.koa) return 'Koa';
-  
-  return 'Unknown';
-}
-
-async function detectPackageManager(repoPath: string): Promise<'npm' | 'yarn' | 'pnpm'> {
-  if (await fs.pathExists(path.join(repoPath, 'pnpm-lock.yaml'))) {
+function detectPackageManager(inventory: FileInventory): 'npm' | 'yarn' | 'pnpm' {
+  if (inventory.has('pnpm-lock.yaml')) {
     return 'pnpm';
   }
   
-  if (await fs.pathExists(path.join(repoPath, 'yarn.lock'))) {
+  if (inventory.has('yarn.lock')) {
     return 'yarn';
   }
   
   return 'npm';
 }
 
-async function calculateMetrics(repoPath: string): Promise<CodeQuality['metrics']> {
+async function calculateMetrics(
+  inventory: FileInventory,
+  coverage: CoverageReport
+): Promise<CodeQuality['metrics']> {
   try {
     // Count lines of code
-    const codeFiles = await globby([
+    const codeFiles = inventory.paths([
       '**/*.{js,jsx,ts,tsx}',
       '**/*.{css,scss,sass}',
-    ], {
-      cwd: repoPath,
-      ignore: ['node_modules/**', 'dist/**', 'build/**'],
-    });
+    ]);
     
     let linesOfCode = 0;
     for (const file of codeFiles) {
-      const content = await fs.readFile(path.join(repoPath, file), 'utf-8');
+      const content = await inventory.read(file);
       linesOfCode += content.split('\n').length;
     }
     
     // Count components
-    const componentFiles = await globby([
+    const componentFiles = inventory.paths([
       '**/components/**/*.{jsx,tsx}',
       '**/src/components/**/*.{jsx,tsx}',
-    ], {
-      cwd: repoPath,
-      ignore: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
-    });
-    
-    // Estimate test coverage (simplified)
-    const testFiles = await globby([
-      '**/*.{test,spec}.{js,jsx,ts,tsx}',
-    ], {
-      cwd: repoPath,
-      ignore: ['node_modules/**'],
-    });
-    
-    const testCoverage = Math.min(
-      Math.round((testFiles.length / Math.max(codeFiles.length, 1)) * 100),
-      100
-    );
+    ], ['**/*.test.*', '**/*.spec.*']);
     
     return {
       linesOfCode,
       fileCount: codeFiles.length,
-      testCoverage,
+      testCoverage: Math.round(coverage.lines),
       componentCount: componentFiles.length,
     };
   } catch (error) {
@@ -1,25 +1,64 @@
-import { globby } from 'globby';
-import fs from 'fs-extra';
 import path from 'path';
-import matter from 'gray-matter';
-import type { RequirementsInfo, ExtractedFeature } from '../types';
+import type { Tokens } from 'marked';
+import type { RequirementsInfo, ExtractedFeature, AcceptanceCriterion, DataModel, ApiOperation, MockupInfo } from '../types';
+import type { FileInventory } from '../inventory';
+import { headingPathAt, inlineText, listItemLines, nestedLine, parseMarkdown } from './markdown';
+import type { MarkdownDocument } from './markdown';
+import { extractDataModels, resolveDataModels } from './data-models';
+import { API_SPEC_PATTERNS, parseApiSpec } from './api-specs';
+import { analyzeMockups } from './mockups';
+import { ACCEPTANCE_CRITERIA, criteriaFromList, criteriaInBlocks, findScenarios, isScenarioLine, parseGherkin } from './acceptance';
 
-export interface RequirementsAnalysis extends RequirementsInfo {
+// `dataModels` holds the models themselves; the RequirementsInfo flag is derived from it
+export interface RequirementsAnalysis extends Omit<RequirementsInfo, 'dataModels'> {
   features: ExtractedFeature[];
   userFlows: string[];
-  dataModels: any[];
+  dataModels: DataModel[];
+  // Endpoints from OpenAPI/Swagger documents and GraphQL schemas, not yet checked against the code
+  apiOperations: ApiOperation[];
+  // Not yet linked to features and pages, which needs the routes
+  mockupDetails: MockupInfo[];
 }
 
-export async function analyzeRequirements(repoPath: string): Promise<RequirementsAnalysis> {
+// Values of the `type` front matter key
+const DOCUMENT_TYPES = ['prd', 'user-stories', 'spec', 'data-model', 'flow'] as const;
+type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+const DOCUMENT_TYPE_ALIASES: Record<string, DocumentType> = {
+  'product-requirements': 'prd',
+  'stories': 'user-stories',
+  'user-story': 'user-stories',
+  'technical-spec': 'spec',
+  'specification': 'spec',
+  'data-models': 'data-model',
+  'schema': 'data-model',
+  'user-flow': 'flow',
+  'journey': 'flow',
+};
+
+// What a document's front matter says about it and the features it defines
+interface DocumentMeta {
+  types?: DocumentType[];
+  priority?: ExtractedFeature['priority'];
+  status?: ExtractedFeature['status'];
+  owner?: string;
+  featureId?: string;
+}
+
+// Headings whose contents list the product's features
+const FEATURE_SECTION = /^(?:key\s+|core\s+)?(?:features?|functionality|functional requirements|requirements|capabilities)\b/i;
+
+export async function analyzeRequirements(inventory: FileInventory): Promise<RequirementsAnalysis> {
   const analysis: RequirementsAnalysis = {
     prd: false,
     userStories: false,
     technicalSpecs: false,
     mockups: false,
-    dataModels: false,
     features: [],
     userFlows: [],
     dataModels: [],
+    apiOperations: [],
+    mockupDetails: [],
   };
   
   // Find requirement documents
@@ -28,169 +67,400 @@ export async function analyzeRequirements(repoPath: string): Promise<Requirement
     '**/requirements/**/*',
     '**/docs/**/*',
     '**/design/**/*',
+    '**/*.feature',
   ];
   
-  const files = await globby(docPatterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '.git/**'],
-  });
+  const files = inventory.paths(docPatterns);
+  const linkedDocuments: Array<{ file: string; featureId: string }> = [];
   
   // Analyze each file
   for (const file of files) {
-    const filePath = path.join(repoPath, file);
     const filename = path.basename(file).toLowerCase();
-    const content = await fs.readFile(filePath, 'utf-8');
+    const content = await inventory.read(file);
+    
+    // Gherkin features are user stories with their scenarios as acceptance criteria
+    if (filename.endsWith('.feature')) {
+      const features = extractFeaturesFromGherkin(file, content);
+      if (features.length > 0) {
+        analysis.userStories = true;
+        analysis.features.push(...features);
+      }
+      continue;
+    }
+    
+    let doc: MarkdownDocument | undefined;
+    const markdown = () => (doc ??= parseMarkdown(content));
+    const isMarkdown = /\.mdx?$/.test(filename);
+    
+    // Front matter says what a document is; without a `type` the file name is the best guess
+    const meta = isMarkdown && content.startsWith('---') ? readFrontMatter(markdown().frontMatter) : {};
+    const types = meta.types ?? documentTypes(filename);
     
     // Check document types
-    if (filename.includes('prd') || filename.includes('product-requirement')) {
+    if (types.includes('prd')) {
       analysis.prd = true;
-      analysis.features.push(...extractFeaturesFromPRD(content));
+      analysis.features.push(...applyFrontMatter(extractFeaturesFromPRD(file, markdown()), file, meta));
     }
     
-    if (filename.includes('user-stor') || filename.includes('stories')) {
+    if (types.includes('user-stories')) {
       analysis.userStories = true;
-      analysis.features.push(...extractFeaturesFromUserStories(content));
+      analysis.features.push(...applyFrontMatter(extractFeaturesFromUserStories(file, content, markdown()), file, meta));
     }
     
-    if (filename.includes('technical') || filename.includes('spec')) {
+    if (types.includes('spec')) {
       analysis.technicalSpecs = true;
     }
     
-    if (filename.includes('data-model') || filename.includes('schema')) {
-      analysis.dataModels = true;
-      analysis.dataModels.push(...extractDataModels(content));
+    // Documents that may define entities, by type or folder; Markdown elsewhere is too often a README props table
+    const mayDefineModels = types.some(type => type === 'data-model' || type === 'prd' || type === 'spec')
+      || (!meta.types && inDataModelFolder(file));
+    if (!isMarkdown || mayDefineModels) {
+      analysis.dataModels.push(...extractDataModels(file, content, markdown));
     }
     
     // Extract user flows
-    if (filename.includes('flow') || filename.includes('journey')) {
+    if (types.includes('flow')) {
       analysis.userFlows.push(...extractUserFlows(content));
     }
+    
+    // Other documents detail the feature they name
+    if (meta.featureId && !types.includes('prd') && !types.includes('user-stories')) {
+      linkedDocuments.push({ file, featureId: meta.featureId });
+    }
   }
   
-  // Check for mockups
-  const imagePatterns = [
-    '**/mockups/**/*.{png,jpg,jpeg,svg,pdf}',
-    '**/design/**/*.{png,jpg,jpeg,svg,pdf,fig,sketch}',
-    '**/wireframes/**/*.{png,jpg,jpeg,svg,pdf}',
-  ];
-  
-  const images = await globby(imagePatterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**'],
-  });
+  // API specs are technical specs whatever they're named
+  for (const file of inventory.paths(API_SPEC_PATTERNS)) {
+    const operations = parseApiSpec(file, await inventory.read(file));
+    if (operations.length > 0) {
+      analysis.technicalSpecs = true;
+      analysis.apiOperations.push(...operations);
+    }
+  }
   
-  if (images.length > 0) {
+  // Check for mockups
+  analysis.mockupDetails = await analyzeMockups(inventory);
+  if (analysis.mockupDetails.length > 0) {
     analysis.mockups = true;
   }
   
-  // Deduplicate features
-  analysis.features = deduplicateFeatures(analysis.features);
+  // Deduplicate features, then link parents to their children
+  analysis.features = linkChildren(deduplicateFeatures(analysis.features));
+  linkDocuments(analysis.features, linkedDocuments);
+  analysis.dataModels = resolveDataModels(analysis.dataModels);
   
   return analysis;
 }
 
-function extractFeaturesFromPRD(content: string): ExtractedFeature[] {
+// Sub-headings, list items (nested, numbered or checkboxes) and table rows under a features heading
+function extractFeaturesFromPRD(file: string, doc: MarkdownDocument): ExtractedFeature[] {
   const features: ExtractedFeature[] = [];
-  const lines = content.split('\n');
-  
-  let inFeaturesSection = false;
-  let currentFeature: ExtractedFeature | null = null;
+  let sectionDepth: number | null = null;
+  // Sub-headings of the section that are features themselves, innermost last
+  let headingFeatures: Array<{ depth: number; feature: ExtractedFeature }> = [];
+  let describing: ExtractedFeature | undefined;
+  // Feature whose acceptance criteria follow, until the next heading (or list, after a paragraph label)
+  let criteria: { feature: ExtractedFeature; untilHeading: boolean } | undefined;
   
-  for (const line of lines) {
-    // Check for features section
-    if (/^#{1,3}\s*(features|functionality|requirements)/i.test(line)) {
-      inFeaturesSection = true;
+  for (const { token, line, headingPath } of doc.blocks) {
+    if (token.type === 'heading') {
+      const heading = token as Tokens.Heading;
+      const text = inlineText(heading.tokens).trim();
+      if (sectionDepth !== null && heading.depth <= sectionDepth) {
+        sectionDepth = null;
+      }
+      if (sectionDepth === null) {
+        if (FEATURE_SECTION.test(text)) {
+          sectionDepth = heading.depth;
+          headingFeatures = [];
+        }
+        describing = undefined;
+        continue;
+      }
+      
+      headingFeatures = headingFeatures.filter(entry => entry.depth < heading.depth);
+      const enclosing = headingFeatures[headingFeatures.length - 1]?.feature;
+      criteria = undefined;
+      if (ACCEPTANCE_CRITERIA.test(text)) {
+        // "Acceptance Criteria" under a feature heading lists that feature's criteria
+        if (enclosing) criteria = { feature: enclosing, untilHeading: true };
+        describing = undefined;
+        continue;
+      }
+      
+      const feature = createFeature(file, text, line, headingPath, enclosing);
+      features.push(feature);
+      headingFeatures.push({ depth: heading.depth, feature });
+      describing = feature;
       continue;
     }
+    if (sectionDepth === null) continue;
     
-    // Check for end of features section
-    if (inFeaturesSection && /^#{1,3}\s/.test(line) && 
-        !/features|functionality|requirements/i.test(line)) {
-      inFeaturesSection = false;
+    const parent = headingFeatures[headingFeatures.length - 1]?.feature;
+    const owner = criteria?.feature ?? describing ?? parent;
+    if (token.type === 'paragraph' || token.type === 'code') {
+      const text = (token as Tokens.Paragraph | Tokens.Code).text;
+      const scenarios = findScenarios(text, file, line);
+      if (token.type === 'paragraph' && owner && ACCEPTANCE_CRITERIA.test(inlineText((token as Tokens.Paragraph).tokens))) {
+        criteria = { feature: owner, untilHeading: false };
+      } else if (scenarios.length > 0 && owner) {
+        addCriteria(owner, scenarios);
+      } else if (token.type === 'paragraph' && describing) {
+        // Text right below a feature heading describes it
+        appendDescription(describing, inlineText((token as Tokens.Paragraph).tokens));
+      }
+    } else if (token.type === 'list' && criteria) {
+      addCriteria(criteria.feature, criteriaFromList(token as Tokens.List, file, line));
+      if (!criteria.untilHeading) criteria = undefined;
+    } else if (token.type === 'list') {
+      features.push(...extractListFeatures(file, token as Tokens.List, line, headingPath, parent));
+      describing = undefined;
+    } else if (token.type === 'table') {
+      features.push(...extractTableFeatures(file, token as Tokens.Table, line, headingPath, parent));
+      describing = undefined;
     }
+  }
+  
+  // A feature without a checkbox of its own takes its status from its sub-features
+  [...features].reverse().forEach(feature => {
+    if (feature.status || !feature.id) return;
+    const statuses = features.filter(child => child.parent === feature.id).map(child => child.status);
+    if (statuses.length === 0 || statuses.some(status => !status)) return;
+    if (statuses.every(status => status === 'completed')) {
+      feature.status = 'completed';
+    } else if (statuses.some(status => status !== 'planned')) {
+      feature.status = 'in-progress';
+    } else {
+      feature.status = 'planned';
+    }
+  });
+  
+  return features;
+}
+
+function extractListFeatures(
+  file: string,
+  list: Tokens.List,
+  line: number,
+  headingPath: string[],
+  parent: ExtractedFeature | undefined
+): ExtractedFeature[] {
+  const features: ExtractedFeature[] = [];
+  const lines = listItemLines(list, line);
+  
+  list.items.forEach((item, index) => {
+    const itemLine = lines[index] ?? line;
+    const blocks = item.tokens.filter(token => token.type !== 'list' && token.type !== 'space');
+    const [first, ...rest] = blocks.map(block => inlineText('tokens' in block ? block.tokens : undefined).trim());
+    const [title = '', ...continuation] = (first ?? '').split('\n');
+    const sublists = item.tokens.filter((token): token is Tokens.List => token.type === 'list');
     
-    if (inFeaturesSection) {
-      // Extract feature items
-      if (/^[\-\*]\s+(.+)/.test(line)) {
-        const match = line.match(/^[\-\*]\s+(.+)/);
-        if (match) {
-          const featureName = match[1].trim();
-          currentFeature = {
-            name: featureName,
-            priority: detectPriority(featureName),
-          };
-          features.push(currentFeature);
-        }
-      } else if (currentFeature && /^\s{2,}/.test(line)) {
-        // Sub-item or description
-        currentFeature.description = (currentFeature.description || '') + line.trim() + ' ';
+    // `- Acceptance criteria:` with the criteria nested below belongs to the enclosing feature
+    if (ACCEPTANCE_CRITERIA.test(title)) {
+      if (parent) {
+        sublists.forEach(sublist => addCriteria(parent, criteriaFromList(sublist, file, nestedLine(item, sublist, itemLine))));
       }
+      return;
     }
-  }
+    
+    const { name, description } = splitTitle(title.trim(), blocks[0]);
+    if (!name) return;
+    
+    const feature = createFeature(file, name, itemLine, headingPath, parent);
+    const details = [...continuation, ...rest];
+    addCriteria(feature, findScenarios(details.join('\n'), file, itemLine + 1));
+    [description, ...details.filter(text => !isScenarioLine(text))].forEach(text => text && appendDescription(feature, text));
+    if (item.task) {
+      feature.status = item.checked ? 'completed' : 'planned';
+    }
+    features.push(feature);
+    
+    sublists.forEach(sublist => {
+      const sublistLine = nestedLine(item, sublist, itemLine);
+      // Steps nested under a feature are a scenario, not sub-features
+      if (sublist.items.every(child => isScenarioLine(child.text.split('\n')[0] ?? ''))) {
+        addCriteria(feature, criteriaFromList(sublist, file, sublistLine));
+      } else {
+        features.push(...extractListFeatures(file, sublist, sublistLine, headingPath, feature));
+      }
+    });
+  });
   
   return features;
 }
 
-function extractFeaturesFromUserStories(content: string): ExtractedFeature[] {
+// One feature per row; columns are matched by their header, the name defaulting to the first
+function extractTableFeatures(
+  file: string,
+  table: Tokens.Table,
+  line: number,
+  headingPath: string[],
+  parent: ExtractedFeature | undefined
+): ExtractedFeature[] {
+  const headers = table.header.map(cell => inlineText(cell.tokens).trim().toLowerCase());
+  const column = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const nameColumn = Math.max(0, column(/feature|name|requirement|capability|story/));
+  const descriptionColumn = column(/description|details|summary|notes/);
+  const priorityColumn = column(/priority|importance|moscow/);
+  const statusColumn = column(/status|state|done/);
+  
   const features: ExtractedFeature[] = [];
+  table.rows.forEach((row, index) => {
+    const cell = (column: number) => column >= 0 ? inlineText(row[column]?.tokens).trim() : '';
+    const name = cell(nameColumn).replace(/^\[[ xX]\]\s*/, '');
+    if (!name) return;
+    
+    // Rows start after the header and delimiter lines
+    const feature = createFeature(file, name, line + 2 + index, headingPath, parent);
+    const description = cell(descriptionColumn);
+    if (description) {
+      feature.description = description;
+    }
+    const priority = cell(priorityColumn);
+    if (priority) {
+      feature.priority = detectPriority(priority);
+    }
+    const status = parseStatus(statusColumn >= 0 ? cell(statusColumn) : row[nameColumn]?.text ?? '');
+    if (status) {
+      feature.status = status;
+    }
+    features.push(feature);
+  });
+  
+  return features;
+}
+
+function createFeature(
+  file: string,
+  name: string,
+  line: number,
+  headingPath: string[],
+  parent: ExtractedFeature | undefined
+): ExtractedFeature {
+  const feature: ExtractedFeature = {
+    name,
+    priority: detectPriority(name),
+    id: parent?.id ? `${parent.id}/${slugify(name)}` : `${file}#${slugify(name)}`,
+    source: { file, line, headingPath },
+  };
+  if (parent?.id) {
+    feature.parent = parent.id;
+  }
+  return feature;
+}
+
+// `**Login** - email and password` or `Login: email and password`
+function splitTitle(title: string, block: { type: string; tokens?: Tokens.Generic['tokens'] } | undefined): { name: string; description?: string } {
+  const lead = block?.tokens?.[0];
+  if (lead?.type === 'strong') {
+    const name = inlineText(lead.tokens).trim();
+    const description = title.slice(name.length).replace(/^\s*[:\-–—]\s*/, '').trim();
+    return description ? { name, description } : { name };
+  }
+  
+  const match = title.match(/^(.{2,60}?)(?::\s+|\s+[-–—]\s+)(.+)$/);
+  return match?.[1] && match[2] ? { name: match[1].trim(), description: match[2].trim() } : { name: title };
+}
+
+function addCriteria(feature: ExtractedFeature, criteria: AcceptanceCriterion[]): void {
+  if (criteria.length === 0) return;
+  feature.acceptanceCriteria = [...(feature.acceptanceCriteria ?? []), ...criteria];
+}
+
+function appendDescription(feature: ExtractedFeature, text: string): void {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return;
+  feature.description = feature.description ? `${feature.description} ${trimmed}` : trimmed;
+  if (feature.priority === 'medium') {
+    feature.priority = detectPriority(`${feature.name} ${feature.description}`);
+  }
+}
+
+function parseStatus(text: string): ExtractedFeature['status'] | undefined {
+  if (/\[[xX]\]|✅|✔|\b(done|complete[d]?|shipped|implemented|live)\b/i.test(text)) return 'completed';
+  if (/🚧|\b(in[ -]?progress|wip|started|ongoing)\b/i.test(text)) return 'in-progress';
+  if (/\[ \]|❌|\b(planned|todo|to do|not started|backlog|proposed)\b/i.test(text)) return 'planned';
+  return undefined;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'feature';
+}
+
+function extractFeaturesFromUserStories(file: string, content: string, doc: MarkdownDocument): ExtractedFeature[] {
+  const features: ExtractedFeature[] = [];
+  const sourceAt = (index: number) => {
+    const line = content.slice(0, index).split('\n').length;
+    return { file, line, headingPath: headingPathAt(doc, line) };
+  };
   
   // Match user story patterns
   const storyPattern = /as\s+a\s+(.+?),?\s+i\s+want\s+(.+?)\s+so\s+that\s+(.+)/gi;
   let match;
   
   while ((match = storyPattern.exec(content)) !== null) {
+    const name = (match[2] ?? '').trim();
     features.push({
-      name: match[2].trim(),
+      name,
       description: `As a ${match[1]}, ${match[3]}`,
       priority: 'medium',
+      id: `${file}#${slugify(name)}`,
+      source: sourceAt(match.index),
     });
   }
   
   // Also look for simpler story formats
   const simplePattern = /^[\-\*]\s*\[?(user story|story|feature)\]?:?\s*(.+)/gmi;
   while ((match = simplePattern.exec(content)) !== null) {
+    const name = (match[2] ?? '').trim();
     features.push({
-      name: match[2].trim(),
+      name,
       priority: 'medium',
+      id: `${file}#${slugify(name)}`,
+      source: sourceAt(match.index),
     });
   }
   
+  // A story's criteria are in the blocks after it, up to the next story or heading
+  const stories = [...features].sort((a, b) => (a.source?.line ?? 0) - (b.source?.line ?? 0));
+  const blockAt = (line: number) => doc.blocks.reduce((found, block, index) => block.line <= line ? index : found, -1);
+  stories.forEach((story, index) => {
+    const start = blockAt(story.source?.line ?? 0);
+    if (start === -1) return;
+    const next = stories[index + 1]?.source?.line;
+    const end = next === undefined ? doc.blocks.length : Math.max(start + 1, blockAt(next));
+    const blocks = doc.blocks.slice(start, end);
+    const heading = blocks.findIndex((block, i) => i > 0 && block.token.type === 'heading'
+      && !ACCEPTANCE_CRITERIA.test(inlineText((block.token as Tokens.Heading).tokens)));
+    addCriteria(story, criteriaInBlocks(heading === -1 ? blocks : blocks.slice(0, heading), file));
+  });
+  
   return features;
 }
 
-function extractDataModels(content: string): any[] {
-  const models: any[] = [];
-  
-  // Look for code blocks with schema definitions
-  const codeBlockPattern = /```(?:json|typescript|javascript|yaml)?\n([\s\S]*?)```/g;
-  let match;
-  
-  while ((match = codeBlockPattern.exec(content)) !== null) {
-    const block = match[1];
+// A feature per `Feature:`, with its rules as sub-features and scenarios as acceptance criteria
+function extractFeaturesFromGherkin(file: string, content: string): ExtractedFeature[] {
+  return parseGherkin(content, file).flatMap(gherkin => {
+    const name = gherkin.name || path.basename(file, '.feature');
+    const feature: ExtractedFeature = {
+      name,
+      priority: 'medium',
+      id: `${file}#${slugify(name)}`,
+      source: { file, line: gherkin.line, headingPath: [] },
+    };
+    if (gherkin.description) appendDescription(feature, gherkin.description);
+    addCriteria(feature, gherkin.scenarios);
     
-    // Try to parse as JSON
-    try {
-      const parsed = JSON.parse(block);
-      if (parsed && typeof parsed === 'object') {
-        models.push(parsed);
-      }
-    } catch {
-      // Not JSON, try to extract schema-like patterns
-      if (/interface|type|schema|model/i.test(block)) {
-        models.push({ raw: block });
-      }
-    }
-  }
-  
-  // Look for table definitions
-  const tablePattern = /\|(.+)\|/g;
-  const tables = content.match(tablePattern);
-  if (tables && tables.length > 2) {
-    // Likely a markdown table describing data model
-    models.push({ table: tables });
-  }
-  
-  return models;
+    // Scenarios of an unnamed rule stay with the feature
+    gherkin.rules.filter(rule => !rule.name).forEach(rule => addCriteria(feature, rule.scenarios));
+    const rules = gherkin.rules.filter(rule => rule.name).map(rule => {
+      const child = createFeature(file, rule.name, rule.line, [feature.name], feature);
+      if (rule.description) appendDescription(child, rule.description);
+      addCriteria(child, rule.scenarios);
+      return child;
+    });
+    return [feature, ...rules];
+  });
 }
 
 function extractUserFlows(content: string): string[] {
@@ -245,14 +515,132 @@ function detectPriority(text: string): 'high' | 'medium' | 'low' {
   return 'medium';
 }
 
+function readFrontMatter(data: Record<string, unknown>): DocumentMeta {
+  const meta: DocumentMeta = {};
+  const types = (Array.isArray(data['type']) ? data['type'] : [data['type']])
+    .filter((type): type is string => typeof type === 'string')
+    .map(type => type.trim().toLowerCase().replace(/[\s_]+/g, '-'))
+    .map(type => DOCUMENT_TYPE_ALIASES[type] ?? type)
+    .filter((type): type is DocumentType => (DOCUMENT_TYPES as readonly string[]).includes(type));
+  if (types.length > 0) {
+    meta.types = [...new Set(types)];
+  }
+  
+  const priority = typeof data['priority'] === 'string' || typeof data['priority'] === 'number'
+    ? String(data['priority']).trim().toLowerCase()
+    : '';
+  if (priority) {
+    meta.priority = /^(high|medium|low)$/.test(priority)
+      ? priority as ExtractedFeature['priority']
+      : detectPriority(/^\d$/.test(priority) ? `p${priority}` : priority);
+  }
+  
+  const status = typeof data['status'] === 'string' ? parseStatus(data['status']) : undefined;
+  if (status) {
+    meta.status = status;
+  }
+  if (typeof data['owner'] === 'string' && data['owner'].trim()) {
+    meta.owner = data['owner'].trim();
+  }
+  
+  const featureId = data['feature-id'] ?? data['featureId'] ?? data['feature_id'];
+  if ((typeof featureId === 'string' && featureId.trim()) || typeof featureId === 'number') {
+    meta.featureId = String(featureId).trim();
+  }
+  
+  return meta;
+}
+
+// Guesses from the words of a file name, so inspect.md isn't taken for a spec
+function documentTypes(filename: string): DocumentType[] {
+  const words = filename.replace(/\.[^.]+$/, '').split(/[^a-z0-9]+/);
+  const types: DocumentType[] = [];
+  if (words.includes('prd') || /product-?requirement/.test(filename)) {
+    types.push('prd');
+  }
+  if (/user-?stor/.test(filename) || words.some(word => /^stor(y|ies)$/.test(word))) {
+    types.push('user-stories');
+  }
+  if (words.some(word => /^(technical|specs?|specifications?)$/.test(word))) {
+    types.push('spec');
+  }
+  if (words.some(word => /^(flows?|journeys?)$/.test(word))) {
+    types.push('flow');
+  }
+  // Requirements documents at large tend to carry the data model too
+  if (/data-?models?/.test(filename) || words.some(word => /^(models?|schemas?|entity|entities|database|erd|requirements?)$/.test(word))) {
+    types.push('data-model');
+  }
+  return types;
+}
+
+// `docs/data-model/users.md` or `schema/orders.md`; a `models/` folder is as likely to hold code docs
+function inDataModelFolder(file: string): boolean {
+  return path.dirname(file).toLowerCase().split('/').some(folder => /^(data-?models?|schemas?|entities|erd)$/.test(folder));
+}
+
+// Front matter priority overrides the one guessed from keywords; an item's own status beats the document's
+function applyFrontMatter(features: ExtractedFeature[], file: string, meta: DocumentMeta): ExtractedFeature[] {
+  // `feature-id` keeps ids stable when the document moves
+  const rename = (id: string) => meta.featureId && id.startsWith(`${file}#`)
+    ? `${meta.featureId}#${id.slice(file.length + 1)}`
+    : id;
+  
+  features.forEach(feature => {
+    if (feature.id) feature.id = rename(feature.id);
+    if (feature.parent) feature.parent = rename(feature.parent);
+    if (meta.priority) feature.priority = meta.priority;
+    if (meta.status && !feature.status) feature.status = meta.status;
+    if (meta.owner) feature.owner = meta.owner;
+  });
+  return features;
+}
+
+// A document's `feature-id` names a feature's id, its name, or the `feature-id` of the document defining it
+function linkDocuments(features: ExtractedFeature[], documents: Array<{ file: string; featureId: string }>): void {
+  for (const { file, featureId } of documents) {
+    const id = featureId.toLowerCase();
+    const named = features.filter(feature => feature.id?.toLowerCase() === id || slugify(feature.name) === slugify(featureId));
+    const matches = named.length > 0
+      ? named
+      : features.filter(feature => !feature.parent && feature.id?.toLowerCase().startsWith(`${id}#`));
+    matches.forEach(feature => {
+      feature.documents = [...(feature.documents ?? []), file];
+    });
+  }
+}
+
+// Same name under the same parent is the same feature; sub-features follow the one kept
 function deduplicateFeatures(features: ExtractedFeature[]): ExtractedFeature[] {
-  const seen = new Set<string>();
+  const kept = new Map<string, ExtractedFeature>();
+  const replaced = new Map<string, string>();
+  
   return features.filter(feature => {
-    const key = feature.name.toLowerCase();
-    if (seen.has(key)) {
+    if (feature.parent) {
+      feature.parent = replaced.get(feature.parent) ?? feature.parent;
+    }
+    
+    const key = `${feature.parent ?? ''}\n${feature.name.toLowerCase()}`;
+    const existing = kept.get(key);
+    if (existing) {
+      addCriteria(existing, feature.acceptanceCriteria ?? []);
+      if (feature.id && existing.id) {
+        replaced.set(feature.id, existing.id);
+      }
       return false;
     }
-    seen.add(key);
+    kept.set(key, feature);
     return true;
   });
-}
\ No newline at end of file
+}
+
+function linkChildren(features: ExtractedFeature[]): ExtractedFeature[] {
+  const byId = new Map(features.flatMap(feature => feature.id ? [[feature.id, feature] as const] : []));
+  features.forEach(feature => {
+    const parent = feature.parent ? byId.get(feature.parent) : undefined;
+    if (parent && feature.id) {
+      parent.children = [...(parent.children ?? []), feature.id];
+    }
+  });
+  return features;
+}
@@ -0,0 +1,151 @@
+import type * as t from '@babel/types';
+import { getAst, propertyKeyName, stringValue, walk } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { ComponentInfo, RouteInfo } from '../types';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Objects that conventionally own routes in Express, Koa, Fastify and friends
+const ROUTER_OBJECT = /^(app|server|api|router|routes|fastify)$|(Router|router|App)$/;
+
+export async function findRoutes(
+  inventory: FileInventory,
+  pages: string[],
+  apis: string[],
+  components: ComponentInfo[]
+): Promise<RouteInfo[]> {
+  const routes: RouteInfo[] = [];
+  
+  for (const file of pages) {
+    const routePath = fileRoutePath(file);
+    if (!routePath) continue;
+    
+    const route: RouteInfo = { path: routePath, file, kind: 'page', methods: ['GET'] };
+    const component = components.find(c => c.file === file && c.exportType === 'default');
+    if (component) {
+      route.component = component.name;
+    }
+    routes.push(route);
+  }
+  
+  for (const file of apis) {
+    const ast = await getAst(inventory, file);
+    
+    // Explicit app.get('/path') registrations win over file-based routing
+    const registered = ast ? findRegisteredRoutes(file, ast) : [];
+    if (registered.length > 0) {
+      routes.push(...registered);
+      continue;
+    }
+    
+    const routePath = fileRoutePath(file);
+    if (!routePath) continue;
+    
+    routes.push({
+      path: routePath,
+      file,
+      kind: 'api',
+      methods: ast ? handlerMethods(file, ast) : [],
+    });
+  }
+  
+  return routes.sort((a, b) => a.path.localeCompare(b.path) || a.file.localeCompare(b.file));
+}
+
+// File-system routing as used by Next.js, Nuxt and Gatsby
+export function fileRoutePath(file: string): string | undefined {
+  const match = file.match(/^(?:.*\/)?(?:src\/)?(pages|app)\/(.+)$/);
+  if (!match?.[1] || !match[2]) return undefined;
+  
+  const segments = match[2].split('/');
+  const last = segments.pop() ?? '';
+  const name = last.replace(/\.[^.]+$/, '');
+  
+  if (match[1] === 'app') {
+    // App router: only page/route files are served, route groups and slots don't appear in the URL
+    if (name !== 'page' && name !== 'route') return undefined;
+    if (segments.some(segment => segment.startsWith('_'))) return undefined;
+    const visible = segments.filter(segment => !/^\(.*\)$/.test(segment) && !segment.startsWith('@'));
+    return `/${visible.join('/')}`;
+  }
+  
+  // Pages router: _app, _document and friends are not routes
+  if ([...segments, name].some(segment => segment.startsWith('_'))) return undefined;
+  if (name !== 'index') segments.push(name);
+  return `/${segments.join('/')}`;
+}
+
+function findRegisteredRoutes(file: string, ast: t.File): RouteInfo[] {
+  const routes: RouteInfo[] = [];
+  
+  walk(ast.program, node => {
+    if (node.type !== 'CallExpression' || node.callee.type !== 'MemberExpression') return;
+    
+    const method = propertyKeyName(node.callee.property)?.toUpperCase();
+    if (!method || (method !== 'ALL' && !HTTP_METHODS.includes(method))) return;
+    
+    // router.get('/users', handler) or router.route('/users').get(handler).put(handler)
+    let owner = node.callee.object;
+    while (owner.type === 'CallExpression' && owner.callee.type === 'MemberExpression'
+      && propertyKeyName(owner.callee.property) !== 'route') {
+      owner = owner.callee.object;
+    }
+    let routePath: string | undefined;
+    if (owner.type === 'Identifier' && ROUTER_OBJECT.test(owner.name) && node.arguments.length > 1) {
+      routePath = stringValue(node.arguments[0]);
+    } else if (owner.type === 'CallExpression' && owner.callee.type === 'MemberExpression'
+      && propertyKeyName(owner.callee.property) === 'route') {
+      routePath = stringValue(owner.arguments[0]);
+    }
+    if (!routePath?.startsWith('/')) return;
+    
+    routes.push({
+      path: routePath,
+      file,
+      kind: 'api',
+      methods: method === 'ALL' ? [] : [method],
+    });
+  });
+  
+  return routes;
+}
+
+function handlerMethods(file: string, ast: t.File): string[] {
+  const methods = new Set<string>();
+  
+  // App router route handlers export one function per method
+  if (/(^|\/)route\.[^/]+$/.test(file)) {
+    for (const statement of ast.program.body) {
+      if (statement.type !== 'ExportNamedDeclaration') continue;
+      const declaration = statement.declaration;
+      const names = declaration?.type === 'FunctionDeclaration' && declaration.id
+        ? [declaration.id.name]
+        : declaration?.type === 'VariableDeclaration'
+          ? declaration.declarations.flatMap(d => (d.id.type === 'Identifier' ? [d.id.name] : []))
+          : statement.specifiers.flatMap(s => propertyKeyName(s.exported) ?? []);
+      names.filter(name => HTTP_METHODS.includes(name)).forEach(name => methods.add(name));
+    }
+    return [...methods];
+  }
+  
+  // Pages API handlers branch on req.method
+  walk(ast.program, node => {
+    if (node.type === 'BinaryExpression' && /^[!=]==?$/.test(node.operator)) {
+      if (isMethodAccess(node.left) || isMethodAccess(node.right)) {
+        const value = stringValue(node.left) ?? stringValue(node.right);
+        if (value && HTTP_METHODS.includes(value.toUpperCase())) methods.add(value.toUpperCase());
+      }
+    } else if (node.type === 'SwitchStatement' && isMethodAccess(node.discriminant)) {
+      for (const switchCase of node.cases) {
+        const value = stringValue(switchCase.test);
+        if (value && HTTP_METHODS.includes(value.toUpperCase())) methods.add(value.toUpperCase());
+      }
+    }
+  });
+  
+  return [...methods];
+}
+
+function isMethodAccess(node: t.Node): boolean {
+  return node.type === 'MemberExpression' && propertyKeyName(node.property) === 'method';
+}
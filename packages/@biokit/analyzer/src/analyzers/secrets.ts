@@ -0,0 +1,403 @@
+import type * as t from '@babel/types';
+import { calleeName, parseScript, propertyKeyName, stringValue, walk } from '../ast';
+import type { Gap, HardcodedValue } from '../types';
+
+// A hardcoded value with its raw text; only ever kept in memory
+export interface HardcodedMatch extends HardcodedValue {
+  file: string;
+  line: number;
+  value: string;
+  // Source range to replace; null when the file couldn't be parsed
+  start: number | null;
+  end: number | null;
+  // A JSX attribute value needs braces around the replacement
+  jsxAttribute: boolean;
+  // Default of an existing `process.env` lookup, which keeps its name
+  fallback: boolean;
+}
+
+interface ProviderPattern {
+  provider: string;
+  kind: HardcodedValue['kind'];
+  envVar: string;
+  pattern: RegExp;
+}
+
+// Most specific first: an Anthropic key would also match the OpenAI shape
+const PROVIDER_PATTERNS: ProviderPattern[] = [
+  { provider: 'AWS', kind: 'api-key', envVar: 'AWS_ACCESS_KEY_ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { provider: 'GitHub', kind: 'token', envVar: 'GITHUB_TOKEN', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/ },
+  { provider: 'Stripe', kind: 'api-key', envVar: 'STRIPE_SECRET_KEY', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/ },
+  { provider: 'Slack', kind: 'token', envVar: 'SLACK_TOKEN', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { provider: 'Google', kind: 'api-key', envVar: 'GOOGLE_API_KEY', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { provider: 'Anthropic', kind: 'api-key', envVar: 'ANTHROPIC_API_KEY', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { provider: 'OpenAI', kind: 'api-key', envVar: 'OPENAI_API_KEY', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { provider: 'SendGrid', kind: 'api-key', envVar: 'SENDGRID_API_KEY', pattern: /\bSG\.[\w-]{22}\.[\w-]{43}\b/ },
+  { provider: 'Twilio', kind: 'api-key', envVar: 'TWILIO_API_KEY', pattern: /\bSK[0-9a-fA-F]{32}\b/ },
+  { provider: 'JWT', kind: 'token', envVar: 'API_TOKEN', pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/ },
+];
+
+const PRIVATE_KEY = /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/;
+const CONNECTION_STRING = /^(postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver|clickhouse):\/\/\S+$/i;
+const CONNECTION_ENV: Record<string, string> = {
+  mongodb: 'MONGODB_URI',
+  'mongodb+srv': 'MONGODB_URI',
+  redis: 'REDIS_URL',
+  rediss: 'REDIS_URL',
+  amqp: 'AMQP_URL',
+  amqps: 'AMQP_URL',
+};
+const ABSOLUTE_URL = /^(?:https?|wss?):\/\/[^\s/?#]+[^\s]*$/i;
+const LOCAL_HOST = /^(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\])$/;
+
+// Names that say what a value is for
+const SECRET_NAME = /secret|token|passw(?:or)?d|pwd|api[_-]?key|apikey|access[_-]?key|private[_-]?key|auth[_-]?key|credential/i;
+const URL_NAME = /url|uri|endpoint|host|origin|base|api|server|domain|webhook/i;
+const GENERIC_URL_NAME = /^(?:url|uri|endpoint|host|origin|base|href|src|api|server)$/i;
+const SECRET_QUERY = /[?&](?:api[_-]?key|key|token|access_token|secret|sig|signature|password)=/i;
+
+// Calls whose string argument is an endpoint
+const URL_CALLEES = new Set(['fetch', 'get', 'post', 'put', 'patch', 'delete', 'request', 'WebSocket', 'EventSource', 'io', 'connect', 'createClient', 'ky', 'got', 'axios']);
+
+// Obvious placeholders aren't worth moving
+const PLACEHOLDER = /your|example|changeme|placeholder|xxxx|\*{3}|<[^>]+>|\.\.\./i;
+
+// Scan every source together so the same value gets the same variable everywhere
+export function findHardcodedValues(sources: Array<{ file: string; content: string }>): HardcodedMatch[] {
+  const reserved = new Set<string>();
+  const matches = sources.flatMap(({ file, content }) => {
+    const ast = /\.[cm]?[jt]sx?$/.test(file) ? parseScript(file, content) : null;
+    if (ast) envReferences(ast).forEach(name => reserved.add(name));
+    return scanHardcodedValues(file, content, ast);
+  });
+  return assignEnvNames(matches, reserved);
+}
+
+export function scanHardcodedValues(file: string, content: string, ast: t.File | null): HardcodedMatch[] {
+  return ast ? scanAst(file, ast) : scanText(file, content);
+}
+
+// Variables the code already reads, which a new value must not reuse
+export function envReferences(ast: t.File): string[] {
+  const names: string[] = [];
+  walk(ast.program, node => {
+    const name = envReference(node);
+    if (name) names.push(name);
+  });
+  return names;
+}
+
+// Give distinct values distinct names, in file order; repeated values share one
+export function assignEnvNames(matches: HardcodedMatch[], reserved: Set<string> = new Set()): HardcodedMatch[] {
+  const byValue = new Map<string, string>();
+  const taken = new Set(reserved);
+  const ordered = [...matches].sort((a, b) => a.file.localeCompare(b.file));
+  
+  // Fallbacks already have their variable
+  ordered.filter(match => match.fallback).forEach(match => byValue.set(match.value, match.envVar));
+  
+  return ordered.map(match => {
+    let envVar = byValue.get(match.value);
+    if (!envVar) {
+      envVar = match.envVar;
+      for (let suffix = 2; taken.has(envVar); suffix++) {
+        envVar = `${match.envVar}_${suffix}`;
+      }
+      taken.add(envVar);
+      byValue.set(match.value, envVar);
+    }
+    return { ...match, envVar };
+  });
+}
+
+export function toHardcodedGap(match: HardcodedMatch): Gap {
+  const { kind, provider, secret, envVar, preview } = match;
+  const label = [provider, KIND_LABELS[kind]].filter(Boolean).join(' ');
+  const hardcoded: HardcodedValue = { kind, secret, envVar, preview };
+  if (provider) {
+    hardcoded.provider = provider;
+  }
+  
+  return {
+    type: 'hardcoded',
+    file: match.file,
+    line: match.line,
+    description: `Hardcoded ${label} ${preview}; read it from process.env.${envVar}`,
+    priority: secret ? 'high' : 'medium',
+    hardcoded,
+  };
+}
+
+const KIND_LABELS: Record<HardcodedValue['kind'], string> = {
+  'api-key': 'API key',
+  'token': 'token',
+  'private-key': 'private key',
+  'password': 'password',
+  'secret': 'secret',
+  'connection-string': 'connection string',
+  'url': 'URL',
+};
+
+function scanAst(file: string, ast: t.File): HardcodedMatch[] {
+  const parents = new Map<t.Node, t.Node | null>();
+  const literals: Array<t.StringLiteral | t.TemplateLiteral> = [];
+  walk(ast.program, (node, parent) => {
+    parents.set(node, parent);
+    if (node.type === 'StringLiteral' || (node.type === 'TemplateLiteral' && node.expressions.length === 0)) {
+      literals.push(node);
+    }
+  });
+  
+  const matches: HardcodedMatch[] = [];
+  for (const literal of literals) {
+    const value = stringValue(literal);
+    const parent = parents.get(literal) ?? null;
+    if (!value || !parent || isNotAValue(literal, parent)) continue;
+    
+    const context = valueContext(literal, parents);
+    const classified = classify(value, context.name, context.callee);
+    if (!classified) continue;
+    
+    // `process.env.KEY || 'sk_live_…'`: the fallback is the leak, and the variable already has a name.
+    // A non-secret default (a local API URL) is already configurable and stays.
+    const fallback = parent.type === 'LogicalExpression' && parent.right === literal ? envReference(parent.left) : undefined;
+    if (fallback && !classified.secret) continue;
+    const target = fallback ? parent : literal;
+    
+    matches.push({
+      ...classified,
+      envVar: fallback ?? classified.envVar,
+      file,
+      line: literal.loc?.start.line ?? 0,
+      value,
+      start: target.start ?? null,
+      end: target.end ?? null,
+      jsxAttribute: parents.get(target)?.type === 'JSXAttribute',
+      fallback: !!fallback,
+    });
+  }
+  
+  return matches;
+}
+
+// Languages without a parser only get the unambiguous patterns
+function scanText(file: string, content: string): HardcodedMatch[] {
+  const matches: HardcodedMatch[] = [];
+  content.split('\n').forEach((line, index) => {
+    for (const quoted of line.matchAll(/(['"`])([^'"`\s]{8,})\1/g)) {
+      const value = quoted[2] ?? '';
+      const classified = classify(value, undefined, undefined);
+      if (classified && classified.kind !== 'url') {
+        matches.push({ ...classified, file, line: index + 1, value, start: null, end: null, jsxAttribute: false, fallback: false });
+      }
+    }
+  });
+  return matches;
+}
+
+type Classified = Pick<HardcodedMatch, 'kind' | 'secret' | 'envVar' | 'preview'> & { provider?: string };
+
+function classify(value: string, name: string | undefined, callee: string | undefined): Classified | undefined {
+  if (PLACEHOLDER.test(value)) return undefined;
+  
+  if (PRIVATE_KEY.test(value)) {
+    return { kind: 'private-key', secret: true, envVar: envName(name) ?? 'PRIVATE_KEY', preview: redactPrivateKey(value) };
+  }
+  
+  for (const { provider, kind, envVar, pattern } of PROVIDER_PATTERNS) {
+    const found = value.match(pattern)?.[0];
+    if (found) {
+      // A JWT's issuer is unknown, so the variable name is the better guide
+      return provider === 'JWT'
+        ? { kind, secret: true, envVar: envName(name) ?? envVar, preview: redact(found) }
+        : { kind, provider, secret: true, envVar, preview: redact(found) };
+    }
+  }
+  
+  const connection = value.match(CONNECTION_STRING);
+  if (connection) {
+    const scheme = (connection[1] ?? '').toLowerCase();
+    const url = parseUrl(value);
+    return {
+      kind: 'connection-string',
+      secret: !!url?.password,
+      envVar: CONNECTION_ENV[scheme] ?? 'DATABASE_URL',
+      preview: redactUrl(value),
+    };
+  }
+  
+  if (ABSOLUTE_URL.test(value)) {
+    const url = parseUrl(value);
+    if (!url) return undefined;
+    
+    const local = LOCAL_HOST.test(url.hostname);
+    const named = !!name && URL_NAME.test(name);
+    const called = !!callee && URL_CALLEES.has(callee);
+    if (!local && !named && !called) return undefined;
+    
+    const secret = !!url.password || SECRET_QUERY.test(value);
+    const specific = name && !GENERIC_URL_NAME.test(name) ? envName(name) : undefined;
+    return { kind: 'url', secret, envVar: specific ?? hostEnvName(url), preview: redactUrl(value) };
+  }
+  
+  if (/\s/.test(value) || value.startsWith('data:') || /^sha(?:256|384|512)-/.test(value)) return undefined;
+  
+  // A secret-sounding name with a value that isn't just a word
+  if (name && SECRET_NAME.test(name) && value.length >= 8 && !/^[a-z]+(?:[_.-][a-z]+)*$/i.test(value) && entropy(value) >= 3) {
+    const kind = /passw(?:or)?d|pwd/i.test(name) ? 'password' : /token/i.test(name) ? 'token' : 'secret';
+    return { kind, secret: true, envVar: envName(name) ?? 'SECRET_KEY', preview: redact(value) };
+  }
+  
+  // Long random-looking strings need no name; hex alone is too often a hash or ID
+  const mixed = /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value);
+  if (value.length >= 32 && mixed && /^[A-Za-z0-9+/_=.-]+$/.test(value) && entropy(value) >= 4.5) {
+    return { kind: 'secret', secret: true, envVar: envName(name) ?? 'SECRET_KEY', preview: redact(value) };
+  }
+  
+  return undefined;
+}
+
+// Strings that are syntax or references rather than data
+function isNotAValue(literal: t.Node, parent: t.Node): boolean {
+  switch (parent.type) {
+    case 'ImportDeclaration':
+    case 'ExportNamedDeclaration':
+    case 'ExportAllDeclaration':
+    case 'TSLiteralType':
+    case 'TSExternalModuleReference':
+    case 'TSImportType':
+    case 'TSModuleDeclaration':
+    case 'ImportExpression':
+      return true;
+    case 'ObjectProperty':
+    case 'ClassProperty':
+    case 'ObjectMethod':
+    case 'ClassMethod':
+    case 'TSPropertySignature':
+      return parent.key === literal;
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return parent.property === literal;
+    case 'CallExpression':
+      return parent.callee.type === 'Import' || calleeName(parent) === 'require';
+    default:
+      return false;
+  }
+}
+
+// The name the value is bound to and the call it's passed to, looking through wrappers
+function valueContext(
+  literal: t.Node,
+  parents: Map<t.Node, t.Node | null>
+): { name?: string; callee?: string } {
+  let node = literal;
+  let parent = parents.get(node) ?? null;
+  while (parent && ['LogicalExpression', 'ConditionalExpression', 'TSAsExpression', 'TSSatisfiesExpression', 'JSXExpressionContainer'].includes(parent.type)) {
+    node = parent;
+    parent = parents.get(node) ?? null;
+  }
+  if (!parent) return {};
+  
+  switch (parent.type) {
+    case 'VariableDeclarator':
+      return parent.id.type === 'Identifier' ? { name: parent.id.name } : {};
+    case 'ObjectProperty':
+    case 'ClassProperty':
+      return withName(propertyKeyName(parent.key));
+    case 'AssignmentExpression':
+      return withName(assignedName(parent.left));
+    case 'AssignmentPattern':
+      return parent.left.type === 'Identifier' ? { name: parent.left.name } : {};
+    case 'JSXAttribute':
+      return parent.name.type === 'JSXIdentifier' ? { name: parent.name.name } : {};
+    case 'CallExpression':
+    case 'NewExpression': {
+      const callee = parent.callee.type === 'Identifier'
+        ? parent.callee.name
+        : parent.callee.type === 'MemberExpression' && parent.callee.property.type === 'Identifier'
+          ? parent.callee.property.name
+          : undefined;
+      return callee ? { callee } : {};
+    }
+    default:
+      return {};
+  }
+}
+
+function withName(name: string | undefined): { name?: string } {
+  return name ? { name } : {};
+}
+
+function assignedName(left: t.Node): string | undefined {
+  if (left.type === 'Identifier') return left.name;
+  if (left.type === 'MemberExpression' && !left.computed) return propertyKeyName(left.property);
+  return undefined;
+}
+
+// `process.env.KEY` or `process.env['KEY']`
+function envReference(node: t.Node): string | undefined {
+  if (node.type !== 'MemberExpression') return undefined;
+  const object = node.object;
+  const isProcessEnv = object.type === 'MemberExpression'
+    && object.object.type === 'Identifier' && object.object.name === 'process'
+    && object.property.type === 'Identifier' && object.property.name === 'env';
+  if (!isProcessEnv) return undefined;
+  return node.computed ? stringValue(node.property) : propertyKeyName(node.property);
+}
+
+// apiBaseUrl -> API_BASE_URL
+function envName(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  const constant = name
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  return /^[A-Z]/.test(constant) ? constant : undefined;
+}
+
+// https://api.stripe.com/v1 -> STRIPE_API_URL; local servers are the app's own API
+function hostEnvName(url: URL): string {
+  if (LOCAL_HOST.test(url.hostname) || /^\d+(?:\.\d+){3}$/.test(url.hostname)) return 'API_URL';
+  const labels = url.hostname.split('.').filter(label => !['www', 'api'].includes(label));
+  const domain = labels.length > 1 ? labels[labels.length - 2] : labels[0];
+  return `${envName(domain) ?? 'API'}_${url.protocol.startsWith('ws') ? 'WS' : 'API'}_URL`;
+}
+
+function parseUrl(value: string): URL | undefined {
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function redact(value: string): string {
+  return `${value.slice(0, 4)}****… (${value.length} chars)`;
+}
+
+function redactPrivateKey(value: string): string {
+  return `${value.match(PRIVATE_KEY)?.[0] ?? 'PRIVATE KEY'} (${value.length} chars)`;
+}
+
+// Keep the shape of a URL but none of its credentials
+function redactUrl(value: string): string {
+  const redacted = value
+    .replace(/^([a-z+]+:\/\/[^:/@\s]+):[^@/\s]+@/i, '$1:****@')
+    .replace(/([?&](?:api[_-]?key|key|token|access_token|secret|sig|signature|password)=)[^&#\s]*/gi, '$1****');
+  return redacted.length > 80 ? `${redacted.slice(0, 77)}...` : redacted;
+}
+
+// Shannon entropy in bits per character
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  });
+  return bits;
+}
@@ -0,0 +1,238 @@
+import path from 'path';
+import { SCRIPT_PATTERN } from '../ast';
+import type { FileInventory } from '../inventory';
+import type { ExtractedFeature, Gap, TraceabilitySummary, TraceEvidence } from '../types';
+import type { CodebaseAnalysis } from './codebase';
+
+// `@feature user-management/invites`, `@feature "Password reset"`
+const FEATURE_TAG = /@feature\s+(?:"([^"]+)"|'([^']+)'|([^\s*]+))/g;
+const TEST_TITLE = /\b(?:describe|it|test)(?:\.\w+)?\(\s*(['"`])((?:\\.|(?!\1)[^\\\n])+)\1/g;
+// Gaps that keep a feature in progress however much of it exists
+const UNFINISHED: Gap['type'][] = ['todo', 'stub', 'mock', 'placeholder', 'incomplete'];
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'with', 'by', 'via', 'from', 'as', 'at',
+  'is', 'are', 'be', 'can', 'should', 'will', 'my', 'your', 'their', 'new', 'feature', 'page', 'screen',
+  'view', 'support', 'ability', 'basic', 'index', 'test', 'tests', 'spec',
+]);
+
+export interface TraceResult {
+  features: ExtractedFeature[];
+  summary: TraceabilitySummary;
+}
+
+interface Candidate {
+  evidence: TraceEvidence;
+  words: string[];
+}
+
+// Features matched to the pages, components, routes and tests implementing them, with a status
+// inferred from that evidence wherever the documents don't state one
+export async function traceFeatures(
+  inventory: FileInventory,
+  features: ExtractedFeature[],
+  codeAnalysis: CodebaseAnalysis,
+  gaps: Gap[]
+): Promise<TraceResult> {
+  const candidates = await findCandidates(inventory, codeAnalysis);
+  const tags = await findTags(inventory, codeAnalysis);
+  const matchedTags = new Set<TraceEvidence>();
+  
+  // Step 1: Collect evidence per feature, explicit tags first
+  const traced = features.map(feature => {
+    const evidence: TraceEvidence[] = [];
+    for (const tag of tags) {
+      if (tagMatches(tag.match, feature)) {
+        evidence.push(tag);
+        matchedTags.add(tag);
+      }
+    }
+    
+    const keywords = featureWords(feature.name).slice(0, 4);
+    const needed = Math.floor(keywords.length / 2) + 1;
+    for (const candidate of candidates) {
+      const hits = keywords.filter(keyword => candidate.words.some(word => wordsMatch(keyword, word))).length;
+      if (keywords.length > 0 && hits >= needed && !evidence.some(item => sameEvidence(item, candidate.evidence))) {
+        evidence.push(candidate.evidence);
+      }
+    }
+    
+    const result: ExtractedFeature = { ...feature };
+    if (evidence.length > 0) result.evidence = evidence;
+    return result;
+  });
+  
+  // Step 2: Infer statuses, leaves from their evidence and parents from their children
+  const hasTests = codeAnalysis.tests.length > 0;
+  const byId = new Map(traced.flatMap(feature => feature.id ? [[feature.id, feature] as const] : []));
+  const resolving = new Set<ExtractedFeature>();
+  const resolve = (feature: ExtractedFeature): NonNullable<ExtractedFeature['status']> => {
+    if (feature.status) {
+      feature.statusSource ??= 'document';
+      return feature.status;
+    }
+    resolving.add(feature);
+    const children = (feature.children ?? [])
+      .map(id => byId.get(id))
+      .filter((child): child is ExtractedFeature => child !== undefined && !resolving.has(child));
+    const status = children.length > 0
+      ? combineStatuses(children.map(resolve))
+      : evidenceStatus(feature.evidence ?? [], gaps, hasTests);
+    resolving.delete(feature);
+    
+    feature.status = status;
+    feature.statusSource = 'code';
+    return status;
+  };
+  traced.forEach(resolve);
+  
+  // Step 3: Count leaf features only, so a parent isn't counted alongside its children
+  const leaves = traced.filter(feature => !feature.children?.some(id => byId.has(id)));
+  return {
+    features: traced,
+    summary: {
+      completed: leaves.filter(feature => feature.status === 'completed').length,
+      inProgress: leaves.filter(feature => feature.status === 'in-progress').length,
+      planned: leaves.filter(feature => feature.status === 'planned').length,
+      unmatchedTags: tags.filter(tag => !matchedTags.has(tag)),
+    },
+  };
+}
+
+// Implemented and, when the project has tests at all, tested, with nothing left unfinished
+function evidenceStatus(evidence: TraceEvidence[], gaps: Gap[], hasTests: boolean): NonNullable<ExtractedFeature['status']> {
+  const implementation = new Set(evidence.filter(item => item.kind !== 'test').map(item => item.file));
+  if (implementation.size === 0) {
+    return evidence.length > 0 ? 'in-progress' : 'planned';
+  }
+  
+  const tested = evidence.some(item => item.kind === 'test');
+  const unfinished = gaps.some(gap => UNFINISHED.includes(gap.type) && implementation.has(gap.file));
+  return (tested || !hasTests) && !unfinished ? 'completed' : 'in-progress';
+}
+
+function combineStatuses(statuses: NonNullable<ExtractedFeature['status']>[]): NonNullable<ExtractedFeature['status']> {
+  if (statuses.every(status => status === 'completed')) return 'completed';
+  if (statuses.every(status => status === 'planned')) return 'planned';
+  return 'in-progress';
+}
+
+// Route paths, component names, test file names and test titles, each split into words
+async function findCandidates(inventory: FileInventory, codeAnalysis: CodebaseAnalysis): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  
+  for (const route of codeAnalysis.routes) {
+    const segments = route.path
+      .split('/')
+      .filter(segment => segment && !/^[[{:(]|^\*/.test(segment));
+    const words = splitWords((route.kind === 'api' && segments[0] === 'api' ? segments.slice(1) : segments).join(' '));
+    if (words.length === 0) continue;
+    candidates.push({
+      evidence: { kind: route.kind === 'page' ? 'page' : 'route', file: route.file, match: route.path, via: 'route' },
+      words,
+    });
+  }
+  
+  for (const component of codeAnalysis.componentDetails) {
+    candidates.push({
+      evidence: { kind: 'component', file: component.file, line: component.line, match: component.name, via: 'name' },
+      words: splitWords(component.name),
+    });
+  }
+  
+  for (const file of codeAnalysis.tests) {
+    const name = path.basename(file).replace(/(\.(test|spec))?\.[^.]+$/, '');
+    candidates.push({
+      evidence: { kind: 'test', file, match: path.basename(file), via: 'name' },
+      words: splitWords(name),
+    });
+    
+    const content = await inventory.read(file).catch(() => '');
+    for (const title of content.matchAll(TEST_TITLE)) {
+      if (!title[2] || title.index === undefined) continue;
+      candidates.push({
+        evidence: { kind: 'test', file, line: lineAt(content, title.index), match: title[2], via: 'test-title' },
+        words: splitWords(title[2]),
+      });
+    }
+  }
+  
+  return candidates;
+}
+
+// `@feature` tags in comments, attributed to the kind of file they're in
+async function findTags(inventory: FileInventory, codeAnalysis: CodebaseAnalysis): Promise<TraceEvidence[]> {
+  const tests = new Set(codeAnalysis.tests);
+  const components = new Set(codeAnalysis.components);
+  const routes = new Map(codeAnalysis.routes.map(route => [route.file, route.kind]));
+  const tags: TraceEvidence[] = [];
+  
+  for (const file of inventory.paths(SCRIPT_PATTERN, ['**/*.d.ts'])) {
+    const content = await inventory.read(file).catch(() => '');
+    if (!content.includes('@feature')) continue;
+    
+    const route = routes.get(file);
+    const kind: TraceEvidence['kind'] = tests.has(file)
+      ? 'test'
+      : route === 'page' ? 'page' : route === 'api' ? 'route' : components.has(file) ? 'component' : 'code';
+    for (const tag of content.matchAll(FEATURE_TAG)) {
+      const value = tag[1] ?? tag[2] ?? tag[3];
+      if (!value || tag.index === undefined) continue;
+      tags.push({ kind, file, line: lineAt(content, tag.index), match: value, via: 'tag' });
+    }
+  }
+  
+  return tags;
+}
+
+// A tag names a feature by its id, the id without the document, or the feature's name
+function tagMatches(tag: string, feature: ExtractedFeature): boolean {
+  const value = tag.toLowerCase();
+  if (slugify(value) && slugify(value) === slugify(feature.name)) return true;
+  if (!feature.id) return false;
+  
+  const id = feature.id.toLowerCase();
+  const anchor = id.split('#')[1];
+  return value === id || value === anchor || value === anchor?.split('/').pop();
+}
+
+function featureWords(name: string): string[] {
+  return splitWords(name).filter(word => !STOPWORDS.has(word));
+}
+
+// `UserProfileCard`, `/user-profile` and "User profiles" all give user, profile(, card)
+export function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Equal, or one abbreviating the other, e.g. auth and authentication
+export function wordsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 4 && longer.startsWith(shorter);
+}
+
+function sameEvidence(a: TraceEvidence, b: TraceEvidence): boolean {
+  return a.kind === b.kind && a.file === b.file && a.line === b.line;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
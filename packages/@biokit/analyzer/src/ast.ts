@@ -0,0 +1,121 @@
+import { parse } from '@babel/parser';
+import type { ParserPlugin } from '@babel/parser';
+import { VISITOR_KEYS } from '@babel/types';
+import type * as t from '@babel/types';
+import type { FileInventory } from './inventory';
+
+export const SCRIPT_PATTERN = '**/*.{js,jsx,ts,tsx,mjs,cjs,mts,cts}';
+
+// Anything bigger is almost certainly generated or bundled
+const MAX_PARSE_SIZE = 512 * 1024;
+
+// Keyed by inventory so every analyzer in one run shares the parsed trees
+const astCache = new WeakMap<FileInventory, Map<string, Promise<t.File | null>>>();
+
+export function parseScript(file: string, code: string): t.File | null {
+  const plugins: ParserPlugin[] = ['decorators-legacy'];
+  
+  // JSX and TypeScript angle-bracket casts conflict, so only enable JSX where it can appear
+  if (/\.[cm]?tsx?$/.test(file)) {
+    plugins.push('typescript');
+    if (file.endsWith('.tsx')) plugins.push('jsx');
+  } else {
+    plugins.push('jsx');
+  }
+  
+  try {
+    return parse(code, {
+      sourceType: 'unambiguous',
+      errorRecovery: true,
+      allowReturnOutsideFunction: true,
+      plugins,
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Parse a file from the inventory; unparseable files resolve to null
+export function getAst(inventory: FileInventory, file: string): Promise<t.File | null> {
+  let files = astCache.get(inventory);
+  if (!files) {
+    files = new Map();
+    astCache.set(inventory, files);
+  }
+  
+  let ast = files.get(file);
+  if (!ast && (inventory.get(file)?.size ?? 0) > MAX_PARSE_SIZE) {
+    ast = Promise.resolve(null);
+    files.set(file, ast);
+  }
+  if (!ast) {
+    ast = inventory.read(file)
+      .then(code => parseScript(file, code))
+      .catch(() => null);
+    files.set(file, ast);
+  }
+  return ast;
+}
+
+// Depth-first walk; returning false from the visitor skips the node's children
+export function walk(
+  node: t.Node,
+  visit: (node: t.Node, parent: t.Node | null) => boolean | void,
+  parent: t.Node | null = null
+): void {
+  if (visit(node, parent) === false) return;
+  
+  const fields = node as unknown as Record<string, unknown>;
+  for (const key of VISITOR_KEYS[node.type] || []) {
+    const child = fields[key];
+    if (Array.isArray(child)) {
+      for (const item of child) {
+        if (isNode(item)) walk(item, visit, node);
+      }
+    } else if (isNode(child)) {
+      walk(child, visit, node);
+    }
+  }
+}
+
+export function isNode(value: unknown): value is t.Node {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+export function isFunctionNode(node: t.Node): node is t.Function {
+  return node.type === 'FunctionDeclaration'
+    || node.type === 'FunctionExpression'
+    || node.type === 'ArrowFunctionExpression'
+    || node.type === 'ObjectMethod'
+    || node.type === 'ClassMethod'
+    || node.type === 'ClassPrivateMethod';
+}
+
+// Name of a called function: `foo()` -> foo, `React.memo()` -> memo
+export function calleeName(node: t.Node): string | undefined {
+  if (node.type !== 'CallExpression') return undefined;
+  const callee = node.callee;
+  if (callee.type === 'Identifier') return callee.name;
+  if (callee.type === 'MemberExpression' && callee.property.type === 'Identifier') {
+    return callee.property.name;
+  }
+  return undefined;
+}
+
+export function stringValue(node: t.Node | null | undefined): string | undefined {
+  if (!node) return undefined;
+  if (node.type === 'StringLiteral') return node.value;
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? undefined;
+  }
+  return undefined;
+}
+
+export function propertyKeyName(node: t.Node): string | undefined {
+  if (node.type === 'Identifier') return node.name;
+  return stringValue(node);
+}
+
+export function lineOf(node: t.Node): number {
+  return node.loc?.start.line ?? 0;
+}
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import type { RepoSource } from './types';
+
+// Bump whenever analyzer output changes so stale entries are never reused
+export const ANALYZER_VERSION = '0.1.19';
+
+export interface CacheEntryMeta {
+  key: string;
+  kind: RepoSource['kind'];
+  location: string;
+  ref?: string;
+  path?: string;
+  package?: string;
+  revision: string;
+  analyzerVersion: string;
+  createdAt: string;
+}
+
+export interface CacheEntry {
+  dir: string;
+  meta: CacheEntryMeta;
+}
+
+export interface CacheEntryInfo extends CacheEntryMeta {
+  dir: string;
+  size: number;
+}
+
+export function getCacheDir(): string {
+  if (process.env['BIOKIT_CACHE_DIR']) {
+    return process.env['BIOKIT_CACHE_DIR'];
+  }
+  
+  const cacheHome = process.env['XDG_CACHE_HOME'] || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'biokit-builder');
+}
+
+// `inputs` are fingerprints of anything outside the source that changes the result
+export function openCacheEntry(source: RepoSource, revision: string, inputs: string[] = []): CacheEntry {
+  const location = normalizeLocation(source);
+  const key = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([location, source.path ?? '', source.package ?? '', revision, ANALYZER_VERSION, ...inputs]))
+    .digest('hex')
+    .slice(0, 24);
+  
+  const meta: CacheEntryMeta = {
+    key,
+    kind: source.kind,
+    location,
+    revision,
+    analyzerVersion: ANALYZER_VERSION,
+    createdAt: new Date().toISOString(),
+  };
+  if (source.ref) meta.ref = source.ref;
+  if (source.path) meta.path = source.path;
+  if (source.package) meta.package = source.package;
+  
+  return { dir: path.join(getCacheDir(), key), meta };
+}
+
+export async function readCached<T>(entry: CacheEntry, name: string): Promise<T | undefined> {
+  const filePath = path.join(entry.dir, `${name}.json`);
+  if (!(await fs.pathExists(filePath))) {
+    return undefined;
+  }
+  
+  // A corrupt entry is just a cache miss
+  return fs.readJson(filePath).catch(() => undefined);
+}
+
+export async function writeCached<T>(entry: CacheEntry, name: string, value: T): Promise<void> {
+  const metaPath = path.join(entry.dir, 'meta.json');
+  
+  if (!(await fs.pathExists(metaPath))) {
+    await pruneSuperseded(entry.meta);
+    await fs.ensureDir(entry.dir);
+    await fs.writeJson(metaPath, entry.meta, { spaces: 2 });
+  }
+  
+  await fs.writeJson(path.join(entry.dir, `${name}.json`), value);
+}
+
+// Reuse a per-analyzer result for this revision, or compute and store it
+export async function cached<T>(
+  entry: CacheEntry | null,
+  name: string,
+  compute: () => Promise<T>
+): Promise<T> {
+  if (!entry) {
+    return compute();
+  }
+  
+  const hit = await readCached<T>(entry, name);
+  if (hit !== undefined) {
+    return hit;
+  }
+  
+  const value = await compute();
+  await writeCached(entry, name, value);
+  return value;
+}
+
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const cacheDir = getCacheDir();
+  if (!(await fs.pathExists(cacheDir))) {
+    return [];
+  }
+  
+  const entries: CacheEntryInfo[] = [];
+  
+  for (const key of await fs.readdir(cacheDir)) {
+    const dir = path.join(cacheDir, key);
+    const meta: CacheEntryMeta | null = await fs
+      .readJson(path.join(dir, 'meta.json'))
+      .catch(() => null);
+    
+    if (meta) {
+      entries.push({ ...meta, dir, size: await directorySize(dir) });
+    }
+  }
+  
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function clearCache(location?: string): Promise<number> {
+  const entries = await listCacheEntries();
+  
+  if (!location) {
+    await fs.remove(getCacheDir());
+    return entries.length;
+  }
+  
+  const targets = entries.filter(
+    entry => entry.location === normalizeLocation({ kind: entry.kind, location })
+  );
+  for (const entry of targets) {
+    await fs.remove(entry.dir);
+  }
+  
+  return targets.length;
+}
+
+// A new revision of the same source/ref/path/package invalidates the older entries
+async function pruneSuperseded(meta: CacheEntryMeta): Promise<void> {
+  const entries = await listCacheEntries();
+  
+  for (const entry of entries) {
+    if (
+      entry.key !== meta.key &&
+      entry.location === meta.location &&
+      entry.ref === meta.ref &&
+      entry.path === meta.path &&
+      entry.package === meta.package
+    ) {
+      await fs.remove(entry.dir);
+    }
+  }
+}
+
+function normalizeLocation(source: Pick<RepoSource, 'kind' | 'location'>): string {
+  if (source.kind === 'git') {
+    return source.location.replace(/\/+$/, '').replace(/\.git$/, '');
+  }
+  return path.resolve(source.location);
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const file of await fs.readdir(dir)) {
+    size += (await fs.stat(path.join(dir, file))).size;
+  }
+  return size;
+}
@@ -1,10 +1,11 @@
-import type { RepoType } from './types';
+import type { RepoType, TraceabilitySummary } from './types';
 import type { CodebaseAnalysis } from './analyzers/codebase';
 
 export function classifyRepository(
   hasCode: boolean,
   hasDocs: boolean,
-  codeAnalysis: CodebaseAnalysis | null
+  codeAnalysis: CodebaseAnalysis | null,
+  traceability?: TraceabilitySummary
 ): RepoType {
   // No code, only requirements
   if (!hasCode && hasDocs) {
@@ -18,10 +19,23 @@ export function classifyRepository(
   
   // Has both code and docs
   if (hasCode && hasDocs) {
+    // Features traced to the code tell how far the implementation got; with none traced,
+    // names may just not line up, so fall back to the size of the codebase
+    const implemented = traceability ? traceability.completed + traceability.inProgress : 0;
+    if (traceability && implemented > 0) {
+      // Working features with more still to build on top
+      if (traceability.planned > 0) {
+        return 'hybrid';
+      }
+      
+      return traceability.inProgress > 0 ? 'partial-implementation' : 'existing-app';
+    }
+    
     if (codeAnalysis) {
-      // Check completeness of implementation
-      const hasComponents = codeAnalysis.components.length > 0;
-      const hasPages = codeAnalysis.pages.length > 0;
+      // Check completeness of implementation; a server app's routes are its pages
+      const isBackend = codeAnalysis.framework.category === 'backend';
+      const hasComponents = isBackend || codeAnalysis.components.length > 0;
+      const hasPages = isBackend ? codeAnalysis.routes.length > 0 : codeAnalysis.pages.length > 0;
       const hasTests = codeAnalysis.tests.length > 0;
       
       // If missing major pieces, it's partial
@@ -30,7 +44,8 @@ export function classifyRepository(
       }
       
       // If has tests and substantial code, it's an existing app
-      if (hasTests && codeAnalysis.components.length > 5) {
+      const size = isBackend ? codeAnalysis.routes.length : codeAnalysis.components.length;
+      if (hasTests && size > 5) {
         return 'existing-app';
       }
       
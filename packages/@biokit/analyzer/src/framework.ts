@@ -0,0 +1,221 @@
+import type { FileInventory } from './inventory';
+import type { FrameworkId, FrameworkInfo } from './types';
+
+type Dependencies = Record<string, string>;
+
+interface PackageManifest {
+  dependencies?: Dependencies;
+  devDependencies?: Dependencies;
+  scripts?: Record<string, string>;
+}
+
+interface FrameworkRule {
+  id: FrameworkId;
+  name: string;
+  category: FrameworkInfo['category'];
+  // Package whose version is reported as the framework version
+  versionFrom?: string;
+  matches(deps: Dependencies, inventory: FileInventory): boolean;
+}
+
+// Most specific first: meta-frameworks before the libraries they build on
+const FRAMEWORK_RULES: FrameworkRule[] = [
+  { id: 'nextjs', name: 'Next.js', category: 'fullstack', versionFrom: 'next', matches: deps => !!deps['next'] },
+  {
+    id: 'remix',
+    name: 'Remix',
+    category: 'fullstack',
+    versionFrom: '@remix-run/react',
+    matches: deps => !!deps['@remix-run/react'],
+  },
+  { id: 'gatsby', name: 'Gatsby', category: 'frontend', versionFrom: 'gatsby', matches: deps => !!deps['gatsby'] },
+  {
+    id: 'create-react-app',
+    name: 'Create React App',
+    category: 'frontend',
+    versionFrom: 'react-scripts',
+    matches: deps => !!deps['react'] && !!deps['react-scripts'],
+  },
+  {
+    id: 'vite-react',
+    name: 'Vite + React',
+    category: 'frontend',
+    versionFrom: 'vite',
+    matches: deps => !!deps['react'] && !!deps['vite'],
+  },
+  { id: 'react', name: 'React', category: 'frontend', versionFrom: 'react', matches: deps => !!deps['react'] },
+  { id: 'nuxt', name: 'Nuxt', category: 'fullstack', versionFrom: 'nuxt', matches: deps => !!deps['nuxt'] },
+  { id: 'vue', name: 'Vue', category: 'frontend', versionFrom: 'vue', matches: deps => !!deps['vue'] },
+  {
+    id: 'sveltekit',
+    name: 'SvelteKit',
+    category: 'fullstack',
+    versionFrom: '@sveltejs/kit',
+    matches: deps => !!deps['@sveltejs/kit'],
+  },
+  { id: 'svelte', name: 'Svelte', category: 'frontend', versionFrom: 'svelte', matches: deps => !!deps['svelte'] },
+  {
+    id: 'angular',
+    name: 'Angular',
+    category: 'frontend',
+    versionFrom: '@angular/core',
+    matches: deps => !!deps['@angular/core'],
+  },
+  { id: 'express', name: 'Express', category: 'backend', versionFrom: 'express', matches: deps => !!deps['express'] },
+  { id: 'fastify', name: 'Fastify', category: 'backend', versionFrom: 'fastify', matches: deps => !!deps['fastify'] },
+  { id: 'koa', name: 'Koa', category: 'backend', versionFrom: 'koa', matches: deps => !!deps['koa'] },
+  {
+    id: 'python',
+    name: 'Python',
+    category: 'backend',
+    matches: (_deps, inventory) => inventory.has('requirements.txt') || inventory.has('pyproject.toml'),
+  },
+];
+
+export const UNKNOWN_FRAMEWORK: FrameworkInfo = {
+  id: 'unknown',
+  name: 'Unknown',
+  category: 'unknown',
+  ssr: false,
+  ssg: false,
+};
+
+// The one place that decides which framework a codebase uses
+export async function detectFramework(
+  inventory: FileInventory,
+  packageJson: PackageManifest | null
+): Promise<FrameworkInfo> {
+  const deps: Dependencies = {
+    ...packageJson?.dependencies,
+    ...packageJson?.devDependencies,
+  };
+  
+  const rule = FRAMEWORK_RULES.find(candidate => candidate.matches(deps, inventory));
+  if (!rule) {
+    return { ...UNKNOWN_FRAMEWORK };
+  }
+  
+  const framework: FrameworkInfo = {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    ssr: false,
+    ssg: false,
+  };
+  
+  const version = rule.versionFrom ? majorVersion(deps[rule.versionFrom]) : undefined;
+  if (version !== undefined) {
+    framework.majorVersion = version;
+  }
+  
+  const reactVersion = majorVersion(deps['react']);
+  if (reactVersion !== undefined) {
+    framework.reactVersion = reactVersion;
+  }
+  
+  const bundler = detectBundler(rule.id, deps, inventory, packageJson?.scripts ?? {});
+  if (bundler) {
+    framework.bundler = bundler;
+  }
+  
+  if (rule.id === 'nextjs') {
+    const router = detectNextRouter(inventory);
+    if (router) {
+      framework.router = router;
+    }
+  }
+  
+  const rendering = await detectRendering(rule.id, deps, inventory);
+  framework.ssr = rendering.ssr;
+  framework.ssg = rendering.ssg;
+  
+  return framework;
+}
+
+// "Next.js 14 (app router, webpack, SSR + SSG, React 18)"
+export function formatFramework(framework: FrameworkInfo): string {
+  const name = framework.majorVersion !== undefined
+    ? `${framework.name} ${framework.majorVersion}`
+    : framework.name;
+  
+  const details: string[] = [];
+  if (framework.router) {
+    details.push(framework.router === 'both' ? 'pages + app router' : `${framework.router} router`);
+  }
+  if (framework.bundler) {
+    details.push(framework.bundler);
+  }
+  const rendering = [framework.ssr && 'SSR', framework.ssg && 'SSG'].filter(Boolean);
+  if (rendering.length > 0) {
+    details.push(rendering.join(' + '));
+  }
+  if (framework.reactVersion !== undefined && framework.id !== 'react') {
+    details.push(`React ${framework.reactVersion}`);
+  }
+  
+  return details.length > 0 ? `${name} (${details.join(', ')})` : name;
+}
+
+// Major version from a dependency range like ^14.1.0, ~5.2 or 18.x
+function majorVersion(range: string | undefined): number | undefined {
+  const match = range?.match(/(\d+)(?:\.[\dx*]+)*/);
+  return match?.[1] ? Number(match[1]) : undefined;
+}
+
+function detectNextRouter(inventory: FileInventory): FrameworkInfo['router'] {
+  const hasApp = inventory.paths('{src/,}app/**/{page,layout,route}.{js,jsx,ts,tsx}').length > 0;
+  const hasPages = inventory.paths('{src/,}pages/**/*.{js,jsx,ts,tsx}').length > 0;
+  
+  if (hasApp && hasPages) return 'both';
+  if (hasApp) return 'app';
+  if (hasPages) return 'pages';
+  return undefined;
+}
+
+function detectBundler(
+  id: FrameworkId,
+  deps: Dependencies,
+  inventory: FileInventory,
+  scripts: Record<string, string>
+): FrameworkInfo['bundler'] {
+  const scriptText = Object.values(scripts).join(' ');
+  
+  if (deps['vite'] || inventory.paths('vite.config.*').length > 0) return 'vite';
+  if (id === 'nextjs') return /--turbo/.test(scriptText) ? 'turbopack' : 'webpack';
+  if (id === 'create-react-app' || id === 'gatsby') return 'webpack';
+  if (deps['webpack'] || inventory.paths('webpack.config.*').length > 0) return 'webpack';
+  if (deps['parcel']) return 'parcel';
+  if (deps['rollup'] || inventory.paths('rollup.config.*').length > 0) return 'rollup';
+  if (deps['esbuild'] || id === 'remix') return 'esbuild';
+  return undefined;
+}
+
+async function detectRendering(
+  id: FrameworkId,
+  deps: Dependencies,
+  inventory: FileInventory
+): Promise<{ ssr: boolean; ssg: boolean }> {
+  switch (id) {
+    case 'nextjs': {
+      // `output: 'export'` turns a Next.js app into a purely static site
+      const configs = inventory.paths('next.config.{js,mjs,cjs,ts}');
+      const config = configs[0] ? await inventory.read(configs[0]) : '';
+      const staticExport = /output\s*:\s*['"]export['"]/.test(config);
+      return { ssr: !staticExport, ssg: true };
+    }
+    case 'gatsby':
+      return { ssr: false, ssg: true };
+    case 'remix':
+      return { ssr: true, ssg: false };
+    case 'nuxt':
+      return { ssr: true, ssg: true };
+    case 'sveltekit': {
+      const staticOnly = !!deps['@sveltejs/adapter-static'];
+      return { ssr: !staticOnly, ssg: true };
+    }
+    case 'angular':
+      return { ssr: !!(deps['@angular/ssr'] || deps['@nguniversal/express-engine']), ssg: false };
+    default:
+      return { ssr: false, ssg: false };
+  }
+}
@@ -1,72 +1,212 @@
-import simpleGit from 'simple-git';
-import { globby } from 'globby';
 import fs from 'fs-extra';
 import path from 'path';
-import os from 'os';
 import { analyzeCodebase } from './analyzers/codebase';
 import { analyzeRequirements } from './analyzers/requirements';
+import { API_SPEC_PATTERNS, checkApiCoverage } from './analyzers/api-specs';
 import { analyzeQuality } from './analyzers/quality';
+import { analyzeDependencies, loadAdvisoryDatabase } from './analyzers/dependencies';
+import type { AdvisoryDatabase } from './analyzers/dependencies';
 import { detectGaps } from './analyzers/gaps';
+import { applyGapIgnores, DEFAULT_GAP_BASELINE, diffGapBaseline, loadGapBaseline } from './analyzers/baseline';
+import { blameGaps, DEFAULT_STALE_DAYS, refreshGapAges } from './analyzers/ownership';
+import { auditAccessibility } from './analyzers/accessibility';
+import { analyzeDesignSystemUsage } from './analyzers/design-system';
+import { traceFeatures } from './analyzers/traceability';
+import { linkMockups, MOCKUP_PATTERNS } from './analyzers/mockups';
 import { classifyRepository } from './classifier';
 import { recommendImprovements } from './recommender';
-import type { RepoAnalysis, BiokitConfig } from './types';
+import { UNKNOWN_FRAMEWORK } from './framework';
+import { identifySource, resolveSource } from './sources';
+import { hashFile } from './sources/fingerprint';
+import { buildInventory, scopeInventory } from './inventory';
+import {
+  analyzeWorkspacePackages,
+  detectWorkspace,
+  findWorkspacePackage,
+  toPackageAnalysis,
+  workspacePackageManager,
+} from './monorepo';
+import { disposeWorkspace } from './workspace';
+import type { FileInventory } from './inventory';
+import { cached, openCacheEntry, readCached, writeCached } from './cache';
+import type { CacheEntry } from './cache';
+import type { RepoAnalysis, BiokitConfig, AnalyzeOptions } from './types';
 
-const git = simpleGit();
-
-export async function analyzeRepository(repoUrl: string): Promise<RepoAnalysis> {
-  // Create temp directory for cloning
-  const tempDir = path.join(os.tmpdir(), 'biokit-builder', Date.now().toString());
-  await fs.ensureDir(tempDir);
+export async function analyzeRepository(
+  repoUrl: string,
+  options: AnalyzeOptions = {}
+): Promise<RepoAnalysis> {
+  let tempDir: string | undefined;
+  const useCache = options.cache !== false;
   
   try {
-    // Clone repository
-    console.log(`Cloning repository: ${repoUrl}`);
-    await git.clone(repoUrl, tempDir, ['--depth', '1']);
+    // An advisory database from outside the repo changes the result for the same revision
+    let advisories: AdvisoryDatabase | null = options.advisoryDb
+      ? await loadAdvisoryDatabase(path.resolve(options.advisoryDb))
+      : null;
+    const cacheInputs = options.advisoryDb ? [await hashFile(path.resolve(options.advisoryDb))] : [];
+    
+    // So does a gap baseline, once it exists
+    if (options.baseline && await fs.pathExists(path.resolve(options.baseline))) {
+      cacheInputs.push(await hashFile(path.resolve(options.baseline)));
+    }
+    
+    // Blamed gaps carry more than the plain analysis of the same revision, and their
+    // recommendation depends on when a gap counts as stale
+    const staleDays = options.staleDays ?? DEFAULT_STALE_DAYS;
+    if (options.blame) {
+      cacheInputs.push('blame');
+      if (staleDays !== DEFAULT_STALE_DAYS) {
+        cacheInputs.push(`stale-days:${staleDays}`);
+      }
+    }
+    
+    // Look for a cached analysis of this exact revision before fetching anything
+    const identified = useCache ? await identifySource(repoUrl, options) : null;
+    let cacheEntry: CacheEntry | null = identified?.revision
+      ? openCacheEntry(identified.source, identified.revision, cacheInputs)
+      : null;
+    let cachedAnalysis = cacheEntry
+      ? await readCached<RepoAnalysis>(cacheEntry, 'analysis')
+      : undefined;
+    
+    // Local directories cost nothing to open, so they always get a localPath;
+    // everything else is checked out again on demand by acquireWorkspace()
+    if (cachedAnalysis && identified?.provider.temporary) {
+      return withFreshGapAges(cachedAnalysis);
+    }
+    
+    // Resolve git URL, local path, archive or bundle into a directory on disk
+    const { source, repoPath, commitSha, tempDir: createdDir } = await resolveSource(
+      repoUrl,
+      options
+    );
+    tempDir = createdDir;
+    
+    // Some revisions (e.g. abbreviated SHAs) are only known after cloning
+    if (useCache && !cacheEntry && commitSha) {
+      cacheEntry = openCacheEntry(source, commitSha, cacheInputs);
+      cachedAnalysis = await readCached<RepoAnalysis>(cacheEntry, 'analysis');
+    }
+    
+    if (cachedAnalysis) {
+      return withFreshGapAges({ ...cachedAnalysis, localPath: analyzedRoot(repoPath, cachedAnalysis) });
+    }
     
     // Check for biokit config
-    const configPath = path.join(tempDir, 'biokit.config.json');
+    const configPath = path.join(repoPath, 'biokit.config.json');
     let config: BiokitConfig | undefined;
     if (await fs.pathExists(configPath)) {
       config = await fs.readJson(configPath);
     }
+    if (!advisories && config?.analysis?.advisoryDb) {
+      advisories = await loadAdvisoryDatabase(path.join(repoPath, config.analysis.advisoryDb));
+    }
+    
+    // Walk the tree once; every analyzer works off this inventory
+    const repoInventory = await buildInventory(repoPath, {
+      ignore: config?.analysis?.ignore || [],
+    });
+    
+    // In a workspace, --package narrows every analyzer to that package's folder
+    const layout = await detectWorkspace(repoInventory);
+    const selectedPackage = options.package
+      ? findWorkspacePackage(layout, options.package)
+      : undefined;
+    const inventory = selectedPackage
+      ? scopeInventory(repoInventory, selectedPackage.path)
+      : repoInventory;
     
     // Analyze what exists in the repo
-    const hasCode = await detectCode(tempDir);
-    const hasDocs = await detectDocumentation(tempDir);
+    const hasCode = detectCode(inventory);
+    const hasDocs = detectDocumentation(inventory);
     
     // Run appropriate analyzers
-    const codeAnalysis = hasCode ? await analyzeCodebase(tempDir) : null;
-    const requirementsAnalysis = hasDocs ? await analyzeRequirements(tempDir) : null;
-    const qualityAnalysis = hasCode ? await analyzeQuality(tempDir) : null;
-    const gaps = hasCode ? await detectGaps(tempDir) : [];
+    const codeAnalysis = hasCode
+      ? await cached(cacheEntry, 'codebase', () => analyzeCodebase(inventory))
+      : null;
+    const requirementsAnalysis = hasDocs
+      ? await cached(cacheEntry, 'requirements', () => analyzeRequirements(inventory))
+      : null;
+    let qualityAnalysis = hasCode
+      ? await cached(cacheEntry, 'quality', () => analyzeQuality(inventory))
+      : null;
+    if (qualityAnalysis && selectedPackage && layout) {
+      qualityAnalysis = {
+        ...qualityAnalysis,
+        packageManager: workspacePackageManager(layout, qualityAnalysis.packageManager),
+      };
+    }
+    const reportedGaps = hasCode
+      ? applyGapIgnores(
+        await cached(cacheEntry, 'gaps', () => detectGaps(inventory)),
+        config?.analysis?.gaps?.ignore ?? [],
+        selectedPackage?.path
+      )
+      : [];
+    // Blame after ignores so suppressed gaps cost no git calls
+    const gaps = options.blame && reportedGaps.length > 0
+      ? await blameGaps(inventory.root, reportedGaps)
+      : reportedGaps;
+    const accessibilityIssues = hasCode
+      ? await cached(cacheEntry, 'accessibility', () => auditAccessibility(inventory))
+      : [];
+    const dependencyAnalysis = hasCode
+      ? await cached(cacheEntry, 'dependencies', () =>
+        analyzeDependencies(inventory, { lockfileInventory: repoInventory, advisories })
+      )
+      : null;
+    const designSystemUsage = codeAnalysis
+      ? await cached(cacheEntry, 'design-system', () => analyzeDesignSystemUsage(inventory, codeAnalysis.imports))
+      : null;
+    // Spec endpoints against the routes served; without code every one of them is missing
+    const apiOperations = requirementsAnalysis?.apiOperations ?? [];
+    const apiCoverage = apiOperations.length > 0
+      ? await cached(cacheEntry, 'api-coverage', () =>
+        checkApiCoverage(inventory, apiOperations, codeAnalysis?.routes ?? [])
+      )
+      : null;
+    // Features traced to the code implementing them; gaps differ with ignores, so this isn't cached
+    const trace = codeAnalysis && requirementsAnalysis && requirementsAnalysis.features.length > 0
+      ? await traceFeatures(inventory, requirementsAnalysis.features, codeAnalysis, gaps)
+      : null;
     
     // Classify repository type
-    const repoType = classifyRepository(hasCode, hasDocs, codeAnalysis);
+    const repoType = classifyRepository(hasCode, hasDocs, codeAnalysis, trace?.summary);
     
     // Get improvement recommendations
     const improvements = recommendImprovements(
       codeAnalysis,
       qualityAnalysis,
-      gaps
+      gaps,
+      dependencyAnalysis,
+      accessibilityIssues,
+      designSystemUsage,
+      apiCoverage,
+      { staleDays }
     );
     
     // Build file tree
-    const fileTree = await buildFileTree(tempDir);
+    const fileTree = buildFileTree(inventory);
     
-    return {
+    const analysis: RepoAnalysis = {
       type: repoType,
       repoUrl,
-      localPath: tempDir,
+      source,
+      localPath: inventory.root,
       hasCode,
       hasRequirements: hasDocs,
       codeQuality: qualityAnalysis || {
         hasTests: false,
         hasTypescript: false,
         designSystem: 'none',
-        framework: 'unknown',
+        framework: { ...UNKNOWN_FRAMEWORK },
         packageManager: 'npm',
       },
-      requirements: requirementsAnalysis || {
+      requirements: requirementsAnalysis ? {
+        ...requirementsAnalysis,
+        dataModels: requirementsAnalysis.dataModels.length > 0,
+      } : {
         prd: false,
         userStories: false,
         technicalSpecs: false,
@@ -74,19 +214,130 @@ export async function analyzeRepository(repoUrl: string): Promise<RepoAnalysis>
         dataModels: false,
       },
       improvements,
-      extractedFeatures: requirementsAnalysis?.features,
       fileTree,
-      config,
     };
     
+    if (config) {
+      analysis.config = config;
+    }
+    if (commitSha) {
+      analysis.commitSha = commitSha;
+    }
+    if (requirementsAnalysis) {
+      analysis.extractedFeatures = trace?.features ?? requirementsAnalysis.features;
+      if (requirementsAnalysis.dataModels.length > 0) {
+        analysis.dataModels = requirementsAnalysis.dataModels;
+      }
+      if (requirementsAnalysis.mockupDetails.length > 0) {
+        analysis.mockups = linkMockups(requirementsAnalysis.mockupDetails, analysis.extractedFeatures, codeAnalysis?.routes ?? []);
+      }
+    }
+    if (apiCoverage) {
+      analysis.apiCoverage = apiCoverage;
+    }
+    if (trace) {
+      analysis.traceability = trace.summary;
+    }
+    
+    if (codeAnalysis) {
+      analysis.components = codeAnalysis.componentDetails;
+      analysis.routes = codeAnalysis.routes;
+      analysis.imports = codeAnalysis.imports;
+    }
+    
+    if (dependencyAnalysis) {
+      analysis.dependencies = dependencyAnalysis;
+    }
+    if (hasCode) {
+      analysis.accessibility = accessibilityIssues;
+      analysis.gaps = gaps;
+      
+      // Compare with an explicit baseline, or the one committed next to the analyzed code;
+      // gap paths are relative to the analyzed folder, so baselines are too
+      const baselineFile = options.baseline
+        ? path.resolve(options.baseline)
+        : path.join(inventory.root, config?.analysis?.gaps?.baseline ?? DEFAULT_GAP_BASELINE);
+      const baseline = await loadGapBaseline(baselineFile);
+      if (baseline) {
+        analysis.gapBaseline = diffGapBaseline(gaps, baseline, options.baseline ?? path.relative(inventory.root, baselineFile));
+      }
+    }
+    if (designSystemUsage) {
+      analysis.designSystemUsage = designSystemUsage;
+    }
+    
+    // Per-package breakdown, or just the selected package
+    if (layout) {
+      analysis.workspace = {
+        tools: layout.tools,
+        packages: selectedPackage
+          ? [toPackageAnalysis(selectedPackage, layout, codeAnalysis, qualityAnalysis)]
+          : await cached(cacheEntry, 'packages', () => analyzeWorkspacePackages(repoInventory, layout)),
+      };
+    }
+    
+    // The checkout path is per-run, so it never goes into the cache
+    if (cacheEntry) {
+      await writeCached(cacheEntry, 'analysis', { ...analysis, localPath: undefined });
+    }
+    
+    return analysis;
+  
   } catch (error) {
-    // Clean up temp directory on error
-    await fs.remove(tempDir);
+    // Clean up temp directory on error (never a user's local checkout)
+    if (tempDir) {
+      await disposeWorkspace(tempDir);
+    }
     throw new Error(`Failed to analyze repository: ${error.message}`);
   }
 }
 
-async function detectCode(repoPath: string): Promise<boolean> {
+// Generators call this rather than assuming analysis.localPath still exists:
+// cached analyses have none, and workspaces are disposed when the process exits
+export async function acquireWorkspace(analysis: RepoAnalysis): Promise<string> {
+  if (analysis.localPath && (await fs.pathExists(analysis.localPath))) {
+    return analysis.localPath;
+  }
+  
+  // Pin to the analyzed commit; working copies are reopened as they are, archives have no refs
+  const ref = analysis.source.kind === 'git' || analysis.source.kind === 'bundle'
+    ? analysis.commitSha ?? analysis.source.ref
+    : analysis.source.ref;
+  
+  const options: AnalyzeOptions = {};
+  if (ref) options.ref = ref;
+  if (analysis.source.path) options.path = analysis.source.path;
+  
+  const { repoPath } = await resolveSource(analysis.source.location, options);
+  analysis.localPath = analyzedRoot(repoPath, analysis);
+  
+  return analysis.localPath;
+}
+
+// Gap ages count to today, not to when the analysis was cached
+function withFreshGapAges(analysis: RepoAnalysis): RepoAnalysis {
+  if (!analysis.gaps?.some(gap => gap.owner)) {
+    return analysis;
+  }
+  
+  const fresh: RepoAnalysis = { ...analysis, gaps: refreshGapAges(analysis.gaps) };
+  if (analysis.gapBaseline) {
+    fresh.gapBaseline = { ...analysis.gapBaseline, new: refreshGapAges(analysis.gapBaseline.new) };
+  }
+  return fresh;
+}
+
+// Package-scoped analyses live in a subfolder of the resolved source
+function analyzedRoot(repoPath: string, analysis: RepoAnalysis): string {
+  if (!analysis.source.package || !analysis.workspace) {
+    return repoPath;
+  }
+  
+  const pkg = findWorkspacePackage(analysis.workspace, analysis.source.package);
+  return path.join(repoPath, pkg.path);
+}
+
+function detectCode(inventory: FileInventory): boolean {
   const codePatterns = [
     '**/*.{js,jsx,ts,tsx}',
     '**/*.{py,java,go,rs}',
@@ -97,15 +348,10 @@ async function detectCode(repoPath: string): Promise<boolean> {
     'go.mod',
   ];
   
-  const files = await globby(codePatterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
-  });
-  
-  return files.length > 0;
+  return inventory.paths(codePatterns).length > 0;
 }
 
-async function detectDocumentation(repoPath: string): Promise<boolean> {
+function detectDocumentation(inventory: FileInventory): boolean {
   const docPatterns = [
     '**/README.md',
     '**/requirements/**/*.md',
@@ -114,52 +360,102 @@ async function detectDocumentation(repoPath: string): Promise<boolean> {
     '**/PRD.md',
     '**/user-stories.md',
     '**/technical-spec.md',
+    '**/*.feature',
+    ...API_SPEC_PATTERNS,
+    ...MOCKUP_PATTERNS,
   ];
   
-  const files = await globby(docPatterns, {
-    cwd: repoPath,
-    ignore: ['node_modules/**', '.git/**'],
-  });
-  
-  return files.length > 0;
+  return inventory.paths(docPatterns).length > 0;
 }
 
-async function buildFileTree(repoPath: string, maxDepth: number = 3): Promise<string> {
-  const tree: string[] = [];
+function buildFileTree(inventory: FileInventory, maxDepth: number = 3): string {
+  type TreeNode = Map<string, TreeNode>;
+  const root: TreeNode = new Map();
   
-  async function traverse(dir: string, prefix: string = '', depth: number = 0) {
-    if (depth > maxDepth) return;
-    
-    const items = await fs.readdir(dir);
-    const filtered = items.filter(item => 
-      !item.startsWith('.') && 
-      item !== 'node_modules' && 
-      item !== 'dist' && 
-      item !== 'build'
-    );
+  // Rebuild the directory structure from the inventory instead of re-walking the disk
+  for (const file of inventory.files) {
+    const segments = file.path.split('/').slice(0, maxDepth + 1);
+    if (segments.some(segment => segment.startsWith('.'))) continue;
     
-    for (let i = 0; i < filtered.length; i++) {
-      const item = filtered[i];
-      const itemPath = path.join(dir, item);
-      const stat = await fs.stat(itemPath);
-      const isLast = i === filtered.length - 1;
+    let node = root;
+    for (const segment of segments) {
+      let child = node.get(segment);
+      if (!child) {
+        child = new Map();
+        node.set(segment, child);
+      }
+      node = child;
+    }
+  }
+  
+  const tree: string[] = [path.basename(inventory.root)];
+  
+  function render(node: TreeNode, prefix: string) {
+    const items = [...node.entries()];
+    items.forEach(([item, children], i) => {
+      const isLast = i === items.length - 1;
       const connector = isLast ? '└── ' : '├── ';
       
       tree.push(prefix + connector + item);
-      
-      if (stat.isDirectory()) {
-        const newPrefix = prefix + (isLast ? '    ' : '│   ');
-        await traverse(itemPath, newPrefix, depth + 1);
-      }
-    }
+      render(children, prefix + (isLast ? '    ' : '│   '));
+    });
   }
   
-  const basename = path.basename(repoPath);
-  tree.push(basename);
-  await traverse(repoPath, '', 0);
+  render(root, '');
   
   return tree.join('\n');
 }
 
+// Re-export file inventory
+export { buildInventory, scopeInventory, classifyFile, DEFAULT_IGNORES } from './inventory';
+export type { FileInventory, InventoryOptions } from './inventory';
+
+// Re-export import graph helpers
+export { transitiveDependents, dependencyOrder, UI_LIBRARIES } from './analyzers/imports';
+
+// Re-export design system usage and biokit migration tables
+export { analyzeDesignSystemUsage, getComponentMappings } from './analyzers/design-system';
+export type { ComponentMappings } from './analyzers/design-system';
+
+// Re-export the hardcoded value scanner for the generator's rewrite
+export { findHardcodedValues } from './analyzers/secrets';
+export type { HardcodedMatch } from './analyzers/secrets';
+
+// Re-export gap baselines
+export { createGapBaseline, writeGapBaseline, loadGapBaseline, DEFAULT_GAP_BASELINE } from './analyzers/baseline';
+
+// Re-export gap ownership reports
+export { staleGapsByDirectory, DEFAULT_STALE_DAYS } from './analyzers/ownership';
+
+// Re-export data model naming
+export { singularize } from './analyzers/data-models';
+
+// Re-export SARIF and JUnit reports
+export { toSarif, toJUnit, collectFindings, GAP_RULES, QUALITY_RULES } from './reports';
+export type { Finding, FindingLevel, ReportRule } from './reports';
+
+// Re-export framework detection
+export { detectFramework, formatFramework, UNKNOWN_FRAMEWORK } from './framework';
+
+// Re-export monorepo detection
+export { detectWorkspace } from './monorepo';
+export type { WorkspaceLayout } from './monorepo';
+
+// Re-export workspace lifecycle
+export {
+  keepWorkspaces,
+  gcWorkspaces,
+  getWorkspaceRoot,
+  DEFAULT_WORKSPACE_MAX_AGE_DAYS,
+} from './workspace';
+
+// Re-export cache management
+export { listCacheEntries, clearCache, getCacheDir, ANALYZER_VERSION } from './cache';
+export type { CacheEntryInfo } from './cache';
+
+// Re-export source providers
+export { registerSourceProvider, detectSource } from './sources';
+export type { RepoSourceProvider } from './sources';
+
 // Re-export types
 export * from './types';
\ No newline at end of file
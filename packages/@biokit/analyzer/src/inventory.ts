@@ -0,0 +1,206 @@
+import { globby } from 'globby';
+import micromatch from 'micromatch';
+import fs from 'fs-extra';
+import path from 'path';
+import type { FileInfo } from './types';
+
+// Build output, dependencies and vendored code are never worth analyzing
+export const DEFAULT_IGNORES = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/.next/**',
+  '**/out/**',
+  '**/coverage/**',
+  '**/.turbo/**',
+  '**/.cache/**',
+  '**/vendor/**',
+  '**/bower_components/**',
+  '**/*.min.{js,css}',
+];
+
+const TYPE_RULES: Array<[FileInfo['type'], string[]]> = [
+  ['test', [
+    '**/*.{test,spec}.*',
+    '**/__tests__/**',
+    '**/test/**',
+    '**/tests/**',
+    '**/e2e/**',
+    '**/cypress/**',
+  ]],
+  ['api', [
+    '**/pages/api/**/*.{js,ts}',
+    '**/app/**/route.{js,ts}',
+    '**/api/**/*.{js,ts}',
+    '**/endpoints/**/*.{js,ts}',
+  ]],
+  ['page', [
+    '**/pages/**/*.{jsx,tsx,js,ts,vue}',
+    '**/app/**/page.{jsx,tsx,js,ts}',
+    '**/views/**/*.{jsx,tsx,js,ts,vue}',
+    '**/routes/**/*.{jsx,tsx,js,ts,svelte}',
+  ]],
+  ['component', [
+    '**/components/**/*.{jsx,tsx,js,ts,vue,svelte}',
+    '**/*.{jsx,tsx,vue,svelte}',
+  ]],
+  ['style', [
+    '**/*.{css,scss,sass,less,styl}',
+    '**/styles/**',
+  ]],
+  ['config', [
+    '**/package.json',
+    '**/tsconfig*.json',
+    '**/*.config.{js,cjs,mjs,ts,json}',
+    '**/.*rc',
+    '**/.*rc.{js,cjs,json,yml,yaml}',
+    '**/*.{yml,yaml,toml,ini}',
+    '**/.env*',
+    '**/.{gitignore,gitattributes,editorconfig}',
+    '**/Dockerfile',
+  ]],
+  ['doc', [
+    '**/*.{md,mdx,txt,rst,adoc}',
+    '**/docs/**',
+  ]],
+];
+
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.sass': 'sass',
+  '.less': 'less',
+  '.html': 'html',
+  '.json': 'json',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.md': 'markdown',
+  '.mdx': 'markdown',
+  '.py': 'python',
+  '.java': 'java',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.sql': 'sql',
+  '.prisma': 'prisma',
+  '.graphql': 'graphql',
+  '.gql': 'graphql',
+};
+
+export interface InventoryOptions {
+  ignore?: string[];
+}
+
+export interface FileInventory {
+  root: string;
+  files: FileInfo[];
+  has(file: string): boolean;
+  get(file: string): FileInfo | undefined;
+  match(patterns: string | string[], ignore?: string[]): FileInfo[];
+  paths(patterns: string | string[], ignore?: string[]): string[];
+  read(file: string): Promise<string>;
+  readJson<T = unknown>(file: string): Promise<T | null>;
+}
+
+// Walk the tree once and let every analyzer query the result
+export async function buildInventory(
+  repoPath: string,
+  options: InventoryOptions = {}
+): Promise<FileInventory> {
+  const entries = await globby('**/*', {
+    cwd: repoPath,
+    dot: true,
+    gitignore: true,
+    ignore: [...DEFAULT_IGNORES, ...(options.ignore || [])],
+    objectMode: true,
+    stats: true,
+  });
+  
+  const files: FileInfo[] = entries
+    .map(entry => ({
+      path: entry.path,
+      type: classifyFile(entry.path),
+      language: detectLanguage(entry.path),
+      size: entry.stats?.size ?? 0,
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  
+  return createInventory(repoPath, files);
+}
+
+export function createInventory(
+  root: string,
+  files: FileInfo[],
+  readFile: (file: string) => Promise<string> = file => fs.readFile(path.join(root, file), 'utf-8')
+): FileInventory {
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const allPaths = files.map(file => file.path);
+  const contents = new Map<string, Promise<string>>();
+  
+  const paths = (patterns: string | string[], ignore: string[] = []) =>
+    micromatch(allPaths, patterns, { ignore });
+  
+  const read = (file: string) => {
+    let content = contents.get(file);
+    if (!content) {
+      content = readFile(file);
+      contents.set(file, content);
+    }
+    return content;
+  };
+  
+  return {
+    root,
+    files,
+    has: file => byPath.has(file),
+    get: file => byPath.get(file),
+    paths,
+    match: (patterns, ignore) =>
+      paths(patterns, ignore).flatMap(file => byPath.get(file) ?? []),
+    read,
+    readJson: async file => {
+      if (!byPath.has(file)) return null;
+      return JSON.parse(await read(file));
+    },
+  };
+}
+
+// View of one subfolder with paths relative to it; file contents are shared with the parent
+export function scopeInventory(inventory: FileInventory, dir: string): FileInventory {
+  const prefix = `${dir.replace(/\/+$/, '')}/`;
+  const files = inventory.files
+    .filter(file => file.path.startsWith(prefix))
+    .map(file => {
+      const relative = file.path.slice(prefix.length);
+      return { ...file, path: relative, type: classifyFile(relative) };
+    });
+  
+  return createInventory(
+    path.join(inventory.root, dir),
+    files,
+    file => inventory.read(prefix + file)
+  );
+}
+
+export function classifyFile(file: string): FileInfo['type'] {
+  for (const [type, patterns] of TYPE_RULES) {
+    if (micromatch.isMatch(file, patterns, { dot: true })) {
+      return type;
+    }
+  }
+  return 'other';
+}
+
+function detectLanguage(file: string): string {
+  return LANGUAGES[path.extname(file).toLowerCase()] || 'other';
+}
@@ -0,0 +1,197 @@
+import path from 'path';
+import yaml from 'js-yaml';
+import micromatch from 'micromatch';
+import { analyzeCodebase } from './analyzers/codebase';
+import type { CodebaseAnalysis } from './analyzers/codebase';
+import { analyzeQuality } from './analyzers/quality';
+import { UNKNOWN_FRAMEWORK } from './framework';
+import { scopeInventory } from './inventory';
+import type { FileInventory } from './inventory';
+import type { CodeQuality, PackageAnalysis, WorkspacePackage, WorkspaceTool } from './types';
+
+export interface WorkspaceLayout {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+}
+
+interface PackageJson {
+  name?: string;
+  version?: string;
+  private?: boolean;
+  workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+// Find the packages of a pnpm/yarn/npm workspace, Lerna, Turborepo or Nx repo
+export async function detectWorkspace(inventory: FileInventory): Promise<WorkspaceLayout | null> {
+  const tools: WorkspaceTool[] = [];
+  const globs: string[] = [];
+  
+  const rootPackage = await inventory.readJson<PackageJson>('package.json').catch(() => null);
+  const workspaces = rootPackage?.workspaces;
+  const declared = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+  if (declared?.length) {
+    tools.push(inventory.has('yarn.lock') ? 'yarn' : 'npm');
+    globs.push(...declared);
+  }
+  
+  if (inventory.has('pnpm-workspace.yaml')) {
+    // A malformed file declares no globs rather than failing the analysis
+    const config = await inventory.read('pnpm-workspace.yaml')
+      .then(content => yaml.load(content) as { packages?: unknown } | null)
+      .catch(() => null);
+    tools.push('pnpm');
+    if (Array.isArray(config?.packages)) {
+      globs.push(...config.packages.filter((glob): glob is string => typeof glob === 'string'));
+    }
+  }
+  
+  if (inventory.has('lerna.json')) {
+    const lerna = await inventory.readJson<{ packages?: string[] }>('lerna.json').catch(() => null);
+    tools.push('lerna');
+    globs.push(...(lerna?.packages ?? ['packages/*']));
+  }
+  
+  // Turborepo and Nx sit on top of the package manager's workspaces
+  if (inventory.has('turbo.json')) {
+    tools.push('turborepo');
+  }
+  
+  // Nx projects can be plain folders with a project.json and no package.json
+  const nxProjects = inventory.has('nx.json')
+    ? inventory.paths('**/project.json').map(file => path.posix.dirname(file)).filter(dir => dir !== '.')
+    : [];
+  if (inventory.has('nx.json')) {
+    tools.push('nx');
+  }
+  
+  if (globs.length === 0 && nxProjects.length === 0) {
+    return null;
+  }
+  
+  const include = globs.filter(glob => !glob.startsWith('!')).map(normalizeGlob);
+  const exclude = globs.filter(glob => glob.startsWith('!')).map(glob => normalizeGlob(glob.slice(1)));
+  const packageDirs = new Set([
+    ...inventory.paths('**/package.json')
+      .map(file => path.posix.dirname(file))
+      .filter(dir => dir !== '.' && micromatch.isMatch(dir, include) && !micromatch.isMatch(dir, exclude)),
+    ...nxProjects,
+  ]);
+  
+  const packages: WorkspacePackage[] = [];
+  const manifests = new Map<string, PackageJson>();
+  
+  for (const dir of [...packageDirs].sort()) {
+    const manifest = await inventory.readJson<PackageJson>(`${dir}/package.json`).catch(() => null);
+    const project = manifest
+      ? null
+      : await inventory.readJson<{ name?: string }>(`${dir}/project.json`).catch(() => null);
+    
+    const workspacePackage: WorkspacePackage = {
+      name: manifest?.name ?? project?.name ?? path.posix.basename(dir),
+      path: dir,
+      private: manifest?.private === true,
+      internalDependencies: [],
+    };
+    if (manifest?.version) {
+      workspacePackage.version = manifest.version;
+    }
+    
+    packages.push(workspacePackage);
+    if (manifest) manifests.set(dir, manifest);
+  }
+  
+  // Link packages that depend on each other
+  const names = new Set(packages.map(pkg => pkg.name));
+  for (const pkg of packages) {
+    const manifest = manifests.get(pkg.path);
+    const deps = {
+      ...manifest?.dependencies,
+      ...manifest?.devDependencies,
+      ...manifest?.peerDependencies,
+    };
+    pkg.internalDependencies = Object.keys(deps).filter(dep => names.has(dep) && dep !== pkg.name).sort();
+  }
+  
+  return { tools, packages };
+}
+
+// Match by package name, falling back to its folder (`--package packages/web`)
+export function findWorkspacePackage(
+  layout: WorkspaceLayout | null,
+  nameOrPath: string
+): WorkspacePackage {
+  const target = nameOrPath.replace(/^\.\//, '').replace(/\/$/, '');
+  const found = layout?.packages.find(pkg => pkg.name === target)
+    ?? layout?.packages.find(pkg => pkg.path === target);
+  
+  if (!found) {
+    const available = layout?.packages.map(pkg => pkg.name).join(', ');
+    throw new Error(available
+      ? `Package "${nameOrPath}" not found in workspace (available: ${available})`
+      : `Package "${nameOrPath}" not found: repository is not a workspace`);
+  }
+  
+  return found;
+}
+
+// Analyze every package on its own, as if it were the repository root
+export async function analyzeWorkspacePackages(
+  inventory: FileInventory,
+  layout: WorkspaceLayout
+): Promise<PackageAnalysis[]> {
+  const results: PackageAnalysis[] = [];
+  
+  // One package at a time keeps memory flat on large monorepos
+  for (const pkg of layout.packages) {
+    const scoped = scopeInventory(inventory, pkg.path);
+    const hasCode = scoped.paths('**/*.{js,jsx,ts,tsx,mjs,cjs,vue,svelte}').length > 0;
+    
+    const codeAnalysis = hasCode ? await analyzeCodebase(scoped) : null;
+    const quality = hasCode ? await analyzeQuality(scoped) : null;
+    results.push(toPackageAnalysis(pkg, layout, codeAnalysis, quality));
+  }
+  
+  return results;
+}
+
+export function toPackageAnalysis(
+  pkg: WorkspacePackage,
+  layout: WorkspaceLayout,
+  codeAnalysis: CodebaseAnalysis | null,
+  quality: CodeQuality | null
+): PackageAnalysis {
+  return {
+    ...pkg,
+    hasCode: codeAnalysis !== null,
+    codeQuality: quality
+      ? { ...quality, packageManager: workspacePackageManager(layout, quality.packageManager) }
+      : {
+        hasTests: false,
+        hasTypescript: false,
+        designSystem: 'none',
+        framework: { ...UNKNOWN_FRAMEWORK },
+        packageManager: workspacePackageManager(layout, 'npm'),
+      },
+    components: codeAnalysis?.componentDetails ?? [],
+    routes: codeAnalysis?.routes ?? [],
+    unusedFiles: codeAnalysis?.imports.unusedFiles ?? [],
+  };
+}
+
+// Lockfiles live at the workspace root, not in the packages
+export function workspacePackageManager(
+  layout: WorkspaceLayout,
+  fallback: CodeQuality['packageManager']
+): CodeQuality['packageManager'] {
+  if (layout.tools.includes('pnpm')) return 'pnpm';
+  if (layout.tools.includes('yarn')) return 'yarn';
+  if (layout.tools.includes('npm')) return 'npm';
+  return fallback;
+}
+
+function normalizeGlob(glob: string): string {
+  return glob.replace(/^\.\//, '').replace(/\/+$/, '').replace(/\/package\.json$/, '');
+}
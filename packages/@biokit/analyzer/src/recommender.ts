@@ -1,11 +1,16 @@
 import type { CodebaseAnalysis } from './analyzers/codebase';
-import type { CodeQuality } from './types';
-import type { Gap } from './analyzers/gaps';
+import { DEFAULT_STALE_DAYS, staleGapsByDirectory } from './analyzers/ownership';
+import type { AccessibilityIssue, ApiCoverage, CodeQuality, DependencyAnalysis, DesignSystemUsage, Gap } from './types';
 
 export function recommendImprovements(
   codeAnalysis: CodebaseAnalysis | null,
   qualityAnalysis: CodeQuality | null,
-  gaps: Gap[]
+  gaps: Gap[],
+  dependencies: DependencyAnalysis | null = null,
+  accessibilityIssues: AccessibilityIssue[] = [],
+  designSystemUsage: DesignSystemUsage | null = null,
+  apiCoverage: ApiCoverage | null = null,
+  { staleDays = DEFAULT_STALE_DAYS }: { staleDays?: number } = {}
 ): string[] {
   const improvements: string[] = [];
   
@@ -13,8 +18,17 @@ export function recommendImprovements(
     return improvements;
   }
   
-  // Check design system
-  if (qualityAnalysis.designSystem !== 'biokit') {
+  // Check design system: measured usage when JSX was found, otherwise the detected dependency
+  if (designSystemUsage && designSystemUsage.totalUsages > 0) {
+    const { totalUsages, biokitUsages, biokitPercentage, migration } = designSystemUsage;
+    if (biokitUsages < totalUsages) {
+      const systems = [...new Set(designSystemUsage.libraries
+        .filter(library => library.system !== 'biokit' && library.library !== 'custom')
+        .map(library => library.system))];
+      const mixed = designSystemUsage.mixed ? ` and consolidate mixed systems (${systems.join(', ')})` : '';
+      improvements.push(`migrate-to-biokit-design-system: Move ${totalUsages - biokitUsages} component usages to biokit-design-system${mixed} (${biokitPercentage}% already on biokit, ${migration.autoMigratable} auto-migratable, ${migration.manual} manual)`);
+    }
+  } else if (qualityAnalysis.designSystem !== 'biokit') {
     improvements.push('migrate-to-biokit-design-system: Replace current UI components with biokit-design-system');
   }
   
@@ -26,12 +40,27 @@ export function recommendImprovements(
   // Check tests
   if (!qualityAnalysis.hasTests) {
     improvements.push('add-test-coverage: Add unit and integration tests');
+  } else if (qualityAnalysis.coverage && !qualityAnalysis.coverage.estimated) {
+    // Measured coverage: name the least covered files
+    const { coverage } = qualityAnalysis;
+    if (coverage.lines < 60) {
+      const weakest = [...coverage.files]
+        .sort((a, b) => a.lines.pct - b.lines.pct)
+        .slice(0, 3)
+        .map(file => `${file.file} ${file.lines.pct}%`);
+      improvements.push(`improve-test-coverage: Increase line coverage from ${coverage.lines}% to at least 80% (weakest files ${weakest.join(', ')})`);
+    }
   } else if (qualityAnalysis.metrics && qualityAnalysis.metrics.testCoverage < 60) {
-    improvements.push('improve-test-coverage: Increase test coverage to at least 80%');
+    improvements.push('improve-test-coverage: Increase test coverage to at least 80% (estimated; no coverage report found)');
+  }
+  
+  // Check dependencies
+  if (dependencies) {
+    improvements.push(...recommendDependencyFixes(dependencies));
   }
   
   // Check for gaps
-  if (gaps.length > 10) {
+  if (gaps.filter(g => g.type !== 'hardcoded').length > 10) {
     improvements.push('complete-todos: Address TODO comments and incomplete implementations');
   }
   
@@ -45,22 +74,56 @@ export function recommendImprovements(
     improvements.push('implement-stubs: Complete stub function implementations');
   }
   
+  // Check the API against its spec
+  if (apiCoverage && apiCoverage.missing > 0) {
+    const missing = apiCoverage.operations
+      .filter(operation => operation.status === 'missing' && !operation.deprecated)
+      .map(operation => `${operation.method} ${operation.path}`);
+    if (missing.length > 0) {
+      improvements.push(`implement-missing-endpoints: Implement ${missing.length} API operations described in the spec but not found in the code (${missing.slice(0, 5).join(', ')})`);
+    }
+  }
+  if (apiCoverage && apiCoverage.undocumented.length > 0) {
+    // In OpenAPI's {param} style, which also keeps Express's `:param` out of the key separator
+    const routes = apiCoverage.undocumented.map(route => route.path.replace(/:(\w+)/g, '{$1}'));
+    improvements.push(`document-api-routes: Add ${routes.length} API routes missing from the OpenAPI spec (${routes.slice(0, 5).join(', ')})`);
+  }
+  
   // Check for error handling
   if (codeAnalysis.components.length > 0) {
     improvements.push('add-error-boundaries: Add React error boundaries for better error handling');
   }
   
-  // Check for accessibility
-  improvements.push('improve-accessibility: Ensure WCAG 2.1 AA compliance');
+  // Check for accessibility, only on concrete findings
+  if (accessibilityIssues.length > 0) {
+    const byRule = new Map<string, number>();
+    accessibilityIssues.forEach(issue => byRule.set(issue.rule, (byRule.get(issue.rule) || 0) + 1));
+    const summary = [...byRule.entries()].map(([rule, count]) => `${count} ${rule}`).join(', ');
+    improvements.push(`improve-accessibility: Fix ${accessibilityIssues.length} WCAG 2.1 issues (${summary})`);
+  }
   
   // Check for performance
-  if (codeAnalysis.framework === 'nextjs') {
+  if (codeAnalysis.framework.id === 'nextjs') {
     improvements.push('optimize-performance: Add Next.js performance optimizations (Image, Font, etc.)');
   }
   
-  // Check for environment variables
-  if (codeAnalysis.packageJson && !codeAnalysis.packageJson.scripts?.env) {
-    improvements.push('extract-env-variables: Extract hardcoded values to environment variables');
+  // Check for hardcoded secrets and configuration values
+  const hardcoded = gaps.filter(g => g.type === 'hardcoded');
+  if (hardcoded.length > 0) {
+    const secrets = new Set(hardcoded.filter(g => g.hardcoded?.secret).map(g => g.hardcoded?.envVar)).size;
+    const variables = new Set(hardcoded.map(g => g.hardcoded?.envVar)).size;
+    const rotate = secrets > 0 ? ` and rotate ${secrets} exposed secrets` : '';
+    improvements.push(`extract-env-variables: Move ${hardcoded.length} hardcoded values into ${variables} environment variables${rotate}`);
+  }
+  
+  // Stale high-priority gaps (only known with blame) go to the top of the list
+  const stale = gaps.filter(g => g.priority === 'high' && g.owner && g.owner.ageDays >= staleDays);
+  if (stale.length > 0) {
+    const byType = new Map<string, number>();
+    stale.forEach(gap => byType.set(gap.type, (byType.get(gap.type) || 0) + 1));
+    const summary = [...byType.entries()].map(([type, count]) => `${count} ${type}`).join(', ');
+    const directories = staleGapsByDirectory(stale, { minAgeDays: staleDays }).slice(0, 3).map(group => group.directory);
+    improvements.unshift(`resolve-stale-gaps: Resolve ${stale.length} high-priority gaps left for over ${staleDays} days first (${summary}) in ${directories.join(', ')}`);
   }
   
   // Check for documentation
@@ -79,7 +142,7 @@ export function recommendImprovements(
   }
   
   // Check for SEO
-  if (codeAnalysis.framework === 'nextjs' || codeAnalysis.framework === 'gatsby') {
+  if (codeAnalysis.framework.id === 'nextjs' || codeAnalysis.framework.id === 'gatsby') {
     improvements.push('improve-seo: Add SEO optimizations and meta tags');
   }
   
@@ -93,4 +156,38 @@ export function recommendImprovements(
   
   // Filter out improvements that might not be relevant
   return improvements.filter((imp, index, self) => self.indexOf(imp) === index);
+}
+
+function recommendDependencyFixes(dependencies: DependencyAnalysis): string[] {
+  const improvements: string[] = [];
+  
+  const { vulnerabilities } = dependencies;
+  if (vulnerabilities.length > 0) {
+    const severe = vulnerabilities.filter(v => v.severity === 'critical' || v.severity === 'high').length;
+    const packages = [...new Set(vulnerabilities.map(v => `${v.name}@${v.version}`))];
+    improvements.push(`fix-vulnerable-dependencies: Upgrade ${packages.length} vulnerable package${packages.length === 1 ? '' : 's'} (${severe} high or critical) - ${packages.slice(0, 5).join(', ')}`);
+  }
+  
+  if (dependencies.deprecated.length > 0) {
+    const names = [...new Set(dependencies.deprecated.map(d => d.name))];
+    improvements.push(`replace-deprecated-dependencies: Replace deprecated packages (${names.slice(0, 5).join(', ')})`);
+  }
+  
+  if (dependencies.outdated.length > 0) {
+    const upgrades = dependencies.outdated.slice(0, 5).map(o => `${o.name} ${o.current} -> ${o.latest}`);
+    improvements.push(`upgrade-outdated-dependencies: Upgrade dependencies that are a major version behind (${upgrades.join(', ')})`);
+  }
+  
+  // Transitive duplicates are usually out of our hands; duplicated direct ones are not
+  const directDuplicates = dependencies.duplicates.filter(d => d.direct);
+  if (directDuplicates.length > 0) {
+    improvements.push(`dedupe-dependencies: Align versions of packages installed more than once (${directDuplicates.slice(0, 5).map(d => d.name).join(', ')})`);
+  }
+  
+  const copyleft = dependencies.licenseFindings.filter(f => f.category === 'strong-copyleft');
+  if (copyleft.length > 0) {
+    improvements.push(`review-dependency-licenses: Review ${copyleft.length} dependenc${copyleft.length === 1 ? 'y' : 'ies'} under copyleft licenses (${copyleft.slice(0, 3).map(f => `${f.name} ${f.license}`).join(', ')})`);
+  }
+  
+  return improvements;
 }
\ No newline at end of file
@@ -0,0 +1,331 @@
+import { pathToFileURL } from 'url';
+import { ANALYZER_VERSION } from './cache';
+import type { Gap, RepoAnalysis } from './types';
+
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+export interface ReportRule {
+  // Stable across releases so code-scanning viewers can track results over time
+  id: string;
+  description: string;
+  level: FindingLevel;
+}
+
+export interface Finding {
+  ruleId: string;
+  category: 'gaps' | 'quality' | 'recommendations';
+  level: FindingLevel;
+  message: string;
+  file?: string;
+  line?: number;
+  range?: Gap['range'];
+  fingerprint?: string;
+  // Only with a gap baseline: whether the gap was already known
+  baselineState?: 'new' | 'unchanged';
+}
+
+export const GAP_RULES: Record<Gap['type'], ReportRule> = {
+  todo: {
+    id: 'gap/todo',
+    description: 'TODO or FIXME comment left in the code',
+    level: 'note',
+  },
+  stub: {
+    id: 'gap/stub',
+    description: 'Function with an empty body or one that only throws "not implemented"',
+    level: 'warning',
+  },
+  mock: {
+    id: 'gap/mock',
+    description: 'Mock or fake data used in place of a real data source',
+    level: 'warning',
+  },
+  placeholder: {
+    id: 'gap/placeholder',
+    description: 'Component that renders only placeholder content',
+    level: 'warning',
+  },
+  incomplete: {
+    id: 'gap/incomplete',
+    description: 'Implementation that is started but not finished',
+    level: 'warning',
+  },
+  hardcoded: {
+    id: 'gap/hardcoded',
+    description: 'Secret or configuration value hardcoded in source instead of read from the environment',
+    level: 'warning',
+  },
+};
+
+export const QUALITY_RULES: Record<'tests' | 'typescript' | 'coverage', ReportRule> = {
+  tests: {
+    id: 'quality/no-tests',
+    description: 'No test files or test runner configuration found',
+    level: 'warning',
+  },
+  typescript: {
+    id: 'quality/no-typescript',
+    description: 'Project is not written in TypeScript',
+    level: 'note',
+  },
+  coverage: {
+    id: 'quality/low-coverage',
+    description: 'Line coverage below 60%',
+    level: 'warning',
+  },
+};
+
+const COVERAGE_THRESHOLD = 60;
+
+// Gaps, code quality checks and recommendations as one flat list of findings
+export function collectFindings(analysis: RepoAnalysis): Finding[] {
+  const findings: Finding[] = [];
+  // Compared by fingerprint since a cached analysis no longer shares gap objects
+  const newGaps = analysis.gapBaseline && new Set(analysis.gapBaseline.new.map(gap => gap.fingerprint));
+  
+  for (const gap of analysis.gaps ?? []) {
+    const finding: Finding = {
+      ruleId: GAP_RULES[gap.type].id,
+      category: 'gaps',
+      level: gapLevel(gap),
+      message: gap.functionName && !gap.description.includes(gap.functionName)
+        ? `${gap.description} (in ${gap.functionName})`
+        : gap.description,
+      file: gap.file,
+    };
+    if (gap.line) finding.line = gap.line;
+    if (gap.range) finding.range = gap.range;
+    if (gap.fingerprint) finding.fingerprint = gap.fingerprint;
+    if (newGaps) finding.baselineState = !gap.fingerprint || newGaps.has(gap.fingerprint) ? 'new' : 'unchanged';
+    findings.push(finding);
+  }
+  
+  if (analysis.hasCode) {
+    const quality = analysis.codeQuality;
+    if (!quality.hasTests) {
+      findings.push(qualityFinding('tests', 'No tests found'));
+    }
+    if (!quality.hasTypescript) {
+      findings.push(qualityFinding('typescript', 'No TypeScript configuration or sources found'));
+    }
+    
+    const coverage = quality.coverage;
+    if (quality.hasTests && coverage && !coverage.estimated) {
+      if (coverage.lines < COVERAGE_THRESHOLD) {
+        findings.push(qualityFinding('coverage', `Line coverage is ${coverage.lines}% (${coverage.source})`));
+      }
+      coverage.files
+        .filter(file => file.lines.pct < COVERAGE_THRESHOLD)
+        .forEach(file => findings.push({
+          ...qualityFinding('coverage', `Line coverage of ${file.file} is ${file.lines.pct}%`),
+          file: file.file,
+        }));
+    } else if (quality.hasTests && quality.metrics && quality.metrics.testCoverage < COVERAGE_THRESHOLD) {
+      findings.push(qualityFinding('coverage', `Estimated test coverage is ${quality.metrics.testCoverage}% (no coverage report found)`));
+    }
+  }
+  
+  for (const improvement of analysis.improvements) {
+    const colon = improvement.indexOf(':');
+    const [key, description] = colon === -1
+      ? [improvement, undefined]
+      : [improvement.slice(0, colon), improvement.slice(colon + 1)];
+    findings.push({
+      ruleId: recommendationRule(key).id,
+      category: 'recommendations',
+      level: 'note',
+      message: description?.trim() || key,
+    });
+  }
+  
+  return findings;
+}
+
+export function toSarif(analysis: RepoAnalysis): object {
+  const findings = collectFindings(analysis);
+  const rules = reportRules(analysis);
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+  
+  // Code scanning needs a location on every result; project-wide findings are reported as notifications
+  const results = findings.filter(finding => finding.file).map(finding => {
+    const result: Record<string, unknown> = {
+      ruleId: finding.ruleId,
+      ruleIndex: ruleIndex.get(finding.ruleId),
+      level: finding.level,
+      message: { text: finding.message },
+    };
+    
+    if (finding.file) {
+      const region = finding.range
+        ? {
+          // Babel columns are 0-based, SARIF's are 1-based
+          startLine: finding.range.start.line,
+          startColumn: finding.range.start.column + 1,
+          endLine: finding.range.end.line,
+          endColumn: finding.range.end.column + 1,
+        }
+        : finding.line ? { startLine: finding.line } : undefined;
+      result['locations'] = [{
+        physicalLocation: {
+          artifactLocation: { uri: encodeURI(finding.file), uriBaseId: 'SRCROOT' },
+          ...(region ? { region } : {}),
+        },
+      }];
+    }
+    
+    if (finding.fingerprint) {
+      result['partialFingerprints'] = { 'biokitGap/v1': finding.fingerprint };
+    }
+    if (finding.baselineState) {
+      result['baselineState'] = finding.baselineState;
+    }
+    
+    return result;
+  });
+  const notifications = findings.filter(finding => !finding.file).map(finding => ({
+    level: finding.level,
+    message: { text: finding.message },
+    associatedRule: { id: finding.ruleId, index: ruleIndex.get(finding.ruleId) },
+  }));
+  
+  const run: Record<string, unknown> = {
+    tool: {
+      driver: {
+        name: 'biokit-builder',
+        version: ANALYZER_VERSION,
+        rules: rules.map(rule => ({
+          id: rule.id,
+          shortDescription: { text: rule.description },
+          defaultConfiguration: { level: rule.level },
+        })),
+      },
+    },
+    results,
+  };
+  
+  if (notifications.length > 0) {
+    run['invocations'] = [{ executionSuccessful: true, toolExecutionNotifications: notifications }];
+  }
+  if (analysis.localPath) {
+    const root = pathToFileURL(analysis.localPath).href;
+    run['originalUriBaseIds'] = { SRCROOT: { uri: root.endsWith('/') ? root : `${root}/` } };
+  }
+  if (analysis.commitSha && analysis.source.kind === 'git') {
+    run['versionControlProvenance'] = [{
+      repositoryUri: analysis.source.location,
+      revisionId: analysis.commitSha,
+      ...(analysis.source.ref ? { branch: analysis.source.ref } : {}),
+    }];
+  }
+  
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [run],
+  };
+}
+
+// One suite per category and one test case per rule: a rule without findings passes,
+// every finding of a rule is a failed case, and gaps already in the baseline are skipped
+export function toJUnit(analysis: RepoAnalysis): string {
+  const findings = collectFindings(analysis);
+  const rules = reportRules(analysis);
+  const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, '');
+  
+  const suites: Array<{ name: string; cases: string[]; failures: number; skipped: number }> = [];
+  for (const category of ['gaps', 'quality', 'recommendations'] as const) {
+    if (category !== 'recommendations' && !analysis.hasCode) continue;
+    
+    const categoryRules = rules.filter(rule => ruleCategory(rule) === category);
+    const cases: string[] = [];
+    let failures = 0;
+    let skipped = 0;
+    
+    for (const rule of categoryRules) {
+      const ruleFindings = findings.filter(finding => finding.ruleId === rule.id);
+      if (ruleFindings.length === 0) {
+        cases.push(`    <testcase classname="${xml(rule.id)}" name="${xml(rule.description)}"/>`);
+        continue;
+      }
+      
+      ruleFindings.forEach(finding => {
+        const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}` : '';
+        const name = location ? `${location} ${finding.message}` : finding.message;
+        const outcome = finding.baselineState === 'unchanged'
+          ? '      <skipped message="In gap baseline"/>'
+          : `      <failure message="${xml(finding.message)}" type="${finding.level}">${xml(rule.description)}</failure>`;
+        cases.push([
+          `    <testcase classname="${xml(rule.id)}" name="${xml(name)}"${finding.file ? ` file="${xml(finding.file)}"` : ''}>`,
+          outcome,
+          '    </testcase>',
+        ].join('\n'));
+        if (finding.baselineState === 'unchanged') {
+          skipped += 1;
+        } else {
+          failures += 1;
+        }
+      });
+    }
+    
+    suites.push({ name: category, cases, failures, skipped });
+  }
+  
+  const tests = suites.reduce((sum, suite) => sum + suite.cases.length, 0);
+  const failures = suites.reduce((sum, suite) => sum + suite.failures, 0);
+  const skipped = suites.reduce((sum, suite) => sum + suite.skipped, 0);
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="biokit-builder" tests="${tests}" failures="${failures}" skipped="${skipped}">`,
+    ...suites.flatMap(suite => [
+      `  <testsuite name="${suite.name}" tests="${suite.cases.length}" failures="${suite.failures}" errors="0" skipped="${suite.skipped}" timestamp="${timestamp}">`,
+      ...suite.cases,
+      '  </testsuite>',
+    ]),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function gapLevel(gap: Gap): FindingLevel {
+  if (gap.hardcoded?.secret || gap.priority === 'high') return 'error';
+  if (gap.priority === 'low') return 'note';
+  return GAP_RULES[gap.type].level;
+}
+
+function qualityFinding(check: keyof typeof QUALITY_RULES, message: string): Finding {
+  const rule = QUALITY_RULES[check];
+  return { ruleId: rule.id, category: 'quality', level: rule.level, message };
+}
+
+// Every gap and quality rule, so viewers list checks that passed too, plus the recommendations made
+function reportRules(analysis: RepoAnalysis): ReportRule[] {
+  const recommendations = [...new Set(analysis.improvements.map(improvement => improvement.split(':')[0] ?? improvement))]
+    .map(recommendationRule);
+  return [...Object.values(GAP_RULES), ...Object.values(QUALITY_RULES), ...recommendations];
+}
+
+// Recommendation keys are open-ended, so the id is derived from the key itself
+function recommendationRule(key: string): ReportRule {
+  return {
+    id: `recommendation/${key}`,
+    description: `Recommended improvement ${key}`,
+    level: 'note',
+  };
+}
+
+function ruleCategory(rule: ReportRule): Finding['category'] {
+  return rule.id.startsWith('gap/') ? 'gaps' : rule.id.startsWith('quality/') ? 'quality' : 'recommendations';
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines aren't allowed in XML 1.0
+    .split('')
+    .filter(char => char.charCodeAt(0) >= 0x20 || char === '\t' || char === '\n' || char === '\r')
+    .join('');
+}
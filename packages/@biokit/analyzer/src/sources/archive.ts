@@ -0,0 +1,54 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { extract } from 'tar';
+import extractZip from 'extract-zip';
+import { hashFile } from './fingerprint';
+import type { RepoSourceProvider } from './index';
+
+const ARCHIVE_PATTERN = /\.(tar\.gz|tgz|tar|zip)$/i;
+
+export const archiveSource: RepoSourceProvider = {
+  kind: 'archive',
+  temporary: true,
+  
+  async detect(location) {
+    if (!ARCHIVE_PATTERN.test(location)) return false;
+    const stat = await fs.stat(location).catch(() => null);
+    return stat?.isFile() ?? false;
+  },
+  
+  async fetch(location, targetDir, { ref }) {
+    if (ref) {
+      throw new Error('Archives are a single snapshot and cannot be checked out at a ref');
+    }
+    
+    console.log(`Extracting archive: ${location}`);
+    
+    if (/\.zip$/i.test(location)) {
+      await extractZip(path.resolve(location), { dir: targetDir });
+    } else {
+      await extract({ file: location, cwd: targetDir });
+    }
+    
+    return unwrapSingleDirectory(targetDir);
+  },
+  
+  async revision(location) {
+    return hashFile(location);
+  },
+};
+
+// GitHub-style exports wrap everything in a single `<repo>-<ref>/` folder
+async function unwrapSingleDirectory(dir: string): Promise<string> {
+  const entries = (await fs.readdir(dir)).filter(entry => !entry.startsWith('.'));
+  const [onlyEntry] = entries;
+  
+  if (entries.length === 1 && onlyEntry) {
+    const entryPath = path.join(dir, onlyEntry);
+    if ((await fs.stat(entryPath)).isDirectory()) {
+      return entryPath;
+    }
+  }
+  
+  return dir;
+}
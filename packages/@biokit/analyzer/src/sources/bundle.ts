@@ -0,0 +1,49 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { hashFile } from './fingerprint';
+import type { RepoSourceProvider } from './index';
+
+const BUNDLE_HEADER = /^# v[23] git bundle/;
+
+export const bundleSource: RepoSourceProvider = {
+  kind: 'bundle',
+  temporary: true,
+  
+  async detect(location) {
+    const stat = await fs.stat(location).catch(() => null);
+    if (!stat?.isFile()) return false;
+    if (location.endsWith('.bundle')) return true;
+    
+    // Bundles don't need a conventional extension, so sniff the header
+    const handle = await fs.open(location, 'r');
+    try {
+      const buffer = Buffer.alloc(16);
+      await fs.read(handle, buffer, 0, buffer.length, 0);
+      return BUNDLE_HEADER.test(buffer.toString('utf-8'));
+    } finally {
+      await fs.close(handle);
+    }
+  },
+  
+  async fetch(location, targetDir, { ref }) {
+    console.log(`Cloning git bundle: ${location}`);
+    await simpleGit().clone(path.resolve(location), targetDir);
+    
+    if (ref) {
+      // Only the bundle's HEAD branch is local after cloning; other branches are origin/<ref>
+      const git = simpleGit(targetDir);
+      const remoteBranch = await git
+        .revparse(['--verify', '--quiet', `refs/remotes/origin/${ref}`])
+        .then(sha => sha.trim() ? `origin/${ref}` : undefined)
+        .catch(() => undefined);
+      await git.checkout(['--detach', remoteBranch ?? ref]);
+    }
+    
+    return targetDir;
+  },
+  
+  async revision(location, { ref }) {
+    return `${await hashFile(location)}${ref ? `:${ref}` : ''}`;
+  },
+};
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { globby } from 'globby';
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+  
+  return hash.digest('hex');
+}
+
+// Working copies have no stable id, so hash every file's path, size and mtime
+export async function fingerprintDirectory(dir: string): Promise<string> {
+  const entries = await globby('**/*', {
+    cwd: dir,
+    dot: true,
+    objectMode: true,
+    stats: true,
+    ignore: ['**/node_modules/**', '**/.git/**'],
+  });
+  
+  const hash = crypto.createHash('sha256');
+  entries
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .forEach(entry => {
+      hash.update(`${entry.path}:${entry.stats?.size}:${entry.stats?.mtimeMs}\n`);
+    });
+  
+  return hash.digest('hex');
+}
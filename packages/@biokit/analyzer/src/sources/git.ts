@@ -0,0 +1,56 @@
+import simpleGit from 'simple-git';
+import type { RepoSourceProvider } from './index';
+
+const GIT_URL_PATTERNS = [
+  /^(https?|ssh|git|file):\/\//,
+  /^[\w.-]+@[\w.-]+:/,
+  /\.git\/?$/,
+];
+
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+export const gitSource: RepoSourceProvider = {
+  kind: 'git',
+  temporary: true,
+  
+  async detect(location) {
+    return GIT_URL_PATTERNS.some(pattern => pattern.test(location));
+  },
+  
+  async fetch(location, targetDir, { ref, history }) {
+    console.log(`Cloning repository: ${location}${ref ? ` (${ref})` : ''}`);
+    const depth = history ? [] : ['--depth', '1'];
+    
+    if (!ref) {
+      await simpleGit().clone(location, targetDir, depth);
+      return targetDir;
+    }
+    
+    // Fetch just the requested branch, tag or SHA instead of the default branch
+    const git = simpleGit(targetDir);
+    await git.init();
+    await git.addRemote('origin', location);
+    
+    try {
+      await git.fetch([...depth, 'origin', ref]);
+      await git.checkout(['--detach', 'FETCH_HEAD']);
+    } catch {
+      // Abbreviated SHAs and some servers can't be fetched directly
+      await git.fetch(['--tags', 'origin']);
+      await git.checkout(['--detach', ref]);
+    }
+    
+    return targetDir;
+  },
+  
+  async revision(location, { ref }) {
+    if (ref && FULL_SHA_PATTERN.test(ref)) {
+      return ref.toLowerCase();
+    }
+    
+    // Abbreviated SHAs can't be resolved remotely; those are keyed after cloning
+    const output = await simpleGit().listRemote([location, ref ?? 'HEAD']);
+    const [sha] = output.trim().split(/\s+/);
+    return sha || undefined;
+  },
+};
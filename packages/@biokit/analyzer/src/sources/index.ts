@@ -0,0 +1,163 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { gitSource } from './git';
+import { localSource } from './local';
+import { archiveSource } from './archive';
+import { bundleSource } from './bundle';
+import { createWorkspace, disposeWorkspace } from '../workspace';
+import type { AnalyzeOptions, RepoSource, RepoSourceKind } from '../types';
+
+export interface SourceFetchOptions {
+  ref?: string;
+  // Clone the whole history rather than the tip, e.g. for blame
+  history?: boolean;
+}
+
+export interface RepoSourceProvider {
+  kind: RepoSourceKind;
+  // Whether fetch() materializes the source into a temp dir we own
+  temporary: boolean;
+  detect(location: string): Promise<boolean>;
+  fetch(location: string, targetDir: string, options: SourceFetchOptions): Promise<string>;
+  // Cheap revision id computed without fetching, used as the cache key
+  revision?(location: string, options: SourceFetchOptions): Promise<string | undefined>;
+}
+
+export interface IdentifiedSource {
+  provider: RepoSourceProvider;
+  source: RepoSource;
+  revision?: string;
+}
+
+export interface ResolvedSource {
+  source: RepoSource;
+  repoPath: string;
+  commitSha?: string;
+  tempDir?: string;
+}
+
+// Order matters: file-based sources first, git URLs as the last resort
+const providers: RepoSourceProvider[] = [bundleSource, archiveSource, localSource, gitSource];
+
+export function registerSourceProvider(provider: RepoSourceProvider): void {
+  providers.unshift(provider);
+}
+
+export async function detectSource(location: string): Promise<RepoSourceProvider> {
+  for (const provider of providers) {
+    if (await provider.detect(location)) {
+      return provider;
+    }
+  }
+  
+  throw new Error(`Unsupported repository source: ${location}`);
+}
+
+export async function identifySource(
+  location: string,
+  options: AnalyzeOptions = {}
+): Promise<IdentifiedSource> {
+  const provider = await detectSource(location);
+  const source = createSource(provider, location, options);
+  
+  const revision = await provider
+    .revision?.(location, toFetchOptions(options))
+    .catch(() => undefined);
+  return revision ? { provider, source, revision } : { provider, source };
+}
+
+export async function resolveSource(
+  location: string,
+  options: AnalyzeOptions = {}
+): Promise<ResolvedSource> {
+  let provider = await detectSource(location);
+  let fetchLocation = location;
+  let subpath = options.path;
+  const source = createSource(provider, location, options);
+  
+  // A ref can't be checked out in someone's working copy, so clone it instead;
+  // the clone is of the whole repository, so keep the folder that was pointed at
+  if (provider.kind === 'local' && options.ref) {
+    fetchLocation = await findGitRoot(location);
+    provider = gitSource;
+    const folder = path.relative(fetchLocation, await fs.realpath(location));
+    if (folder) {
+      subpath = path.join(folder, options.path ?? '');
+    }
+  }
+  
+  const fetchOptions = toFetchOptions(options);
+  
+  if (!provider.temporary) {
+    const rootPath = await provider.fetch(fetchLocation, '', fetchOptions);
+    return withCommit({ source, repoPath: await resolveSubpath(rootPath, subpath) });
+  }
+  
+  // The workspace manager owns the checkout or extraction from here on
+  const tempDir = await createWorkspace();
+  
+  try {
+    const rootPath = await provider.fetch(fetchLocation, tempDir, fetchOptions);
+    const repoPath = await resolveSubpath(rootPath, subpath);
+    return withCommit({ source, repoPath, tempDir });
+  } catch (error) {
+    await disposeWorkspace(tempDir);
+    throw error;
+  }
+}
+
+function createSource(
+  provider: RepoSourceProvider,
+  location: string,
+  options: AnalyzeOptions
+): RepoSource {
+  const source: RepoSource = { kind: provider.kind, location };
+  if (options.ref) source.ref = options.ref;
+  if (options.path) source.path = options.path;
+  if (options.package) source.package = options.package;
+  return source;
+}
+
+function toFetchOptions(options: AnalyzeOptions): SourceFetchOptions {
+  const fetchOptions: SourceFetchOptions = options.ref ? { ref: options.ref } : {};
+  if (options.blame) {
+    fetchOptions.history = true;
+  }
+  return fetchOptions;
+}
+
+async function resolveSubpath(rootPath: string, subpath: string | undefined): Promise<string> {
+  if (!subpath) return rootPath;
+  
+  const repoPath = path.resolve(rootPath, subpath);
+  if (path.relative(rootPath, repoPath).startsWith('..')) {
+    throw new Error(`Path "${subpath}" is outside the repository`);
+  }
+  
+  const stat = await fs.stat(repoPath).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Path "${subpath}" does not exist in the repository`);
+  }
+  
+  return repoPath;
+}
+
+async function findGitRoot(dir: string): Promise<string> {
+  const git = simpleGit(path.resolve(dir));
+  if (!(await git.checkIsRepo())) {
+    throw new Error(`Cannot check out a ref: ${dir} is not a git repository`);
+  }
+  return (await git.revparse(['--show-toplevel'])).trim();
+}
+
+// Record the resolved commit so reports and generated output are reproducible
+async function withCommit(resolved: ResolvedSource): Promise<ResolvedSource> {
+  const git = simpleGit(resolved.repoPath);
+  if (await git.checkIsRepo().catch(() => false)) {
+    resolved.commitSha = (await git.revparse(['HEAD'])).trim();
+  }
+  return resolved;
+}
+
+export { gitSource, localSource, archiveSource, bundleSource };
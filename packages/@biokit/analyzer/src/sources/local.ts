@@ -0,0 +1,27 @@
+import fs from 'fs-extra';
+import path from 'path';
+import simpleGit from 'simple-git';
+import { fingerprintDirectory } from './fingerprint';
+import type { RepoSourceProvider } from './index';
+
+// Working copies and monorepo subfolders are analyzed in place, never copied
+export const localSource: RepoSourceProvider = {
+  kind: 'local',
+  temporary: false,
+  
+  async detect(location) {
+    const stat = await fs.stat(location).catch(() => null);
+    return stat?.isDirectory() ?? false;
+  },
+  
+  async fetch(location) {
+    return path.resolve(location);
+  },
+  
+  async revision(location, { ref }) {
+    if (ref) {
+      return (await simpleGit(path.resolve(location)).revparse([`${ref}^{commit}`])).trim();
+    }
+    return fingerprintDirectory(location);
+  },
+};
@@ -4,18 +4,137 @@ export type RepoType =
   | 'existing-app'          // Full app needing enhancement
   | 'hybrid';               // Mix of implemented and planned features
 
+export type RepoSourceKind = 'git' | 'local' | 'archive' | 'bundle';
+
+export interface RepoSource {
+  kind: RepoSourceKind;
+  location: string;
+  ref?: string;
+  path?: string;
+  // Workspace package the analysis was narrowed to
+  package?: string;
+}
+
+export interface AnalyzeOptions {
+  ref?: string;
+  path?: string;
+  // Workspace package name (or folder) to analyze instead of the whole repo
+  package?: string;
+  // Local advisory database (JSON) to check locked dependency versions against
+  advisoryDb?: string;
+  // Gap baseline (JSON) to report new and resolved gaps against
+  baseline?: string;
+  // Attribute gaps to the last commit touching their line; needs full git history
+  blame?: boolean;
+  // Age in days from which a blamed gap counts as stale; DEFAULT_STALE_DAYS otherwise
+  staleDays?: number;
+  // Set to false to skip reading and writing the on-disk analysis cache
+  cache?: boolean;
+}
+
+export type FrameworkId =
+  | 'nextjs'
+  | 'remix'
+  | 'gatsby'
+  | 'create-react-app'
+  | 'vite-react'
+  | 'react'
+  | 'nuxt'
+  | 'vue'
+  | 'sveltekit'
+  | 'svelte'
+  | 'angular'
+  | 'express'
+  | 'fastify'
+  | 'koa'
+  | 'python'
+  | 'unknown';
+
+export interface FrameworkInfo {
+  id: FrameworkId;
+  name: string;
+  category: 'frontend' | 'fullstack' | 'backend' | 'unknown';
+  majorVersion?: number;
+  // Next.js only
+  router?: 'pages' | 'app' | 'both';
+  bundler?: 'vite' | 'webpack' | 'turbopack' | 'esbuild' | 'parcel' | 'rollup';
+  ssr: boolean;
+  ssg: boolean;
+  reactVersion?: number;
+}
+
 export interface CodeQuality {
   hasTests: boolean;
   hasTypescript: boolean;
   designSystem: 'biokit' | 'material-ui' | 'ant-design' | 'chakra' | 'tailwind' | 'other' | 'none';
-  framework: string;
+  framework: FrameworkInfo;
   packageManager: 'npm' | 'yarn' | 'pnpm';
   metrics?: {
     linesOfCode: number;
     fileCount: number;
+    // Line coverage percentage; see coverage.estimated for how it was obtained
     testCoverage: number;
     componentCount: number;
   };
+  coverage?: CoverageReport;
+}
+
+export interface CoverageMetric {
+  covered: number;
+  total: number;
+  pct: number;
+}
+
+export interface FileCoverage {
+  file: string;
+  lines: CoverageMetric;
+  branches?: CoverageMetric;
+  functions?: CoverageMetric;
+}
+
+export interface CoverageReport {
+  // 'estimate' means no report was found and lines is the test-file to code-file ratio
+  source: 'istanbul' | 'lcov' | 'cobertura' | 'json-summary' | 'test-results' | 'estimate';
+  estimated: boolean;
+  // Report files the numbers were read from
+  reports: string[];
+  lines: number;
+  branches?: number;
+  functions?: number;
+  files: FileCoverage[];
+}
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'unknown';
+
+export interface VulnerableDependency {
+  name: string;
+  version: string;
+  // Advisory id from the database, e.g. GHSA-xxxx
+  id: string;
+  severity: 'low' | 'moderate' | 'high' | 'critical';
+  title: string;
+  url?: string;
+  vulnerableVersions: string;
+  // Whether package.json depends on this exact copy
+  direct: boolean;
+}
+
+export interface DependencyAnalysis {
+  lockfile: string;
+  packageManager: 'npm' | 'yarn' | 'pnpm';
+  packageCount: number;
+  directCount: number;
+  // Direct dependencies a major version (or more) behind the advisory database's latest
+  outdated: Array<{ name: string; current: string; latest: string; majorsBehind: number }>;
+  // Packages locked at more than one version
+  duplicates: Array<{ name: string; versions: string[]; direct: boolean }>;
+  deprecated: Array<{ name: string; version: string; message: string }>;
+  licenses: Record<LicenseCategory, number>;
+  // Copyleft or unrecognized licenses worth a review
+  licenseFindings: Array<{ name: string; version: string; license: string; category: LicenseCategory }>;
+  vulnerabilities: VulnerableDependency[];
+  // Advisory database the versions were checked against; without one only health checks run
+  advisoryDb?: string;
 }
 
 export interface RequirementsInfo {
@@ -31,11 +150,165 @@ export interface ExtractedFeature {
   description?: string;
   priority?: 'high' | 'medium' | 'low';
   status?: 'planned' | 'in-progress' | 'completed';
+  // Source file plus the path of parent features, e.g. docs/prd.md#user-management/invites
+  id?: string;
+  // id of the feature this one is a sub-feature of
+  parent?: string;
+  children?: string[];
+  source?: FeatureSource;
+  // From the `owner` front matter of the document defining the feature
+  owner?: string;
+  // Specs, flows and data model documents whose front matter `feature-id` names this feature
+  documents?: string[];
+  acceptanceCriteria?: AcceptanceCriterion[];
+  // Whether `status` was written in the document or inferred from the code that implements it
+  statusSource?: 'document' | 'code';
+  evidence?: TraceEvidence[];
+}
+
+// Code that implements or tests a feature
+export interface TraceEvidence {
+  kind: 'page' | 'component' | 'route' | 'test' | 'code';
+  file: string;
+  line?: number;
+  // The route path, identifier, test title or tag that matched
+  match: string;
+  // An explicit `@feature` tag, or a route path, name or test title resembling the feature's name
+  via: 'tag' | 'route' | 'name' | 'test-title';
+}
+
+// Counts over leaf features, the ones without sub-features
+export interface TraceabilitySummary {
+  completed: number;
+  inProgress: number;
+  planned: number;
+  // `@feature` tags naming no extracted feature
+  unmatchedTags: TraceEvidence[];
+}
+
+export interface AcceptanceCriterion {
+  // As written: a checklist item, or the lines of a scenario
+  text: string;
+  // Title of a Gherkin scenario
+  scenario?: string;
+  steps?: GherkinStep[];
+  source?: Pick<FeatureSource, 'file' | 'line'>;
+}
+
+export interface GherkinStep {
+  keyword: 'Given' | 'When' | 'Then' | 'And' | 'But';
+  text: string;
+}
+
+export interface FeatureSource {
+  file: string;
+  line?: number;
+  // Headings the feature sits under, outermost first
+  headingPath: string[];
+}
+
+// An entity from a spec: a TypeScript interface, JSON Schema, SQL table, Prisma model or Markdown field table
+export interface DataModel {
+  name: string;
+  description?: string;
+  fields: DataField[];
+  relations: DataRelation[];
+  source: DataModelSource;
+}
+
+export type DataFieldType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'json' | 'enum' | 'reference' | 'unknown';
+
+export interface DataField {
+  name: string;
+  type: DataFieldType;
+  // Type as written, e.g. varchar(255), User[] or DateTime?
+  rawType: string;
+  required: boolean;
+  list?: boolean;
+  primaryKey?: boolean;
+  unique?: boolean;
+  default?: string;
+  enumValues?: string[];
+  // Model the field points to, for references and foreign keys
+  references?: string;
+  description?: string;
+}
+
+export interface DataRelation {
+  field: string;
+  target: string;
+  kind: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+}
+
+// An endpoint from an OpenAPI/Swagger document or a root field of a GraphQL schema
+export interface ApiOperation {
+  kind: 'rest' | 'graphql';
+  // HTTP method for REST; query, mutation or subscription for GraphQL
+  method: string;
+  // Path as the spec writes it, e.g. /users/{id}; the field name for GraphQL
+  path: string;
+  // Path of the spec's server URL that `path` is relative to, e.g. /api/v1
+  basePath?: string;
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  source: { file: string; line?: number };
+  // Set once checked against the code; the file that serves it when implemented
+  status?: 'implemented' | 'missing';
+  implementedBy?: string;
+}
+
+export interface ApiCoverage {
+  operations: ApiOperation[];
+  implemented: number;
+  missing: number;
+  // API routes in the code that no REST spec describes
+  undocumented: RouteInfo[];
+}
+
+export interface DataModelSource {
+  file: string;
+  line?: number;
+  format: 'typescript' | 'json-schema' | 'sql' | 'prisma' | 'markdown';
+}
+
+// An image, SVG, PDF or design tool export found with the requirements
+export interface MockupInfo {
+  file: string;
+  format: 'png' | 'jpeg' | 'gif' | 'webp' | 'svg' | 'pdf' | 'figma' | 'sketch';
+  // Screen named by the file, e.g. 02-user-profile@2x--mobile.png is "User Profile"
+  screen: string;
+  // mobile, tablet, desktop, dark or light, when the file name says so
+  variant?: string;
+  width?: number;
+  height?: number;
+  // Text shown in an SVG, in document order
+  texts?: string[];
+  // Named groups of an SVG, as design tools export layers
+  layers?: string[];
+  // Top-level frames of a Figma or Sketch export, with the frames nested in them
+  frames?: MockupFrame[];
+  // Feature and page the mockup most likely depicts
+  feature?: string;
+  page?: string;
+}
+
+export interface MockupFrame {
+  name: string;
+  // FRAME, COMPONENT, artboard, group...
+  type: string;
+  width?: number;
+  height?: number;
+  texts?: string[];
+  children?: MockupFrame[];
 }
 
 export interface RepoAnalysis {
   type: RepoType;
   repoUrl: string;
+  source: RepoSource;
+  commitSha?: string;
   localPath?: string;
   hasCode: boolean;
   hasRequirements: boolean;
@@ -43,6 +316,19 @@ export interface RepoAnalysis {
   requirements: RequirementsInfo;
   improvements: string[];
   extractedFeatures?: ExtractedFeature[];
+  dataModels?: DataModel[];
+  apiCoverage?: ApiCoverage;
+  traceability?: TraceabilitySummary;
+  mockups?: MockupInfo[];
+  components?: ComponentInfo[];
+  routes?: RouteInfo[];
+  imports?: ImportGraph;
+  dependencies?: DependencyAnalysis;
+  accessibility?: AccessibilityIssue[];
+  designSystemUsage?: DesignSystemUsage;
+  gaps?: Gap[];
+  gapBaseline?: GapBaselineDiff;
+  workspace?: WorkspaceInfo;
   fileTree?: string;
   config?: BiokitConfig;
 }
@@ -61,6 +347,18 @@ export interface BiokitConfig {
     platform: string;
     autoDeploy: boolean;
   };
+  analysis?: {
+    // Extra glob patterns to skip, on top of .gitignore and the built-in ignores
+    ignore?: string[];
+    // Advisory database (JSON) relative to the repository root
+    advisoryDb?: string;
+    gaps?: {
+      // Paths (globs relative to the repository root) whose gaps aren't reported
+      ignore?: GapIgnoreRule[];
+      // Baseline file relative to the analyzed folder (the package with --package)
+      baseline?: string;
+    };
+  };
 }
 
 export interface FileInfo {
@@ -70,6 +368,207 @@ export interface FileInfo {
   size: number;
 }
 
+export interface ComponentInfo {
+  name: string;
+  file: string;
+  line: number;
+  exportType: 'default' | 'named';
+  kind: 'function' | 'arrow' | 'class' | 'memo' | 'forwardRef';
+  propsType?: string;
+  props: string[];
+  hooks: string[];
+}
+
+export interface RouteInfo {
+  // URL path as the framework serves it, e.g. /users/[id]
+  path: string;
+  file: string;
+  kind: 'page' | 'api';
+  // Empty when the handler accepts any method
+  methods: string[];
+  component?: string;
+}
+
+export interface Gap {
+  type: 'todo' | 'stub' | 'mock' | 'placeholder' | 'incomplete' | 'hardcoded';
+  file: string;
+  line?: number;
+  description: string;
+  priority?: 'high' | 'medium' | 'low';
+  // Span of the offending construct when found on the syntax tree
+  range?: SourceRange;
+  // Function the gap is in (or is), e.g. POST or UserCard
+  functionName?: string;
+  // Stable across unrelated edits that shift line numbers
+  fingerprint?: string;
+  // Only on 'hardcoded' gaps; the raw value is never stored
+  hardcoded?: HardcodedValue;
+  // Only with blame, and only for committed lines
+  owner?: GapOwner;
+}
+
+export interface GapOwner {
+  author: string;
+  email?: string;
+  commit: string;
+  // Author date of the commit, ISO 8601
+  date: string;
+  // Days between that date and the analysis
+  ageDays: number;
+}
+
+export interface StaleGapGroup {
+  directory: string;
+  count: number;
+  byType: Partial<Record<Gap['type'], number>>;
+  authors: string[];
+  oldestDays: number;
+}
+
+// A glob ignores every gap in matching files; with types, only gaps of those types
+export type GapIgnoreRule = string | { path: string; types?: Gap['type'][] };
+
+export interface BaselineGap {
+  fingerprint: string;
+  type: Gap['type'];
+  file: string;
+  line?: number;
+  description: string;
+}
+
+export interface GapBaseline {
+  version: 1;
+  createdAt: string;
+  commitSha?: string;
+  gaps: BaselineGap[];
+}
+
+export interface GapBaselineDiff {
+  // Baseline file the gaps were compared with
+  file: string;
+  createdAt: string;
+  new: Gap[];
+  resolved: BaselineGap[];
+  unchanged: number;
+}
+
+// Lines are 1-based and columns 0-based, as Babel reports them
+export interface SourceRange {
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+}
+
+export interface HardcodedValue {
+  kind: 'api-key' | 'token' | 'private-key' | 'password' | 'secret' | 'connection-string' | 'url';
+  // Known issuer of the credential, e.g. Stripe or AWS
+  provider?: string;
+  // Credentials must not be logged or committed; plain URLs may be
+  secret: boolean;
+  envVar: string;
+  // Redacted rendering of the value, safe to print
+  preview: string;
+}
+
+export interface AccessibilityIssue {
+  rule: 'img-alt' | 'click-non-interactive' | 'form-label' | 'heading-order' | 'html-lang' | 'color-only';
+  file: string;
+  line: number;
+  message: string;
+  // WCAG 2.1 success criterion the rule maps to, e.g. 1.1.1
+  wcag: string;
+}
+
+export interface DesignSystemComponentUsage {
+  // JSX name as imported, e.g. Button or Typography.Text
+  name: string;
+  usages: number;
+  files: number;
+  // Covered by the biokit migration's component mappings
+  autoMigratable: boolean;
+}
+
+export interface DesignSystemLibraryUsage {
+  // Package name; 'custom' for the repo's own components
+  library: string;
+  system: CodeQuality['designSystem'];
+  usages: number;
+  files: number;
+  components: DesignSystemComponentUsage[];
+}
+
+export interface DesignSystemUsage {
+  libraries: DesignSystemLibraryUsage[];
+  // More than one design system (custom components aside) is in use
+  mixed: boolean;
+  totalUsages: number;
+  biokitUsages: number;
+  biokitPercentage: number;
+  // Usages outside biokit the component mappings can or can't convert
+  migration: {
+    autoMigratable: number;
+    manual: number;
+  };
+}
+
+export interface ModuleImport {
+  specifier: string;
+  kind: 'relative' | 'alias' | 'package' | 'builtin' | 'unresolved';
+  // Repo-relative target for relative and alias imports
+  resolved?: string;
+  packageName?: string;
+  // Imported bindings: 'default', '*' for namespaces, otherwise the exported name
+  names: string[];
+  typeOnly: boolean;
+  line: number;
+}
+
+export interface ModuleInfo {
+  file: string;
+  imports: ModuleImport[];
+  importedBy: string[];
+  fanIn: number;
+  fanOut: number;
+}
+
+export interface UiLibraryUsage {
+  file: string;
+  library: string;
+  components: string[];
+}
+
+export interface ImportGraph {
+  modules: ModuleInfo[];
+  // Modules nothing imports that aren't entry points, pages, tests or config
+  unusedFiles: string[];
+  cycles: string[][];
+  uiLibraries: UiLibraryUsage[];
+}
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'turborepo' | 'nx';
+
+export interface WorkspacePackage {
+  name: string;
+  // Folder relative to the repository (or --path) root
+  path: string;
+  version?: string;
+  private: boolean;
+  // Other packages in the same workspace this one depends on
+  internalDependencies: string[];
+}
+
+export interface PackageAnalysis extends WorkspacePackage {
+  hasCode: boolean;
+  codeQuality: CodeQuality;
+  components: ComponentInfo[];
+  routes: RouteInfo[];
+  unusedFiles: string[];
+}
+
+export interface WorkspaceInfo {
+  tools: WorkspaceTool[];
+  packages: PackageAnalysis[];
+}
+
 export interface ImprovementRecommendation {
   key: string;
   description: string;
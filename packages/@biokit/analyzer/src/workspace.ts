@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+
+export const DEFAULT_WORKSPACE_MAX_AGE_DAYS = 7;
+
+const active = new Set<string>();
+let keepOnExit = false;
+let exitHandlersInstalled = false;
+let collectedStale = false;
+
+export function getWorkspaceRoot(): string {
+  return path.join(os.tmpdir(), 'biokit-builder');
+}
+
+// Keep checkouts around after the process exits, e.g. for --keep-workspace
+export function keepWorkspaces(keep: boolean = true): void {
+  keepOnExit = keep;
+}
+
+export async function createWorkspace(): Promise<string> {
+  // Opportunistically clean up after runs that crashed or were killed
+  if (!collectedStale) {
+    collectedStale = true;
+    await gcWorkspaces().catch(() => 0);
+  }
+  
+  const dir = path.join(
+    getWorkspaceRoot(),
+    `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`
+  );
+  await fs.ensureDir(dir);
+  
+  active.add(dir);
+  installExitHandlers();
+  
+  return dir;
+}
+
+export async function disposeWorkspace(dir: string): Promise<void> {
+  active.delete(dir);
+  await fs.remove(dir);
+}
+
+export function disposeAllWorkspaces(): void {
+  for (const dir of active) {
+    fs.removeSync(dir);
+  }
+  active.clear();
+}
+
+export async function gcWorkspaces(
+  maxAgeDays: number = DEFAULT_WORKSPACE_MAX_AGE_DAYS
+): Promise<number> {
+  const root = getWorkspaceRoot();
+  if (!(await fs.pathExists(root))) {
+    return 0;
+  }
+  
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  
+  for (const entry of await fs.readdir(root)) {
+    const dir = path.join(root, entry);
+    if (active.has(dir)) continue;
+    
+    const stat = await fs.stat(dir).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.remove(dir);
+      removed++;
+    }
+  }
+  
+  return removed;
+}
+
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) return;
+  exitHandlersInstalled = true;
+  
+  process.on('exit', () => {
+    if (!keepOnExit) {
+      disposeAllWorkspaces();
+    }
+  });
+  
+  // Signals skip the 'exit' event unless we exit explicitly
+  for (const [signal, code] of [['SIGINT', 130], ['SIGTERM', 143]] as const) {
+    process.once(signal, () => process.exit(code));
+  }
+}
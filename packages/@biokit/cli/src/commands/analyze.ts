@@ -1,27 +1,102 @@
+import path from 'path';
+import fs from 'fs-extra';
 import chalk from 'chalk';
 import ora from 'ora';
-import { analyzeRepository } from '@biokit/analyzer';
+import {
+  analyzeRepository,
+  DEFAULT_GAP_BASELINE,
+  DEFAULT_STALE_DAYS,
+  formatFramework,
+  keepWorkspaces,
+  staleGapsByDirectory,
+  toJUnit,
+  toSarif,
+  writeGapBaseline,
+} from '@biokit/analyzer';
+import type { ApiOperation, ExtractedFeature, Gap, TraceEvidence } from '@biokit/analyzer';
 
 interface AnalyzeOptions {
-  format: 'json' | 'markdown';
+  format: 'json' | 'markdown' | 'sarif' | 'junit';
+  output?: string;
   verbose: boolean;
+  ref?: string;
+  path?: string;
+  package?: string;
+  advisoryDb?: string;
+  baseline?: string;
+  updateBaseline: boolean;
+  blame: boolean;
+  staleDays?: string;
+  cache: boolean;
+  keepWorkspace: boolean;
 }
 
-export async function analyzeCommand(repoUrl: string, options: AnalyzeOptions) {
+export async function analyzeCommand(source: string, options: AnalyzeOptions) {
+  if (!['json', 'markdown', 'sarif', 'junit'].includes(options.format)) {
+    console.error(chalk.red(`Unknown format ${options.format}; use json, markdown, sarif or junit`));
+    process.exit(1);
+  }
+  if (options.output && options.format === 'markdown') {
+    console.error(chalk.red('--output needs --format json, sarif or junit'));
+    process.exit(1);
+  }
+  
+  const staleDays = options.staleDays ? Number(options.staleDays) : DEFAULT_STALE_DAYS;
   const spinner = ora('Analyzing repository...').start();
+  keepWorkspaces(options.keepWorkspace);
   
   try {
-    const analysis = await analyzeRepository(repoUrl);
+    const analysis = await analyzeRepository(source, { ...options, staleDays });
     spinner.succeed('Analysis complete');
     
-    if (options.format === 'json') {
-      console.log(JSON.stringify(analysis, null, 2));
+    if (options.keepWorkspace && analysis.localPath) {
+      console.error(chalk.gray(`Workspace kept at ${analysis.localPath}`));
+    }
+    
+    // Record today's gaps so later runs only report what changed
+    if (options.updateBaseline) {
+      const baselineFile = options.baseline
+        ? path.resolve(options.baseline)
+        : analysis.source.kind === 'local' && analysis.localPath
+          ? path.join(analysis.localPath, analysis.config?.analysis?.gaps?.baseline ?? DEFAULT_GAP_BASELINE)
+          : undefined;
+      if (!baselineFile) {
+        throw new Error('Pass --baseline <file> to choose where to write the baseline of a remote repository');
+      }
+      const baseline = await writeGapBaseline(baselineFile, analysis.gaps ?? [], analysis.commitSha);
+      console.error(chalk.green(`Gap baseline written to ${baselineFile} (${baseline.gaps.length} gaps)`));
+    }
+    
+    if (options.format !== 'markdown') {
+      const report = options.format === 'sarif'
+        ? JSON.stringify(toSarif(analysis), null, 2)
+        : options.format === 'junit'
+          ? toJUnit(analysis)
+          : JSON.stringify(analysis, null, 2);
+      if (options.output) {
+        await fs.outputFile(options.output, report.endsWith('\n') ? report : `${report}\n`);
+        console.error(chalk.green(`${options.format} report written to ${options.output}`));
+      } else {
+        console.log(report.trimEnd());
+      }
       return;
     }
     
     // Markdown format
     console.log(chalk.cyan('\n# Repository Analysis Report\n'));
-    console.log(`**Repository:** ${repoUrl}`);
+    console.log(`**Repository:** ${source}`);
+    if (analysis.source.ref) {
+      console.log(`**Ref:** ${analysis.source.ref}`);
+    }
+    if (analysis.source.path) {
+      console.log(`**Path:** ${analysis.source.path}`);
+    }
+    if (analysis.source.package) {
+      console.log(`**Package:** ${analysis.source.package}`);
+    }
+    if (analysis.commitSha) {
+      console.log(`**Commit:** ${analysis.commitSha}`);
+    }
     console.log(`**Type:** ${analysis.type}`);
     console.log(`**Date:** ${new Date().toISOString()}\n`);
     
@@ -31,18 +106,216 @@ export async function analyzeCommand(repoUrl: string, options: AnalyzeOptions) {
     
     if (analysis.hasCode) {
       console.log(chalk.yellow('\n## Code Quality\n'));
-      console.log(`- Framework: ${analysis.codeQuality.framework}`);
+      console.log(`- Framework: ${formatFramework(analysis.codeQuality.framework)}`);
       console.log(`- Design System: ${analysis.codeQuality.designSystem}`);
       console.log(`- TypeScript: ${analysis.codeQuality.hasTypescript ? '✅ Yes' : '❌ No'}`);
       console.log(`- Tests: ${analysis.codeQuality.hasTests ? '✅ Yes' : '❌ No'}`);
       
+      const coverage = analysis.codeQuality.coverage;
+      if (coverage && !coverage.estimated) {
+        const parts = [`${coverage.lines}% lines`];
+        if (coverage.branches !== undefined) parts.push(`${coverage.branches}% branches`);
+        if (coverage.functions !== undefined) parts.push(`${coverage.functions}% functions`);
+        console.log(`- Coverage: ${parts.join(', ')} (${coverage.source}: ${coverage.reports.join(', ')})`);
+      }
+      
       if (options.verbose && analysis.codeQuality.metrics) {
+        const estimated = !coverage || coverage.estimated ? ' (estimated from test file count)' : '';
         console.log(chalk.yellow('\n### Detailed Metrics\n'));
         console.log(`- Lines of Code: ${analysis.codeQuality.metrics.linesOfCode}`);
         console.log(`- Number of Files: ${analysis.codeQuality.metrics.fileCount}`);
-        console.log(`- Test Coverage: ${analysis.codeQuality.metrics.testCoverage}%`);
+        console.log(`- Test Coverage: ${analysis.codeQuality.metrics.testCoverage}%${estimated}`);
         console.log(`- Components: ${analysis.codeQuality.metrics.componentCount}`);
       }
+      
+      if (options.verbose && coverage?.files.length) {
+        console.log(chalk.yellow('\n### Coverage by File\n'));
+        [...coverage.files]
+          .sort((a, b) => a.lines.pct - b.lines.pct)
+          .forEach(file => {
+            const branches = file.branches ? `, branches ${file.branches.pct}%` : '';
+            const functions = file.functions ? `, functions ${file.functions.pct}%` : '';
+            console.log(`- ${file.file}: lines ${file.lines.pct}%${branches}${functions}`);
+          });
+      }
+      
+      if (options.verbose && analysis.components?.length) {
+        console.log(chalk.yellow('\n### Components\n'));
+        analysis.components.forEach(component => {
+          const exportLabel = component.exportType === 'default' ? 'default export' : 'named export';
+          console.log(`- ${component.name} (${component.file}:${component.line}, ${exportLabel})`);
+          if (component.propsType) {
+            console.log(`  Props: ${component.propsType}`);
+          } else if (component.props.length > 0) {
+            console.log(`  Props: ${component.props.join(', ')}`);
+          }
+          if (component.hooks.length > 0) {
+            console.log(`  Hooks: ${component.hooks.join(', ')}`);
+          }
+        });
+      }
+      
+      if (options.verbose && analysis.routes?.length) {
+        console.log(chalk.yellow('\n### Routes\n'));
+        analysis.routes.forEach(route => {
+          const methods = route.methods.length > 0 ? route.methods.join('|') : 'ANY';
+          console.log(`- ${route.kind === 'api' ? methods : 'PAGE'} ${route.path} (${route.file})`);
+        });
+      }
+      
+      if (options.verbose && analysis.imports) {
+        const { modules, unusedFiles, cycles, uiLibraries } = analysis.imports;
+        console.log(chalk.yellow('\n### Import Graph\n'));
+        console.log(`- Modules: ${modules.length}`);
+        
+        const hubs = [...modules].sort((a, b) => b.fanIn - a.fanIn).filter(m => m.fanIn > 1).slice(0, 5);
+        if (hubs.length > 0) {
+          console.log(`- Most imported: ${hubs.map(m => `${m.file} (${m.fanIn})`).join(', ')}`);
+        }
+        if (unusedFiles.length > 0) {
+          console.log(`- Unused files (${unusedFiles.length}):`);
+          unusedFiles.forEach(file => console.log(`  - ${file}`));
+        }
+        if (cycles.length > 0) {
+          console.log(`- Circular dependencies (${cycles.length}):`);
+          cycles.forEach(cycle => console.log(`  - ${cycle.join(' ↔ ')}`));
+        }
+        
+        const byLibrary = new Map<string, number>();
+        uiLibraries.forEach(usage => byLibrary.set(usage.library, (byLibrary.get(usage.library) || 0) + 1));
+        byLibrary.forEach((count, library) => {
+          console.log(`- ${library}: used in ${count} file${count === 1 ? '' : 's'}`);
+        });
+      }
+    }
+    
+    if (analysis.dependencies) {
+      const deps = analysis.dependencies;
+      console.log(chalk.yellow('\n## Dependencies\n'));
+      console.log(`- Lockfile: ${deps.lockfile} (${deps.packageCount} packages, ${deps.directCount} direct)`);
+      if (deps.advisoryDb) {
+        const severe = deps.vulnerabilities.filter(v => v.severity === 'critical' || v.severity === 'high').length;
+        console.log(`- Vulnerabilities: ${deps.vulnerabilities.length === 0 ? '✅ None' : `❌ ${deps.vulnerabilities.length} (${severe} high or critical)`}`);
+      } else {
+        console.log('- Vulnerabilities: not checked (pass --advisory-db)');
+      }
+      console.log(`- Deprecated: ${deps.deprecated.length}`);
+      console.log(`- Outdated majors: ${deps.outdated.length}`);
+      console.log(`- Duplicated packages: ${deps.duplicates.length}`);
+      console.log(`- Licenses: ${Object.entries(deps.licenses).filter(([, count]) => count > 0).map(([category, count]) => `${category} ${count}`).join(', ')}`);
+      
+      if (options.verbose) {
+        deps.vulnerabilities.forEach(v => {
+          console.log(`  - [${v.severity}] ${v.name}@${v.version}: ${v.title} (${v.id}${v.url ? `, ${v.url}` : ''})`);
+        });
+        deps.deprecated.forEach(d => console.log(`  - deprecated ${d.name}@${d.version}: ${d.message}`));
+        deps.outdated.forEach(o => console.log(`  - outdated ${o.name} ${o.current} -> ${o.latest}`));
+        deps.duplicates
+          .filter(d => d.direct)
+          .forEach(d => console.log(`  - duplicated ${d.name}: ${d.versions.join(', ')}`));
+        deps.licenseFindings.forEach(f => console.log(`  - ${f.category} license ${f.name}@${f.version}: ${f.license}`));
+      }
+    }
+    
+    if (analysis.accessibility) {
+      console.log(chalk.yellow('\n## Accessibility\n'));
+      if (analysis.accessibility.length === 0) {
+        console.log('- ✅ No issues found');
+      } else {
+        const byRule = new Map<string, number>();
+        analysis.accessibility.forEach(issue => byRule.set(issue.rule, (byRule.get(issue.rule) || 0) + 1));
+        byRule.forEach((count, rule) => console.log(`- ${rule}: ${count}`));
+        
+        if (options.verbose) {
+          console.log('');
+          analysis.accessibility.forEach(issue => {
+            console.log(`- ${issue.file}:${issue.line} ${issue.message} (WCAG ${issue.wcag})`);
+          });
+        }
+      }
+    }
+    
+    if (analysis.gapBaseline) {
+      const diff = analysis.gapBaseline;
+      console.log(chalk.yellow('\n## Gaps Since Baseline\n'));
+      console.log(`- Baseline: ${diff.file}${diff.createdAt ? ` (${diff.createdAt})` : ''}`);
+      console.log(`- New: ${diff.new.length}, Resolved: ${diff.resolved.length}, Unchanged: ${diff.unchanged}`);
+      diff.new.forEach(gap => console.log(chalk.red(`  + ${formatGap(gap)}`)));
+      diff.resolved.forEach(gap => console.log(chalk.green(`  - ${formatGap(gap)}`)));
+    } else if (analysis.gaps?.length) {
+      console.log(chalk.yellow('\n## Gaps\n'));
+      const byType = new Map<string, number>();
+      analysis.gaps.forEach(gap => byType.set(gap.type, (byType.get(gap.type) || 0) + 1));
+      byType.forEach((count, type) => console.log(`- ${type}: ${count}`));
+      if (options.verbose) {
+        analysis.gaps.forEach(gap => console.log(`  - ${formatGap(gap)}`));
+      }
+    }
+    
+    const owned = (analysis.gaps ?? []).filter(gap => gap.owner);
+    if (options.blame && analysis.gaps?.length) {
+      const stale = staleGapsByDirectory(owned, { minAgeDays: staleDays });
+      console.log(chalk.yellow('\n## Gap Ownership\n'));
+      console.log(`- Attributed: ${owned.length} of ${analysis.gaps.length} gaps (the rest are uncommitted)`);
+      console.log(`- Older than ${staleDays} days: ${stale.reduce((sum, group) => sum + group.count, 0)}`);
+      stale.forEach(group => {
+        const types = Object.entries(group.byType).map(([type, count]) => `${count} ${type}`).join(', ');
+        console.log(`  - ${group.directory}: ${group.count} (${types}), oldest ${group.oldestDays} days — ${group.authors.join(', ')}`);
+      });
+      
+      const byAuthor = new Map<string, number>();
+      owned.forEach(gap => gap.owner && byAuthor.set(gap.owner.author, (byAuthor.get(gap.owner.author) || 0) + 1));
+      console.log(`- By author: ${[...byAuthor.entries()].sort((a, b) => b[1] - a[1]).map(([author, count]) => `${author} ${count}`).join(', ')}`);
+    }
+    
+    const hardcoded = (analysis.gaps ?? []).filter(gap => gap.type === 'hardcoded');
+    if (hardcoded.length > 0) {
+      const secrets = hardcoded.filter(gap => gap.hardcoded?.secret).length;
+      console.log(chalk.yellow('\n## Hardcoded Values\n'));
+      console.log(`- ${hardcoded.length} values (${secrets} secrets) should come from environment variables`);
+      hardcoded.forEach(gap => {
+        const value = gap.hardcoded;
+        if (!value) return;
+        const label = value.secret ? chalk.red(value.kind) : value.kind;
+        console.log(`- ${gap.file}:${gap.line} ${label} ${value.preview} → ${value.envVar}`);
+      });
+    }
+    
+    if (analysis.designSystemUsage && analysis.designSystemUsage.totalUsages > 0) {
+      const usage = analysis.designSystemUsage;
+      console.log(chalk.yellow('\n## Design System Usage\n'));
+      console.log(`- On biokit-design-system: ${usage.biokitPercentage}% (${usage.biokitUsages} of ${usage.totalUsages} usages)`);
+      console.log(`- Migration: ${usage.migration.autoMigratable} auto-migratable, ${usage.migration.manual} manual`);
+      if (usage.mixed) {
+        console.log(chalk.yellow('- ⚠️  Mixed design systems in use'));
+      }
+      usage.libraries.forEach(library => {
+        const top = library.components
+          .slice(0, options.verbose ? undefined : 5)
+          .map(component => `${component.usages} ${component.name}${component.autoMigratable ? '' : '*'}`);
+        const details = top.length > 0 ? ` — ${top.join(', ')}` : '';
+        console.log(`- ${library.library}: ${library.usages} usages in ${library.files} files${details}`);
+      });
+      console.log(chalk.gray('  (* needs manual migration)'));
+    }
+    
+    if (analysis.workspace) {
+      console.log(chalk.yellow('\n## Workspace\n'));
+      console.log(`- Tools: ${analysis.workspace.tools.join(', ')}`);
+      analysis.workspace.packages.forEach(pkg => {
+        const quality = pkg.codeQuality;
+        const details = pkg.hasCode
+          ? `${formatFramework(quality.framework)}, ${quality.designSystem}${quality.hasTypescript ? ', TypeScript' : ''}`
+          : 'no code';
+        console.log(`- **${pkg.name}** (${pkg.path}): ${details}`);
+        
+        if (options.verbose) {
+          console.log(`  Components: ${pkg.components.length}, Routes: ${pkg.routes.length}, Unused files: ${pkg.unusedFiles.length}`);
+          if (pkg.internalDependencies.length > 0) {
+            console.log(`  Depends on: ${pkg.internalDependencies.join(', ')}`);
+          }
+        }
+      });
     }
     
     if (analysis.hasRequirements) {
@@ -52,14 +325,124 @@ export async function analyzeCommand(repoUrl: string, options: AnalyzeOptions) {
       console.log(`- Technical Specs: ${analysis.requirements.technicalSpecs ? '✅' : '❌'}`);
       console.log(`- Design Mockups: ${analysis.requirements.mockups ? '✅' : '❌'}`);
       
+      if (options.verbose && analysis.mockups?.length) {
+        console.log(chalk.yellow('\n### Mockups\n'));
+        analysis.mockups.forEach(mockup => {
+          const size = mockup.width && mockup.height ? ` ${mockup.width}×${mockup.height}` : '';
+          const depicts = [mockup.feature, mockup.page].filter(Boolean).join(', ');
+          console.log(`- ${mockup.screen}${mockup.variant ? ` (${mockup.variant})` : ''}${depicts ? ` → ${depicts}` : ''}${chalk.gray(` (${mockup.file}${size})`)}`);
+          if (mockup.texts?.length) {
+            console.log(chalk.gray(`  Text: ${mockup.texts.slice(0, 10).join(' | ')}`));
+          }
+          if (mockup.layers?.length) {
+            console.log(chalk.gray(`  Layers: ${mockup.layers.slice(0, 10).join(', ')}`));
+          }
+          mockup.frames?.forEach(frame => console.log(chalk.gray(`  Frame: ${frame.name}${frame.width && frame.height ? ` ${frame.width}×${frame.height}` : ''}`)));
+        });
+      }
+      
       if (options.verbose && analysis.extractedFeatures) {
         console.log(chalk.yellow('\n### Extracted Features\n'));
-        analysis.extractedFeatures.forEach((feature, index) => {
-          console.log(`${index + 1}. ${feature.name}`);
+        const features = analysis.extractedFeatures;
+        const byId = new Map(features.flatMap(feature => feature.id ? [[feature.id, feature] as const] : []));
+        const printFeature = (feature: ExtractedFeature, depth: number): void => {
+          const indent = '  '.repeat(depth);
+          const status = feature.status === 'completed' ? '[x] ' : feature.status === 'in-progress' ? '[~] ' : feature.status === 'planned' ? '[ ] ' : '';
+          const source = feature.source ? chalk.gray(` (${feature.source.file}${feature.source.line ? `:${feature.source.line}` : ''})`) : '';
+          const owner = feature.owner ? chalk.gray(` [${feature.owner}]`) : '';
+          console.log(`${indent}- ${status}${feature.name}${owner}${source}`);
           if (feature.description) {
-            console.log(`   ${feature.description}`);
+            console.log(`${indent}  ${feature.description}`);
           }
+          feature.acceptanceCriteria?.forEach(criterion => {
+            console.log(chalk.gray(`${indent}  ✓ ${criterion.scenario ?? criterion.text.split('\n')[0]}`));
+          });
+          feature.documents?.forEach(document => console.log(chalk.gray(`${indent}  → ${document}`)));
+          feature.children?.forEach(id => {
+            const child = byId.get(id);
+            if (child) printFeature(child, depth + 1);
+          });
+        };
+        features
+          .filter(feature => !feature.parent || !byId.has(feature.parent))
+          .forEach(feature => printFeature(feature, 0));
+      }
+    }
+    
+    if (analysis.traceability && analysis.extractedFeatures) {
+      const trace = analysis.traceability;
+      const features = analysis.extractedFeatures;
+      const where = (item: { file: string; line?: number }) => `${item.file}${item.line ? `:${item.line}` : ''}`;
+      console.log(chalk.yellow('\n## Traceability\n'));
+      console.log(`- Completed: ${trace.completed}`);
+      console.log(`- In progress: ${trace.inProgress}`);
+      console.log(`- Planned: ${trace.planned}`);
+      
+      // One row per feature; cells list what implements it, by name
+      const cell = (feature: ExtractedFeature, kind: TraceEvidence['kind']) => {
+        const names = [...new Set((feature.evidence ?? []).filter(item => item.kind === kind).map(item => item.match))];
+        return names.length > 0 ? names.join(', ').replace(/\|/g, '\\|') : '-';
+      };
+      console.log('\n| Feature | Status | Pages | Components | Routes | Tests |');
+      console.log('| --- | --- | --- | --- | --- | --- |');
+      features.forEach(feature => {
+        const status = `${feature.status ?? 'planned'}${feature.statusSource === 'document' ? ' (doc)' : ''}`;
+        const row = [feature.name.replace(/\|/g, '\\|'), status, cell(feature, 'page'), cell(feature, 'component'), cell(feature, 'route'), cell(feature, 'test')];
+        console.log(`| ${row.join(' | ')} |`);
+      });
+      
+      if (options.verbose) {
+        const traced = features.filter(feature => feature.evidence?.length);
+        if (traced.length > 0) {
+          console.log(chalk.yellow('\n### Evidence\n'));
+          traced.forEach(feature => {
+            console.log(`- ${feature.name}`);
+            feature.evidence?.forEach(item => {
+              console.log(chalk.gray(`  - ${item.kind} ${item.match} via ${item.via} (${where(item)})`));
+            });
+          });
+        }
+      }
+      if (trace.unmatchedTags.length > 0) {
+        console.log(chalk.yellow('\n### Unknown Feature Tags\n'));
+        trace.unmatchedTags.forEach(tag => console.log(`- @feature ${tag.match} (${where(tag)})`));
+      }
+    }
+    
+    if (analysis.apiCoverage) {
+      const coverage = analysis.apiCoverage;
+      const location = (operation: ApiOperation) => chalk.gray(` (${operation.source.file}${operation.source.line ? `:${operation.source.line}` : ''})`);
+      console.log(chalk.yellow('\n## API Coverage\n'));
+      console.log(`- Implemented: ${coverage.implemented}/${coverage.operations.length}`);
+      console.log(`- Missing: ${coverage.missing}`);
+      if (coverage.undocumented.length > 0) {
+        console.log(`- Undocumented routes: ${coverage.undocumented.length}`);
+      }
+      
+      const missing = coverage.operations.filter(operation => operation.status === 'missing');
+      if (missing.length > 0) {
+        console.log(chalk.yellow('\n### Missing Endpoints\n'));
+        missing.slice(0, options.verbose ? undefined : 10).forEach(operation => {
+          const deprecated = operation.deprecated ? ' (deprecated)' : '';
+          console.log(`- ${operation.method} ${operation.path}${deprecated}${location(operation)}`);
         });
+        if (!options.verbose && missing.length > 10) {
+          console.log(`- ...and ${missing.length - 10} more`);
+        }
+      }
+      
+      if (options.verbose) {
+        const implemented = coverage.operations.filter(operation => operation.status === 'implemented');
+        if (implemented.length > 0) {
+          console.log(chalk.yellow('\n### Implemented Endpoints\n'));
+          implemented.forEach(operation => console.log(`- ${operation.method} ${operation.path} → ${operation.implementedBy}`));
+        }
+        if (coverage.undocumented.length > 0) {
+          console.log(chalk.yellow('\n### Undocumented Routes\n'));
+          coverage.undocumented.forEach(route => {
+            console.log(`- ${route.methods.length ? route.methods.join(', ') : 'ALL'} ${route.path} (${route.file})`);
+          });
+        }
       }
     }
     
@@ -91,10 +474,15 @@ export async function analyzeCommand(repoUrl: string, options: AnalyzeOptions) {
     } else if (analysis.type === 'partial-implementation') {
       console.log('This repository has partial implementation. Run `biokit-builder generate` to complete and enhance it.');
     }
-    
+  
   } catch (error) {
     spinner.fail('Analysis failed');
     console.error(chalk.red('\n❌ Error:'), error.message);
     process.exit(1);
   }
+}
+
+function formatGap(gap: Pick<Gap, 'type' | 'file' | 'line' | 'description' | 'owner'>): string {
+  const owner = gap.owner ? ` (${gap.owner.author}, ${gap.owner.ageDays} days)` : '';
+  return `[${gap.type}] ${gap.file}${gap.line ? `:${gap.line}` : ''} ${gap.description}${owner}`;
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import chalk from 'chalk';
+import { listCacheEntries, clearCache, getCacheDir } from '@biokit/analyzer';
+
+export async function cacheListCommand() {
+  try {
+    const entries = await listCacheEntries();
+    
+    if (entries.length === 0) {
+      console.log(chalk.yellow(`No cached analyses in ${getCacheDir()}`));
+      return;
+    }
+    
+    console.log(chalk.cyan(`\n📦 Cached analyses (${getCacheDir()})\n`));
+    entries.forEach(entry => {
+      const target = [
+        entry.ref && `ref ${entry.ref}`,
+        entry.path && `path ${entry.path}`,
+        entry.package && `package ${entry.package}`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      
+      console.log(`  ${chalk.green(entry.key)}  ${entry.location}${target ? ` (${target})` : ''}`);
+      console.log(
+        `    revision ${entry.revision.slice(0, 12)} · analyzer ${entry.analyzerVersion} · ` +
+        `${formatSize(entry.size)} · ${entry.createdAt}`
+      );
+    });
+    
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    console.log(`\n  ${entries.length} entries, ${formatSize(totalSize)}`);
+    
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error:'), (error as Error).message);
+    process.exit(1);
+  }
+}
+
+export async function cacheClearCommand(source?: string) {
+  try {
+    const removed = await clearCache(source);
+    console.log(chalk.green(`✅ Removed ${removed} cached ${removed === 1 ? 'analysis' : 'analyses'}`));
+    
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error:'), (error as Error).message);
+    process.exit(1);
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
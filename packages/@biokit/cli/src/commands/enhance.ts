@@ -1,7 +1,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { analyzeRepository } from '@biokit/analyzer';
+import { analyzeRepository, formatFramework, keepWorkspaces } from '@biokit/analyzer';
 import { generateApplication } from '@biokit/generator';
 import path from 'path';
 import fs from 'fs-extra';
@@ -9,16 +9,25 @@ import fs from 'fs-extra';
 interface EnhanceOptions {
   output: string;
   improvements: 'all' | 'select';
+  ref?: string;
+  path?: string;
+  package?: string;
+  advisoryDb?: string;
+  cache: boolean;
+  keepWorkspace: boolean;
 }
 
-export async function enhanceCommand(repoUrl: string, options: EnhanceOptions) {
+export async function enhanceCommand(source: string, options: EnhanceOptions) {
   const spinner = ora();
+  keepWorkspaces(options.keepWorkspace);
   
   try {
     // Analyze repository
     spinner.start('Analyzing repository...');
-    const analysis = await analyzeRepository(repoUrl);
-    spinner.succeed('Repository analyzed');
+    const analysis = await analyzeRepository(source, options);
+    spinner.succeed(
+      `Repository analyzed${analysis.commitSha ? ` at ${analysis.commitSha.slice(0, 7)}` : ''}`
+    );
     
     if (!analysis.hasCode) {
       console.log(chalk.yellow('\n⚠️  This repository has no code to enhance.'));
@@ -28,7 +37,7 @@ export async function enhanceCommand(repoUrl: string, options: EnhanceOptions) {
     
     // Show current state
     console.log(chalk.cyan('\n📊 Current State:'));
-    console.log(`  Framework: ${analysis.codeQuality.framework}`);
+    console.log(`  Framework: ${formatFramework(analysis.codeQuality.framework)}`);
     console.log(`  Design System: ${analysis.codeQuality.designSystem}`);
     console.log(`  TypeScript: ${analysis.codeQuality.hasTypescript ? '✅' : '❌'}`);
     console.log(`  Tests: ${analysis.codeQuality.hasTests ? '✅' : '❌'}`);
@@ -2,7 +2,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import path from 'path';
 import fs from 'fs-extra';
-import { analyzeRepository } from '@biokit/analyzer';
+import { analyzeRepository, formatFramework, keepWorkspaces } from '@biokit/analyzer';
 import { generateApplication } from '@biokit/generator';
 import { execSync } from 'child_process';
 
@@ -14,27 +14,37 @@ interface GenerateOptions {
   style: 'strict' | 'loose';
   deploy: boolean;
   install: boolean;
+  ref?: string;
+  path?: string;
+  package?: string;
+  advisoryDb?: string;
+  cache: boolean;
+  keepWorkspace: boolean;
 }
 
-export async function generateCommand(repoUrl: string, options: GenerateOptions) {
+export async function generateCommand(source: string, options: GenerateOptions) {
   console.log(chalk.cyan('🚀 Starting biokit-builder...\n'));
   
   const spinner = ora();
+  keepWorkspaces(options.keepWorkspace);
   
   try {
     // Step 1: Analyze repository
     spinner.start('Analyzing repository...');
-    const analysis = await analyzeRepository(repoUrl);
+    const analysis = await analyzeRepository(source, options);
     spinner.succeed(`Repository analyzed: ${chalk.green(analysis.type)}`);
     
     // Display analysis summary
     console.log(chalk.yellow('\n📊 Repository Analysis:'));
     console.log(`  Type: ${analysis.type}`);
+    if (analysis.commitSha) {
+      console.log(`  Commit: ${analysis.commitSha}`);
+    }
     console.log(`  Has Code: ${analysis.hasCode ? '✅' : '❌'}`);
     console.log(`  Has Requirements: ${analysis.hasRequirements ? '✅' : '❌'}`);
     
     if (analysis.hasCode) {
-      console.log(`  Framework: ${analysis.codeQuality.framework}`);
+      console.log(`  Framework: ${formatFramework(analysis.codeQuality.framework)}`);
       console.log(`  Design System: ${analysis.codeQuality.designSystem}`);
       console.log(`  TypeScript: ${analysis.codeQuality.hasTypescript ? '✅' : '❌'}`);
       console.log(`  Tests: ${analysis.codeQuality.hasTests ? '✅' : '❌'}`);
@@ -1,21 +1,35 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { analyzeRepository } from '@biokit/analyzer';
+import { analyzeRepository, keepWorkspaces } from '@biokit/analyzer';
 import { previewChanges } from '@biokit/generator';
 
 interface PreviewOptions {
   changes: boolean;
+  ref?: string;
+  path?: string;
+  package?: string;
+  advisoryDb?: string;
+  cache: boolean;
+  keepWorkspace: boolean;
 }
 
-export async function previewCommand(repoUrl: string, options: PreviewOptions) {
+export async function previewCommand(source: string, options: PreviewOptions) {
   const spinner = ora('Analyzing repository...').start();
+  keepWorkspaces(options.keepWorkspace);
   
   try {
-    const analysis = await analyzeRepository(repoUrl);
+    const analysis = await analyzeRepository(source, options);
     spinner.succeed('Analysis complete');
     
+    if (options.keepWorkspace && analysis.localPath) {
+      console.log(chalk.gray(`Workspace kept at ${analysis.localPath}`));
+    }
+    
     console.log(chalk.cyan('\n🔍 Preview of Changes\n'));
-    console.log(`Repository: ${repoUrl}`);
+    console.log(`Repository: ${source}`);
+    if (analysis.commitSha) {
+      console.log(`Commit: ${analysis.commitSha}`);
+    }
     console.log(`Type: ${analysis.type}\n`);
     
     // Get preview of changes
@@ -114,12 +128,23 @@ export async function previewCommand(repoUrl: string, options: PreviewOptions) {
       console.log(chalk.cyan(`⏱️  Estimated time: ${preview.estimatedTime}`));
     }
     
-    // Show next command
+    // Show next command, pinned to the analyzed commit (working copies stay unpinned, archives take no ref)
+    const pinnedRef = analysis.source.kind === 'git' || analysis.source.kind === 'bundle'
+      ? analysis.commitSha ?? options.ref
+      : analysis.source.kind === 'local' ? options.ref : undefined;
+    const targetFlags = [
+      pinnedRef ? `--ref ${pinnedRef}` : '',
+      options.path ? `--path ${options.path}` : '',
+      options.package ? `--package ${options.package}` : '',
+      options.advisoryDb ? `--advisory-db ${options.advisoryDb}` : '',
+    ].filter(Boolean).join(' ');
+    const target = targetFlags ? `${source} ${targetFlags}` : source;
+    
     console.log(chalk.green('\n✨ To apply these changes, run:'));
     if (analysis.hasCode) {
-      console.log(`  biokit-builder enhance ${repoUrl}`);
+      console.log(`  biokit-builder enhance ${target}`);
     } else {
-      console.log(`  biokit-builder generate ${repoUrl}`);
+      console.log(`  biokit-builder generate ${target}`);
     }
     
   } catch (error) {
@@ -0,0 +1,25 @@
+import chalk from 'chalk';
+import { gcWorkspaces, getWorkspaceRoot } from '@biokit/analyzer';
+
+interface WorkspaceGcOptions {
+  maxAge: string;
+}
+
+export async function workspaceGcCommand(options: WorkspaceGcOptions) {
+  try {
+    const maxAgeDays = Number(options.maxAge);
+    if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+      throw new Error(`Invalid --max-age: ${options.maxAge}`);
+    }
+    
+    const removed = await gcWorkspaces(maxAgeDays);
+    console.log(
+      chalk.green(`✅ Removed ${removed} stale ${removed === 1 ? 'workspace' : 'workspaces'}`) +
+      chalk.gray(` from ${getWorkspaceRoot()}`)
+    );
+    
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error:'), (error as Error).message);
+    process.exit(1);
+  }
+}
@@ -6,6 +6,8 @@ import { generateCommand } from './commands/generate';
 import { analyzeCommand } from './commands/analyze';
 import { enhanceCommand } from './commands/enhance';
 import { previewCommand } from './commands/preview';
+import { cacheListCommand, cacheClearCommand } from './commands/cache';
+import { workspaceGcCommand } from './commands/workspace';
 import { version } from '../package.json';
 
 const program = new Command();
@@ -13,11 +15,15 @@ const program = new Command();
 program
   .name('biokit-builder')
   .description('Transform GitHub repositories into production-ready applications')
-  .version(version);
+  .version(version)
+  .addHelpText('after', `
+Sources:
+  <source> can be a git URL, a local directory, a .tar.gz/.tgz/.tar/.zip archive
+  or a git bundle file.`);
 
 program
-  .command('generate <repo-url>')
-  .description('Generate or enhance an application from a GitHub repository')
+  .command('generate <source>')
+  .description('Generate or enhance an application from a repository source')
   .option('-o, --output <dir>', 'Output directory', './output')
   .option('-m, --mode <mode>', 'Generation mode: auto|build|enhance', 'auto')
   .option('-i, --improvements <type>', 'Improvements to apply: all|select', 'all')
@@ -25,28 +31,81 @@ program
   .option('-s, --style <style>', 'Style strictness: strict|loose', 'strict')
   .option('--deploy', 'Deploy to Vercel after generation', false)
   .option('--no-install', 'Skip dependency installation', false)
+  .option('--ref <ref>', 'Branch, tag or commit SHA to analyze')
+  .option('--path <dir>', 'Subdirectory of the repository to analyze')
+  .option('--package <name>', 'Workspace package (name or folder) to analyze in a monorepo')
+  .option('--advisory-db <file>', 'Advisory database (JSON) to check locked dependency versions against')
+  .option('--no-cache', 'Ignore and do not update the analysis cache')
+  .option('--keep-workspace', 'Keep the cloned or extracted source after exiting', false)
   .action(generateCommand);
 
 program
-  .command('analyze <repo-url>')
+  .command('analyze <source>')
   .description('Analyze a repository and show recommendations')
-  .option('-f, --format <format>', 'Output format: json|markdown', 'markdown')
+  .option('-f, --format <format>', 'Output format: json|markdown|sarif|junit', 'markdown')
+  .option('-o, --output <file>', 'Write the json, sarif or junit report to a file instead of stdout')
   .option('-v, --verbose', 'Show detailed analysis', false)
+  .option('--ref <ref>', 'Branch, tag or commit SHA to analyze')
+  .option('--path <dir>', 'Subdirectory of the repository to analyze')
+  .option('--package <name>', 'Workspace package (name or folder) to analyze in a monorepo')
+  .option('--advisory-db <file>', 'Advisory database (JSON) to check locked dependency versions against')
+  .option('--baseline <file>', 'Gap baseline to report new and resolved gaps against')
+  .option('--update-baseline', 'Write the current gaps to the baseline file', false)
+  .option('--blame', 'Attribute gaps to authors with git blame (clones full history)', false)
+  .option('--stale-days <days>', 'Age in days after which blamed gaps count as stale (default: 180)')
+  .option('--no-cache', 'Ignore and do not update the analysis cache')
+  .option('--keep-workspace', 'Keep the cloned or extracted source after exiting', false)
   .action(analyzeCommand);
 
 program
-  .command('enhance <repo-url>')
+  .command('enhance <source>')
   .description('Enhance an existing application with biokit patterns')
   .option('-o, --output <dir>', 'Output directory', './output')
   .option('-i, --improvements <type>', 'Improvements to apply: all|select', 'select')
+  .option('--ref <ref>', 'Branch, tag or commit SHA to analyze')
+  .option('--path <dir>', 'Subdirectory of the repository to analyze')
+  .option('--package <name>', 'Workspace package (name or folder) to analyze in a monorepo')
+  .option('--advisory-db <file>', 'Advisory database (JSON) to check locked dependency versions against')
+  .option('--no-cache', 'Ignore and do not update the analysis cache')
+  .option('--keep-workspace', 'Keep the cloned or extracted source after exiting', false)
   .action(enhanceCommand);
 
 program
-  .command('preview <repo-url>')
+  .command('preview <source>')
   .description('Preview changes that would be made')
   .option('--changes', 'Show detailed change list', false)
+  .option('--ref <ref>', 'Branch, tag or commit SHA to analyze')
+  .option('--path <dir>', 'Subdirectory of the repository to analyze')
+  .option('--package <name>', 'Workspace package (name or folder) to analyze in a monorepo')
+  .option('--advisory-db <file>', 'Advisory database (JSON) to check locked dependency versions against')
+  .option('--no-cache', 'Ignore and do not update the analysis cache')
+  .option('--keep-workspace', 'Keep the cloned or extracted source after exiting', false)
   .action(previewCommand);
 
+const cache = program
+  .command('cache')
+  .description('Manage the local analysis cache');
+
+cache
+  .command('ls')
+  .description('List cached analyses')
+  .action(cacheListCommand);
+
+cache
+  .command('clear [source]')
+  .description('Clear cached analyses, optionally only for one source')
+  .action(cacheClearCommand);
+
+const workspace = program
+  .command('workspace')
+  .description('Manage temporary clones and extracted archives');
+
+workspace
+  .command('gc')
+  .description('Remove workspaces left behind by earlier runs')
+  .option('--max-age <days>', 'Remove workspaces older than this many days', '7')
+  .action(workspaceGcCommand);
+
 program.parse(process.argv);
 
 if (!process.argv.slice(2).length) {
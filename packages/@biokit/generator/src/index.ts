@@ -6,6 +6,7 @@ import { buildFromScratch } from './strategies/build-from-scratch';
 import { enhanceExistingApp } from './strategies/enhance-existing';
 import { completePartialImplementation } from './strategies/complete-partial';
 import { applyHybridApproach } from './strategies/hybrid-approach';
+import { describeSource } from './prompts/builder';
 
 export interface GenerationOptions {
   mode: 'auto' | 'build' | 'enhance';
@@ -69,7 +70,7 @@ export async function generateApplication(
   }
   
   // Post-generation tasks
-  await postGeneration(project);
+  await postGeneration(project, analysis);
   
   return project;
 }
@@ -113,10 +114,10 @@ export async function previewChanges(analysis: RepoAnalysis): Promise<PreviewInf
     // Enhancing existing app
     if (analysis.codeQuality.designSystem !== 'biokit') {
       preview.affectedFiles.push(
-        ...analysis.codeQuality.components?.map(c => ({
-          path: c,
+        ...[...new Set(analysis.components?.map(c => c.file))].map(file => ({
+          path: file,
           action: 'modify' as const,
-        })) || []
+        }))
       );
       
       preview.dependencies.add.push('biokit-design-system');
@@ -135,6 +136,15 @@ export async function previewChanges(analysis: RepoAnalysis): Promise<PreviewInf
     preview.estimatedTime = '20-30 minutes';
   }
   
+  // Hardcoded values move to environment variables
+  const hardcodedFiles = [...new Set((analysis.gaps ?? []).filter(gap => gap.type === 'hardcoded').map(gap => gap.file))];
+  if (analysis.hasCode && hardcodedFiles.length > 0) {
+    preview.affectedFiles?.push(
+      ...hardcodedFiles.map(file => ({ path: file, action: 'modify' as const })),
+      { path: '.env.example', action: 'modify' as const }
+    );
+  }
+  
   // Add improvements that would be applied
   if (analysis.improvements.length > 0) {
     preview.configChanges.push(...analysis.improvements.map(imp => 
@@ -145,7 +155,7 @@ export async function previewChanges(analysis: RepoAnalysis): Promise<PreviewInf
   return preview;
 }
 
-async function postGeneration(project: GeneratedProject): Promise<void> {
+async function postGeneration(project: GeneratedProject, analysis: RepoAnalysis): Promise<void> {
   // Create .gitignore if not exists
   const gitignorePath = path.join(project.path, '.gitignore');
   if (!await fs.pathExists(gitignorePath)) {
@@ -192,6 +202,7 @@ next-env.d.ts
   // Create README if not exists
   const readmePath = path.join(project.path, 'README.md');
   if (!await fs.pathExists(readmePath)) {
+    const sourceLine = describeSource(analysis);
     await fs.writeFile(readmePath, `# ${project.name}
 
 Generated with biokit-builder
@@ -215,6 +226,8 @@ Open [http://localhost:3000](http://localhost:3000) to view the application.
 ## Generated by biokit-builder
 
 This project was generated using biokit-builder, which analyzed requirements and implemented a production-ready application.
+
+Source: ${sourceLine}
 `);
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
-import type { RepoAnalysis } from '@biokit/analyzer';
+import { formatFramework } from '@biokit/analyzer';
+import type { ExtractedFeature, RepoAnalysis } from '@biokit/analyzer';
 import type { GenerationOptions } from '../index';
 
 export function generatePrompt(
@@ -9,6 +10,7 @@ export function generatePrompt(
   
   // Header
   sections.push('# Application Generation Request\n');
+  sections.push(`Source: ${describeSource(analysis)}\n`);
   
   // Project Info
   if (analysis.config) {
@@ -24,11 +26,89 @@ export function generatePrompt(
     
     if (analysis.extractedFeatures && analysis.extractedFeatures.length > 0) {
       sections.push('### Features to Implement:\n');
-      analysis.extractedFeatures.forEach(feature => {
-        sections.push(`- ${feature.name}`);
+      // Sub-features are nested under their parent; checked items are already done
+      const features = analysis.extractedFeatures;
+      const byId = new Map(features.flatMap(feature => feature.id ? [[feature.id, feature] as const] : []));
+      const addFeature = (feature: ExtractedFeature, depth: number): void => {
+        const indent = '  '.repeat(depth);
+        const status = feature.status === 'completed' ? ' (done)' : feature.status === 'in-progress' ? ' (in progress)' : '';
+        sections.push(`${indent}- ${feature.name}${status}`);
         if (feature.description) {
-          sections.push(`  ${feature.description}`);
+          sections.push(`${indent}  ${feature.description}`);
         }
+        // Criteria are quoted as written, so tests can assert exactly what was asked for
+        if (feature.acceptanceCriteria?.length) {
+          sections.push(`${indent}  Acceptance criteria:`);
+          feature.acceptanceCriteria.forEach(criterion => {
+            const [first = '', ...rest] = criterion.text.split('\n');
+            sections.push(`${indent}  - ${first}`, ...rest.map(line => `${indent}    ${line}`));
+          });
+        }
+        feature.children?.forEach(id => {
+          const child = byId.get(id);
+          if (child) addFeature(child, depth + 1);
+        });
+      };
+      features
+        .filter(feature => !feature.parent || !byId.has(feature.parent))
+        .forEach(feature => addFeature(feature, 0));
+      sections.push('');
+    }
+    
+    if (analysis.dataModels && analysis.dataModels.length > 0) {
+      sections.push('### Data Models:\n');
+      analysis.dataModels.forEach(model => {
+        sections.push(`- ${model.name} (${model.source.file}${model.source.line ? `:${model.source.line}` : ''})`);
+        model.fields.forEach(field => {
+          const flags = [
+            field.primaryKey ? 'primary key' : '',
+            field.unique ? 'unique' : '',
+            field.required ? 'required' : 'optional',
+            field.default ? `default ${field.default}` : '',
+            field.enumValues ? `one of ${field.enumValues.join(', ')}` : '',
+            field.references ? `references ${field.references}` : '',
+          ].filter(Boolean);
+          sections.push(`  - ${field.name}: ${field.type}${field.list ? '[]' : ''} (${flags.join(', ')})`);
+        });
+        model.relations.forEach(relation => {
+          sections.push(`  - relation: ${relation.field} → ${relation.target} (${relation.kind})`);
+        });
+      });
+      sections.push('');
+    }
+    
+    // Spec operations the code doesn't serve yet; implemented ones need no work
+    const missingEndpoints = analysis.apiCoverage?.operations.filter(operation => operation.status === 'missing' && !operation.deprecated) ?? [];
+    if (missingEndpoints.length > 0) {
+      sections.push('### API Endpoints to Implement:\n');
+      missingEndpoints.forEach(operation => {
+        const summary = operation.summary ? ` - ${operation.summary}` : '';
+        const name = operation.kind === 'graphql' ? `${operation.method} ${operation.path} (GraphQL)` : `${operation.method} ${operation.basePath ?? ''}${operation.path}`;
+        sections.push(`- ${name}${summary} (${operation.source.file})`);
+      });
+      sections.push('');
+    }
+    
+    // Mockups to follow when building the screens, with the labels they show
+    if (analysis.mockups && analysis.mockups.length > 0) {
+      sections.push('### Mockups:\n');
+      analysis.mockups.forEach(mockup => {
+        const size = mockup.width && mockup.height ? `, ${mockup.width}×${mockup.height}` : '';
+        const variant = mockup.variant ? `, ${mockup.variant}` : '';
+        const depicts = [mockup.feature ? `feature "${mockup.feature}"` : '', mockup.page ? `page ${mockup.page}` : ''].filter(Boolean);
+        sections.push(`- ${mockup.screen} (${mockup.file}${size}${variant})${depicts.length ? ` depicts ${depicts.join(' and ')}` : ''}`);
+        if (mockup.texts?.length) {
+          sections.push(`  Text: ${mockup.texts.slice(0, 20).join(' | ')}`);
+        }
+        if (mockup.layers?.length) {
+          sections.push(`  Layers: ${mockup.layers.slice(0, 20).join(', ')}`);
+        }
+        mockup.frames?.forEach(frame => {
+          const frameSize = frame.width && frame.height ? ` (${frame.width}×${frame.height})` : '';
+          const texts = frame.texts?.length ? `: ${frame.texts.join(' | ')}` : '';
+          sections.push(`  - Frame ${frame.name}${frameSize}${texts}`);
+          frame.children?.forEach(child => sections.push(`    - ${child.name}${child.texts?.length ? `: ${child.texts.join(' | ')}` : ''}`));
+        });
       });
       sections.push('');
     }
@@ -37,12 +117,28 @@ export function generatePrompt(
   // Existing Code Context
   if (analysis.hasCode) {
     sections.push('## Existing Code Context\n');
-    sections.push(`- Framework: ${analysis.codeQuality.framework}`);
+    const { framework } = analysis.codeQuality;
+    sections.push(`- Framework: ${formatFramework(framework)}`);
+    if (framework.router === 'app' || framework.router === 'pages') {
+      sections.push(`- Routing: keep new pages in the ${framework.router} router; do not mix routers`);
+    }
     sections.push(`- Current Design System: ${analysis.codeQuality.designSystem}`);
     sections.push(`- TypeScript: ${analysis.codeQuality.hasTypescript ? 'Yes' : 'No'}`);
     sections.push(`- Tests: ${analysis.codeQuality.hasTests ? 'Yes' : 'No'}\n`);
   }
   
+  // Accessibility findings, so fixes target real violations
+  if (analysis.accessibility && analysis.accessibility.length > 0) {
+    sections.push('## Accessibility Issues\n');
+    analysis.accessibility.slice(0, 50).forEach(issue => {
+      sections.push(`- ${issue.file}:${issue.line} ${issue.message} (WCAG ${issue.wcag})`);
+    });
+    if (analysis.accessibility.length > 50) {
+      sections.push(`- ...and ${analysis.accessibility.length - 50} more`);
+    }
+    sections.push('');
+  }
+  
   // Instructions
   sections.push('## Instructions\n');
   
@@ -75,7 +171,7 @@ Please enhance this existing application with the following improvements:
       const improvements = options.improvements === 'all' 
         ? analysis.improvements 
         : options.improvements;
-        
+      
       improvements.forEach(imp => {
         sections.push(`- ${imp.replace(/-/g, ' ')}`);
       });
@@ -147,4 +243,15 @@ Generate a complete, production-ready application with:
 `);
   
   return sections.join('\n');
+}
+
+export function describeSource(analysis: RepoAnalysis): string {
+  const { location, ref, path: subpath } = analysis.source;
+  const parts = [`\`${location}\``];
+  
+  if (subpath) parts.push(`(path \`${subpath}\`)`);
+  if (ref) parts.push(`ref \`${ref}\``);
+  if (analysis.commitSha) parts.push(`at commit \`${analysis.commitSha}\``);
+  
+  return parts.join(' ');
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { AcceptanceCriterion, ExtractedFeature, RepoAnalysis } from '@biokit/analyzer';
+
+// One pending test per acceptance criterion, a file per feature that has any; existing files are kept
+export async function writeAcceptanceTests(projectPath: string, analysis: RepoAnalysis): Promise<string[]> {
+  const features = (analysis.extractedFeatures ?? []).filter(feature => feature.acceptanceCriteria?.length);
+  if (features.length === 0) return [];
+  
+  const testsDir = path.join(projectPath, 'tests', 'acceptance');
+  // A project scaffolded for the analysis has a tsconfig.json even when the analyzed repo had no code
+  const typescript = analysis.codeQuality.hasTypescript || await fs.pathExists(path.join(projectPath, 'tsconfig.json'));
+  const header = await testHeader(projectPath, typescript);
+  const written: string[] = [];
+  const slugs = new Set<string>();
+  
+  for (const feature of features) {
+    let slug = slugify(feature.name);
+    for (let suffix = 2; slugs.has(slug); suffix++) {
+      slug = `${slugify(feature.name)}-${suffix}`;
+    }
+    slugs.add(slug);
+    
+    const file = path.join(testsDir, `${slug}.test.${typescript ? 'ts' : 'js'}`);
+    if (await fs.pathExists(file)) continue;
+    
+    await fs.outputFile(file, [...header, ...describeFeature(feature), ''].join('\n'));
+    written.push(path.relative(projectPath, file));
+  }
+  
+  return written;
+}
+
+function describeFeature(feature: ExtractedFeature): string[] {
+  const lines: string[] = [];
+  if (feature.source) {
+    lines.push(`// Acceptance criteria from ${feature.source.file}${feature.source.line ? `:${feature.source.line}` : ''}`);
+  }
+  lines.push(`describe(${quote(feature.name)}, () => {`);
+  
+  (feature.acceptanceCriteria ?? []).forEach((criterion, index) => {
+    if (index > 0) lines.push('');
+    lines.push(...criterionTest(criterion).map(line => `  ${line}`));
+  });
+  
+  lines.push('});');
+  return lines;
+}
+
+// Steps become comments to fill in; the test stays pending until it's written
+function criterionTest(criterion: AcceptanceCriterion): string[] {
+  if (!criterion.steps?.length) {
+    return [`it.todo(${quote(criterion.text.replace(/\s+/g, ' ').trim())});`];
+  }
+  
+  const title = criterion.scenario
+    ?? criterion.steps.filter(step => step.keyword !== 'Given').map(step => step.text).join(', ');
+  return [
+    ...criterion.steps.map(step => `// ${step.keyword} ${step.text}`),
+    `it.todo(${quote(title)});`,
+  ];
+}
+
+// Jest provides describe and it as globals; vitest's are imported, and without either
+// the tests run on node's own test runner
+async function testHeader(projectPath: string, typescript: boolean): Promise<string[]> {
+  const pkg = await fs
+    .readJson(path.join(projectPath, 'package.json'))
+    .catch(() => null) as { type?: string; dependencies?: Record<string, string>; devDependencies?: Record<string, string> } | null;
+  
+  const dependencies = { ...pkg?.dependencies, ...pkg?.devDependencies };
+  if (dependencies['vitest']) return ['import { describe, it } from \'vitest\';', ''];
+  if (dependencies['jest']) return [];
+  return typescript || pkg?.type === 'module'
+    ? ['import { describe, it } from \'node:test\';', '']
+    : ['const { describe, it } = require(\'node:test\');', ''];
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'feature';
+}
@@ -1,9 +1,12 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { execa } from 'execa';
+import { acquireWorkspace } from '@biokit/analyzer';
 import type { RepoAnalysis } from '@biokit/analyzer';
 import type { GenerationOptions, GeneratedProject } from '../index';
 import { generatePrompt } from '../prompts/builder';
+import { writeAcceptanceTests } from './acceptance-tests';
+import { writeModelTypes } from './model-types';
 
 export async function buildFromScratch(
   analysis: RepoAnalysis,
@@ -20,9 +23,10 @@ export async function buildFromScratch(
   
   // Copy requirements to project for context
   const requirementsPath = path.join(projectPath, '.requirements');
-  if (analysis.localPath) {
+  const sourceRequirementsPath = path.join(await acquireWorkspace(analysis), 'requirements');
+  if (await fs.pathExists(sourceRequirementsPath)) {
     await fs.copy(
-      path.join(analysis.localPath, 'requirements'),
+      sourceRequirementsPath,
       requirementsPath,
       { filter: (src) => !src.includes('node_modules') }
     );
@@ -56,6 +60,10 @@ export async function buildFromScratch(
     throw error;
   }
   
+  // Pending tests for the acceptance criteria, for the generated code to make pass
+  const acceptanceTests = await writeAcceptanceTests(projectPath, analysis);
+  const modelTypes = await writeModelTypes(projectPath, analysis);
+  
   return {
     path: projectPath,
     name: projectName,
@@ -67,6 +75,8 @@ export async function buildFromScratch(
       'Configured Tailwind CSS',
       'Integrated biokit-design-system',
       'Implemented features from requirements',
+      ...(acceptanceTests.length > 0 ? [`Added ${acceptanceTests.length} acceptance test skeletons`] : []),
+      ...(modelTypes ? [`Added types for ${analysis.dataModels?.length ?? 0} data models in ${modelTypes}`] : []),
     ],
   };
 }
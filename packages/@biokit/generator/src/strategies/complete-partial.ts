@@ -1,7 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { acquireWorkspace } from '@biokit/analyzer';
 import type { RepoAnalysis } from '@biokit/analyzer';
 import type { GenerationOptions, GeneratedProject } from '../index';
+import { writeAcceptanceTests } from './acceptance-tests';
 
 export async function completePartialImplementation(
   analysis: RepoAnalysis,
@@ -10,15 +12,15 @@ export async function completePartialImplementation(
 ): Promise<GeneratedProject> {
   console.log('🔧 Completing partial implementation...');
   
-  const projectName = path.basename(analysis.localPath || 'completed-app');
+  // The analysis may be cached or its clone already disposed
+  const sourcePath = await acquireWorkspace(analysis);
+  const projectName = path.basename(sourcePath);
   const projectPath = path.join(outputDir, projectName);
   
   // Copy existing project
-  if (analysis.localPath) {
-    await fs.copy(analysis.localPath, projectPath, {
-      filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
-    });
-  }
+  await fs.copy(sourcePath, projectPath, {
+    filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
+  });
   
   const changes: string[] = [];
   
@@ -36,6 +38,11 @@ export async function completePartialImplementation(
   changes.push('Replaced mock data');
   changes.push('Added missing features from requirements');
   
+  const acceptanceTests = await writeAcceptanceTests(projectPath, analysis);
+  if (acceptanceTests.length > 0) {
+    changes.push(`Added ${acceptanceTests.length} acceptance test skeletons`);
+  }
+  
   // Apply standard improvements
   if (analysis.codeQuality.designSystem !== 'biokit') {
     console.log('  Migrating to biokit-design-system...');
@@ -45,7 +52,7 @@ export async function completePartialImplementation(
   return {
     path: projectPath,
     name: projectName,
-    type: analysis.codeQuality.framework,
+    type: analysis.codeQuality.framework.id,
     hasTests: true,
     changes,
   };
@@ -0,0 +1,47 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { RepoAnalysis } from '@biokit/analyzer';
+import { enhanceExistingApp } from './enhance-existing';
+
+const dirs: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'biokit-enhance-'));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map(dir => fs.remove(dir)));
+});
+
+describe('extract-env-variables', () => {
+  it('does not reuse a variable another file already reads', async () => {
+    const source = await tempDir();
+    await fs.outputJson(path.join(source, 'package.json'), { name: 'api', dependencies: { express: '^4.18.0' } });
+    await fs.outputFile(path.join(source, 'src/client.ts'), 'export const baseUrl = process.env.API_URL;\n');
+    await fs.outputFile(path.join(source, 'src/billing.ts'), 'export const apiUrl = \'https://billing.acme.io/v1\';\n');
+    
+    const analysis = {
+      localPath: source,
+      source: { kind: 'local', location: source },
+      improvements: ['extract-env-variables: Move hardcoded values to environment variables'],
+      codeQuality: { framework: { id: 'express', name: 'Express', category: 'backend', ssr: false, ssg: false } },
+      gaps: [{ type: 'hardcoded', file: 'src/billing.ts', line: 1, description: 'Hardcoded URL' }],
+    } as unknown as RepoAnalysis;
+    
+    const project = await enhanceExistingApp(analysis, await tempDir(), {
+      mode: 'enhance',
+      improvements: 'all',
+      preserve: [],
+      style: 'loose',
+    });
+    
+    const billing = await fs.readFile(path.join(project.path, 'src/billing.ts'), 'utf-8');
+    expect(billing).toContain('process.env.API_URL_2');
+    const example = await fs.readFile(path.join(project.path, '.env.example'), 'utf-8');
+    expect(example).toContain('API_URL_2=https://billing.acme.io/v1');
+  });
+});
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
-import type { RepoAnalysis } from '@biokit/analyzer';
+import { acquireWorkspace, buildInventory, findHardcodedValues } from '@biokit/analyzer';
+import type { FrameworkInfo, HardcodedMatch, RepoAnalysis } from '@biokit/analyzer';
 import type { GenerationOptions, GeneratedProject } from '../index';
 import { migrateTooBiokitDesign } from './migrations/biokit-migration';
 import { addTypeScript } from './migrations/typescript-migration';
@@ -13,15 +14,15 @@ export async function enhanceExistingApp(
 ): Promise<GeneratedProject> {
   console.log('✨ Enhancing existing application...');
   
-  const projectName = path.basename(analysis.localPath || 'enhanced-app');
+  // The analysis may be cached or its clone already disposed
+  const sourcePath = await acquireWorkspace(analysis);
+  const projectName = path.basename(sourcePath);
   const projectPath = path.join(outputDir, projectName);
   
   // Copy existing project to output directory
-  if (analysis.localPath) {
-    await fs.copy(analysis.localPath, projectPath, {
-      filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
-    });
-  }
+  await fs.copy(sourcePath, projectPath, {
+    filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
+  });
   
   const changes: string[] = [];
   
@@ -35,7 +36,8 @@ export async function enhanceExistingApp(
   for (const improvement of improvementsToApply) {
     console.log(`  Applying: ${improvement}`);
     
-    switch (improvement) {
+    // Recommendations read `key: description`
+    switch (improvement.split(':')[0]) {
       case 'migrate-to-biokit-design-system':
         await migrateTooBiokitDesign(projectPath, analysis);
         changes.push('Migrated to biokit-design-system');
@@ -82,7 +84,7 @@ export async function enhanceExistingApp(
   return {
     path: projectPath,
     name: projectName,
-    type: analysis.codeQuality.framework,
+    type: analysis.codeQuality.framework.id,
     hasTests: true,
     changes,
   };
@@ -190,7 +192,7 @@ export class ErrorBoundary extends Component<Props, State> {
 
 async function optimizePerformance(projectPath: string, analysis: RepoAnalysis): Promise<void> {
   // Add performance optimizations for Next.js
-  if (analysis.codeQuality.framework.toLowerCase().includes('next')) {
+  if (analysis.codeQuality.framework.id === 'nextjs') {
     // Update next.config.js for optimizations
     const configPath = path.join(projectPath, 'next.config.js');
     let config = await fs.readFile(configPath, 'utf-8').catch(() => '');
@@ -211,22 +213,151 @@ module.exports = nextConfig`
 }
 
 async function extractEnvVariables(projectPath: string, analysis: RepoAnalysis): Promise<void> {
-  // Create .env.example if it doesn't exist
+  // Rescan the files the analysis flagged; the analysis only keeps redacted previews
+  const files = [...new Set((analysis.gaps ?? []).filter(gap => gap.type === 'hardcoded').map(gap => gap.file))];
+  if (files.length === 0) {
+    return;
+  }
+  
+  // Names are given across every source, as in the analysis, so none shadows a variable another file reads
+  const inventory = await buildInventory(projectPath, { ignore: analysis.config?.analysis?.ignore ?? [] });
+  const codeFiles = inventory.paths(['**/*.{js,jsx,ts,tsx}', '**/*.{py,java,go}'], ['**/*.test.*', '**/*.spec.*']);
+  const sources = await Promise.all(codeFiles.map(async file => ({
+    file,
+    content: await inventory.read(file).catch(() => ''),
+  })));
+  const matches = findHardcodedValues(sources).filter(match => files.includes(match.file));
+  if (matches.length === 0) {
+    return;
+  }
+  
+  // Bundlers only expose prefixed variables to the browser; credentials must stay server-side
+  const access = envAccess(analysis.codeQuality.framework);
+  const publicPrefix = access?.publicPrefix ?? '';
+  const variableName = (match: HardcodedMatch) =>
+    match.secret || match.envVar.startsWith(publicPrefix) ? match.envVar : `${publicPrefix}${match.envVar}`;
+  
+  // Where browser code can't be told how to read the variable, only document it
+  if (access) {
+    // Replace from the end of each file so earlier offsets stay valid
+    for (const file of files) {
+      const replaceable = matches
+        .filter(match => match.file === file && match.start !== null && match.end !== null)
+        .sort((a, b) => (b.start ?? 0) - (a.start ?? 0));
+      if (replaceable.length === 0) continue;
+      
+      let content = sources.find(source => source.file === file)?.content ?? '';
+      for (const match of replaceable) {
+        // An existing `process.env.KEY || '…'` keeps its lookup and loses the fallback
+        const reference = match.fallback ? `process.env.${match.envVar}` : access.reference(variableName(match));
+        content = content.slice(0, match.start ?? 0)
+          + (match.jsxAttribute ? `{${reference}}` : reference)
+          + content.slice(match.end ?? 0);
+      }
+      await fs.writeFile(path.join(projectPath, file), content);
+      console.log(`      Updated: ${file}`);
+    }
+  } else {
+    console.log('      Unknown way to read environment variables in this framework; values are left in place');
+  }
+  
+  // One entry per variable, with where it was found; credentials are left blank
+  const variables = new Map<string, HardcodedMatch[]>();
+  for (const match of matches) {
+    const name = variableName(match);
+    variables.set(name, [...(variables.get(name) ?? []), match]);
+  }
+  
   const envExamplePath = path.join(projectPath, '.env.example');
-  if (!await fs.pathExists(envExamplePath)) {
-    await fs.writeFile(envExamplePath, `# API Keys
-# Add your environment variables here
+  const envPath = path.join(projectPath, '.env');
+  const existingExample = await fs.readFile(envExamplePath, 'utf-8').catch(() => '');
+  const existingEnv = await fs.readFile(envPath, 'utf-8').catch(() => '');
+  const declared = (content: string) => new Set(content.split('\n').map(line => line.split('=')[0]?.trim()));
+  const inExample = declared(existingExample);
+  const inEnv = declared(existingEnv);
+  
+  const exampleEntries: string[] = [];
+  const envEntries: string[] = [];
+  variables.forEach((found, name) => {
+    const [first] = found;
+    if (!first) return;
+    const locations = [...new Set(found.map(match => `${match.file}:${match.line}`))].join(', ');
+    if (!inExample.has(name)) {
+      exampleEntries.push(`# ${first.provider ? `${first.provider} ` : ''}${first.kind}, found in ${locations}`);
+      exampleEntries.push(`${name}=${first.secret ? '' : envValue(first.value)}`);
+    }
+    if (!inEnv.has(name)) {
+      envEntries.push(`${name}=${envValue(first.value)}`);
+    }
+  });
+  
+  if (exampleEntries.length > 0) {
+    const separator = existingExample && !existingExample.endsWith('\n') ? '\n' : '';
+    await fs.writeFile(envExamplePath, `${existingExample}${separator}${exampleEntries.join('\n')}\n`);
+  }
+  
+  // Keep the app running with the values it had, in a file that is never committed
+  if (access && envEntries.length > 0) {
+    const separator = existingEnv && !existingEnv.endsWith('\n') ? '\n' : '';
+    await fs.writeFile(envPath, `${existingEnv}${separator}${envEntries.join('\n')}\n`);
+    await ensureGitignored(projectPath, '.env');
+  }
+  
+  const secrets = [...variables.values()].filter(([first]) => first?.secret).length;
+  if (secrets > 0) {
+    console.log(`      ⚠️  ${secrets} secrets were committed to the repository; rotate them`);
+  }
+}
+
+interface EnvAccess {
+  // Prefix a variable needs to reach browser code
+  publicPrefix: string;
+  reference: (name: string) => string;
+}
 
-# Database
-DATABASE_URL=
+// How the app's code reads environment variables; unknown where browser code has no mapping
+function envAccess(framework: FrameworkInfo): EnvAccess | undefined {
+  const processEnv = (name: string) => `process.env.${name}`;
+  switch (framework.id) {
+    case 'nextjs':
+      return { publicPrefix: 'NEXT_PUBLIC_', reference: processEnv };
+    case 'create-react-app':
+      return { publicPrefix: 'REACT_APP_', reference: processEnv };
+    case 'gatsby':
+      return { publicPrefix: 'GATSBY_', reference: processEnv };
+  }
+  
+  // `process` doesn't exist in a Vite bundle
+  const vite = framework.bundler === 'vite' && framework.id !== 'nuxt' && framework.id !== 'remix';
+  if (framework.id === 'vite-react' || vite) {
+    return { publicPrefix: 'VITE_', reference: name => `import.meta.env.${name}` };
+  }
+  
+  // Server-only code has process.env and no browser bundle
+  if (framework.category === 'backend') {
+    return { publicPrefix: '', reference: processEnv };
+  }
+  return undefined;
+}
 
-# Authentication
-NEXTAUTH_URL=http://localhost:3000
-NEXTAUTH_SECRET=
+// Quote values dotenv would otherwise cut at whitespace or a comment
+function envValue(value: string): string {
+  return /[\s#'"]/.test(value) ? JSON.stringify(value) : value;
+}
 
-# Third-party services
-`);
+async function ensureGitignored(projectPath: string, entry: string): Promise<void> {
+  // Without one, post-generation writes the default .gitignore, which covers .env files
+  const gitignorePath = path.join(projectPath, '.gitignore');
+  if (!await fs.pathExists(gitignorePath)) {
+    return;
+  }
+  
+  const gitignore = await fs.readFile(gitignorePath, 'utf-8');
+  if (gitignore.split('\n').some(line => line.trim() === entry || line.trim() === `/${entry}`)) {
+    return;
   }
+  const separator = gitignore && !gitignore.endsWith('\n') ? '\n' : '';
+  await fs.writeFile(gitignorePath, `${gitignore}${separator}${entry}\n`);
 }
 
 async function updatePackageJson(
@@ -1,7 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { acquireWorkspace } from '@biokit/analyzer';
 import type { RepoAnalysis } from '@biokit/analyzer';
 import type { GenerationOptions, GeneratedProject } from '../index';
+import { writeAcceptanceTests } from './acceptance-tests';
 
 export async function applyHybridApproach(
   analysis: RepoAnalysis,
@@ -10,15 +12,15 @@ export async function applyHybridApproach(
 ): Promise<GeneratedProject> {
   console.log('🔀 Applying hybrid approach (enhance + build)...');
   
-  const projectName = path.basename(analysis.localPath || 'hybrid-app');
+  // The analysis may be cached or its clone already disposed
+  const sourcePath = await acquireWorkspace(analysis);
+  const projectName = path.basename(sourcePath);
   const projectPath = path.join(outputDir, projectName);
   
   // Copy existing project
-  if (analysis.localPath) {
-    await fs.copy(analysis.localPath, projectPath, {
-      filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
-    });
-  }
+  await fs.copy(sourcePath, projectPath, {
+    filter: (src) => !src.includes('node_modules') && !src.includes('.git'),
+  });
   
   const changes: string[] = [];
   
@@ -32,6 +34,11 @@ export async function applyHybridApproach(
   changes.push('Implemented new features from requirements');
   changes.push('Added missing pages and components');
   
+  const acceptanceTests = await writeAcceptanceTests(projectPath, analysis);
+  if (acceptanceTests.length > 0) {
+    changes.push(`Added ${acceptanceTests.length} acceptance test skeletons`);
+  }
+  
   // Step 3: Integrate everything
   console.log('  Integrating all components...');
   changes.push('Integrated new and existing features');
@@ -40,7 +47,7 @@ export async function applyHybridApproach(
   return {
     path: projectPath,
     name: projectName,
-    type: analysis.codeQuality.framework,
+    type: analysis.codeQuality.framework.id,
     hasTests: true,
     changes,
   };
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { globby } from 'globby';
+import { dependencyOrder, getComponentMappings, transitiveDependents } from '@biokit/analyzer';
 import type { RepoAnalysis } from '@biokit/analyzer';
 
 export async function migrateTooBiokitDesign(
@@ -21,8 +22,14 @@ export async function migrateTooBiokitDesign(
   // Map common UI library components to biokit equivalents
   const componentMappings = getComponentMappings(analysis.codeQuality.designSystem);
   
+  // With an import graph, migrate shared components before the files that use them
+  const orderedFiles = analysis.imports
+    ? dependencyOrder(analysis.imports, componentFiles)
+    : componentFiles;
+  const updatedFiles: string[] = [];
+  
   // Process each file
-  for (const file of componentFiles) {
+  for (const file of orderedFiles) {
     const filePath = path.join(projectPath, file);
     let content = await fs.readFile(filePath, 'utf-8');
     let modified = false;
@@ -55,109 +62,17 @@ export async function migrateTooBiokitDesign(
     if (modified) {
       await fs.writeFile(filePath, content);
       console.log(`      Updated: ${file}`);
+      updatedFiles.push(file);
     }
   }
   
-  // Update theme configuration
-  await updateThemeConfiguration(projectPath, analysis);
-}
-
-function getComponentMappings(currentDesignSystem: string) {
-  const mappings: any = {
-    imports: {},
-    components: {},
-    props: {},
-  };
-  
-  switch (currentDesignSystem) {
-    case 'material-ui':
-      mappings.imports = {
-        '@mui/material/Button': 'biokit-design-system/Button',
-        '@mui/material/TextField': 'biokit-design-system/Input',
-        '@mui/material/Card': 'biokit-design-system/Card',
-        '@mui/material/Typography': 'biokit-design-system/Text',
-        '@mui/material/Box': 'biokit-design-system/Box',
-        '@mui/material/Grid': 'biokit-design-system/Grid',
-        '@mui/material/Dialog': 'biokit-design-system/Modal',
-        '@mui/material/AppBar': 'biokit-design-system/Header',
-      };
-      mappings.components = {
-        'Button': 'Button',
-        'TextField': 'Input',
-        'Card': 'Card',
-        'Typography': 'Text',
-        'Box': 'Box',
-        'Grid': 'Grid',
-        'Dialog': 'Modal',
-        'AppBar': 'Header',
-      };
-      mappings.props = {
-        'variant': 'variant',
-        'color': 'color',
-        'fullWidth': 'fullWidth',
-        'onClick': 'onClick',
-        'sx': 'className',
-      };
-      break;
-      
-    case 'ant-design':
-      mappings.imports = {
-        'antd/es/button': 'biokit-design-system/Button',
-        'antd/es/input': 'biokit-design-system/Input',
-        'antd/es/card': 'biokit-design-system/Card',
-        'antd/es/typography': 'biokit-design-system/Text',
-        'antd/es/layout': 'biokit-design-system/Layout',
-        'antd/es/modal': 'biokit-design-system/Modal',
-      };
-      mappings.components = {
-        'Button': 'Button',
-        'Input': 'Input',
-        'Card': 'Card',
-        'Typography.Text': 'Text',
-        'Typography.Title': 'Heading',
-        'Layout': 'Layout',
-        'Modal': 'Modal',
-      };
-      mappings.props = {
-        'type': 'variant',
-        'size': 'size',
-        'loading': 'isLoading',
-        'danger': 'destructive',
-      };
-      break;
-      
-    case 'chakra':
-      mappings.imports = {
-        '@chakra-ui/react': 'biokit-design-system',
-      };
-      mappings.components = {
-        'Button': 'Button',
-        'Input': 'Input',
-        'Box': 'Box',
-        'Text': 'Text',
-        'Heading': 'Heading',
-        'Card': 'Card',
-        'Modal': 'Modal',
-        'Stack': 'Stack',
-        'Flex': 'Flex',
-      };
-      mappings.props = {
-        'colorScheme': 'color',
-        'isLoading': 'isLoading',
-        'isDisabled': 'disabled',
-      };
-      break;
-      
-    default:
-      // Generic mappings for custom or unknown systems
-      mappings.imports = {
-        './components/Button': 'biokit-design-system/Button',
-        './components/Input': 'biokit-design-system/Input',
-        './components/Card': 'biokit-design-system/Card',
-      };
+  if (analysis.imports && updatedFiles.length > 0) {
+    const dependents = transitiveDependents(analysis.imports, updatedFiles);
+    console.log(`      ${dependents.length} other files depend on migrated files`);
   }
   
-  return mappings;
+  // Update theme configuration
+  await updateThemeConfiguration(projectPath, analysis);
 }
 
 async function updateThemeConfiguration(projectPath: string, analysis: RepoAnalysis) {
@@ -26,7 +26,7 @@ export async function addTypeScript(
         moduleResolution: 'node',
         resolveJsonModule: true,
         isolatedModules: true,
-        jsx: analysis.codeQuality.framework.includes('next') ? 'preserve' : 'react-jsx',
+        jsx: analysis.codeQuality.framework.id === 'nextjs' ? 'preserve' : 'react-jsx',
         incremental: true,
         paths: {
           '@/*': ['./src/*'],
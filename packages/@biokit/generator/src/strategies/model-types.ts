@@ -0,0 +1,85 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { singularize } from '@biokit/analyzer';
+import type { DataField, DataModel, RepoAnalysis } from '@biokit/analyzer';
+
+// TypeScript interfaces for the data models in the requirements, as a starting point for the schema
+export async function writeModelTypes(projectPath: string, analysis: RepoAnalysis): Promise<string | undefined> {
+  const models = analysis.dataModels ?? [];
+  if (models.length === 0) return undefined;
+  
+  const file = path.join(projectPath, 'types', 'models.ts');
+  if (await fs.pathExists(file)) return undefined;
+  
+  const names = new Map(models.map(model => [model.name, typeName(model)]));
+  const lines = models.flatMap((model, index) => [
+    ...(index > 0 ? [''] : []),
+    ...modelInterface(model, names),
+  ]);
+  await fs.outputFile(file, [...lines, ''].join('\n'));
+  return path.relative(projectPath, file);
+}
+
+function modelInterface(model: DataModel, names: Map<string, string>): string[] {
+  const source = `${model.source.file}${model.source.line ? `:${model.source.line}` : ''}`;
+  return [
+    model.description ? `// ${comment(model.description)} (${source})` : `// From ${source}`,
+    `export interface ${names.get(model.name) ?? typeName(model)} {`,
+    ...model.fields.flatMap(field => [
+      ...(field.description ? [`  // ${comment(field.description)}`] : []),
+      `  ${/^[A-Za-z_$][\w$]*$/.test(field.name) ? field.name : `'${field.name}'`}${field.required ? '' : '?'}: ${fieldType(field, names)};`,
+    ]),
+    '}',
+  ];
+}
+
+function fieldType(field: DataField, names: Map<string, string>): string {
+  let type: string;
+  switch (field.type) {
+    case 'string':
+      type = 'string';
+      break;
+    case 'integer':
+    case 'number':
+      type = 'number';
+      break;
+    case 'boolean':
+      type = 'boolean';
+      break;
+    case 'date':
+      type = 'Date';
+      break;
+    case 'json':
+      type = 'Record<string, unknown>';
+      break;
+    case 'enum':
+      type = (field.enumValues ?? []).map(value => `'${value.replace(/'/g, '\\\'')}'`).join(' | ') || 'string';
+      break;
+    case 'reference':
+      type = field.references ? names.get(field.references) ?? pascalCase(field.references) : 'unknown';
+      break;
+    default:
+      type = 'unknown';
+  }
+  if (!field.list) return type;
+  return /[ |]/.test(type) ? `Array<${type}>` : `${type}[]`;
+}
+
+// Declared names are kept; SQL tables name a row type, so `user_accounts` becomes UserAccount
+function typeName(model: DataModel): string {
+  const name = pascalCase(model.name);
+  return (model.source.format === 'sql' ? singularize(name) : name) || 'Model';
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0]?.toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// Descriptions from JSON Schema or Markdown can span lines
+function comment(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}